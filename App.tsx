@@ -1,38 +1,217 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { VideoUploader } from './components/VideoUploader';
 import { AnalysisResultView } from './components/AnalysisResultView';
-import { analyzeVideoScript } from './services/geminiService';
-import { AppState, VideoFile, AnalysisResult } from './types';
-import { Loader2, Zap, LayoutTemplate } from 'lucide-react';
+import { RecentProjects } from './components/RecentProjects';
+import { StoryboardImporter } from './components/StoryboardImporter';
+import { PresetPicker } from './components/PresetPicker';
+import { getAnalysisProvider, OperationProgress, canSelectApiKey, selectApiKey } from './services/providers';
+import { isAbortError } from './services/polling';
+import { ServiceError, toServiceError } from './services/errors';
+import { createProject, getProject, getTakes, attachProjectVideo, getCachedAnalysis, saveCachedAnalysis, findProjectByAnalysis, TakeRecord } from './services/projectStore';
+import { hashFile } from './services/fileHash';
+import { takesFromRecords } from './services/sceneTakes';
+import { DEFAULT_PRESET, getPresetVersion } from './services/analysisPresets';
+import { describeProgress, getProgressFraction } from './components/operationProgress';
+import { ErrorNotice } from './components/ErrorNotice';
+import { AppState, VideoFile, AnalysisResult, AnalysisPreset, SceneTake, ProjectRecord } from './types';
+import { Loader2, Zap, LayoutTemplate, RefreshCw } from 'lucide-react';
 
 const App: React.FC = () => {
+  const analysisProvider = getAnalysisProvider();
   const [state, setState] = useState<AppState>(AppState.IDLE);
   const [currentVideo, setCurrentVideo] = useState<VideoFile | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [originalResult, setOriginalResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
+  // Re-runs whatever led to the error screen, for the Retry button
+  const retryRef = useRef<(() => void) | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [initialTakes, setInitialTakes] = useState<Record<number, SceneTake[]>>({});
+  const [initialSelectedTakes, setInitialSelectedTakes] = useState<Record<number, string>>({});
+  const [analysisProgress, setAnalysisProgress] = useState<OperationProgress | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [cachedAnalysisAt, setCachedAnalysisAt] = useState<number | null>(null);
+  const [analysisPreset, setAnalysisPreset] = useState<AnalysisPreset>(DEFAULT_PRESET);
 
-  const handleFileSelect = async (video: VideoFile) => {
+  // Release the reference preview once another video replaces it or the app resets
+  const previewUrl = currentVideo?.previewUrl;
+  useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const showProject = (project: ProjectRecord, takes: TakeRecord[]) => {
+    setInitialTakes(takesFromRecords(takes));
+    setInitialSelectedTakes(project.selectedTakes ?? {});
+    setAnalysisResult(project.result);
+    setOriginalResult(project.originalResult ?? project.result);
+    setProjectId(project.id);
+    setError(null);
+    setState(AppState.SUCCESS);
+  };
+
+  // An identical video analysed with the same provider, prompt version and preset is served from
+  // the local cache unless `force` is set, reopening the project it was first saved to. `forceUpload` sends the video through the File
+  // API even when it would fit inline.
+  const handleFileSelect = async (video: VideoFile, options: { force?: boolean; forceUpload?: boolean } = {}) => {
+    const { force = false, forceUpload = false } = options;
     setCurrentVideo(video);
-    setErrorMsg(null);
+    setError(null);
+    retryRef.current = () => handleFileSelect(video, options);
+    setAnalysisProgress({ stage: 'hashing' });
+    setCachedAnalysisAt(null);
     setState(AppState.ANALYZING);
 
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const preset = analysisPreset;
+    const promptVersion = `${analysisProvider.id}:${analysisProvider.promptVersion}:${getPresetVersion(preset)}`;
+
     try {
-      // We now pass the file object directly. The service handles base64 conversion or file upload.
-      const result = await analyzeVideoScript(video.file);
+      const hash = await hashFile(video.file).catch(err => {
+        console.error("Failed to hash video", err);
+        return null;
+      });
+      const cached = hash && !force
+        ? await getCachedAnalysis(hash, promptVersion).catch(err => {
+            console.error("Failed to read analysis cache", err);
+            return undefined;
+          })
+        : undefined;
+      if (controller.signal.aborted) return;
+
+      let result: AnalysisResult;
+      if (cached && hash) {
+        const existing = await findProjectByAnalysis(hash, promptVersion).catch(err => {
+          console.error("Failed to look up the cached analysis's project", err);
+          return undefined;
+        });
+        const takes = existing ? await getTakes(existing.id).catch(err => {
+          console.error("Failed to load takes", err);
+          return [];
+        }) : [];
+        if (controller.signal.aborted) return;
+        setCachedAnalysisAt(cached.createdAt);
+        if (existing) {
+          showProject(existing, takes);
+          return;
+        }
+        result = cached.result;
+      } else {
+        // We now pass the file object directly. The provider handles base64 conversion or file upload.
+        result = await analysisProvider.analyzeVideo(video.file, {
+          signal: controller.signal,
+          onProgress: setAnalysisProgress,
+          forceUpload,
+          preset,
+        });
+        if (controller.signal.aborted) return;
+        if (hash) {
+          saveCachedAnalysis(hash, promptVersion, result).catch(err => console.error("Failed to cache analysis", err));
+        }
+      }
+
+      // A storage failure shouldn't hide a finished analysis; we just continue unsaved
+      let savedProjectId: string | null = null;
+      try {
+        const analysis = hash ? { videoHash: hash, promptVersion } : undefined;
+        savedProjectId = (await createProject(video.file, result, analysis)).id;
+      } catch (storeErr) {
+        console.error("Failed to save project", storeErr);
+      }
+      if (controller.signal.aborted) return;
+
+      setProjectId(savedProjectId);
+      setInitialTakes({});
+      setInitialSelectedTakes({});
       setAnalysisResult(result);
+      setOriginalResult(result);
       setState(AppState.SUCCESS);
+    } catch (err: any) {
+      // A cancel already took the user back to the start screen
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(toServiceError(err));
+      setState(AppState.ERROR);
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+    }
+  };
+
+  const handleImportStoryboard = async (result: AnalysisResult, video: VideoFile | null) => {
+    let savedProjectId: string | null = null;
+    try {
+      savedProjectId = (await createProject(video?.file ?? null, result)).id;
+    } catch (storeErr) {
+      console.error("Failed to save imported project", storeErr);
+    }
+
+    setCurrentVideo(video);
+    setProjectId(savedProjectId);
+    setInitialTakes({});
+    setInitialSelectedTakes({});
+    setAnalysisResult(result);
+    setOriginalResult(result);
+    setError(null);
+    setState(AppState.SUCCESS);
+  };
+
+  const handleAttachVideo = (file: File) => {
+    setCurrentVideo({ file, previewUrl: URL.createObjectURL(file), mimeType: file.type });
+    if (projectId) {
+      attachProjectVideo(projectId, file).catch(err => console.error("Failed to save reference video", err));
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    retryRef.current = () => handleOpenProject(id);
+    try {
+      const project = await getProject(id);
+      if (!project) throw new Error("Project not found. It may have been deleted.");
+      const takes = await getTakes(id);
+
+      if (project.videoBlob) {
+        const file = new File([project.videoBlob], project.videoName ?? 'reference', { type: project.videoMimeType ?? '' });
+        setCurrentVideo({
+          file,
+          previewUrl: URL.createObjectURL(file),
+          mimeType: file.type,
+        });
+      } else {
+        setCurrentVideo(null);
+      }
+      showProject(project, takes);
     } catch (err: any) {
       console.error(err);
-      setErrorMsg(err.message || "An unexpected error occurred during analysis.");
+      setError(toServiceError(err));
       setState(AppState.ERROR);
     }
   };
 
+  const handleSelectKeyAndRetry = async () => {
+    try {
+      await selectApiKey();
+    } catch (err) {
+      console.error("API key selection failed", err);
+      return;
+    }
+    retryRef.current?.();
+  };
+
   const resetApp = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setAnalysisProgress(null);
+    setCachedAnalysisAt(null);
     setState(AppState.IDLE);
     setCurrentVideo(null);
     setAnalysisResult(null);
-    setErrorMsg(null);
+    setOriginalResult(null);
+    setError(null);
+    retryRef.current = null;
+    setProjectId(null);
+    setInitialTakes({});
+    setInitialSelectedTakes({});
   };
 
   return (
@@ -47,7 +226,7 @@ const App: React.FC = () => {
             <span className="font-bold text-xl tracking-tight text-white">Viral<span className="text-brand-neon">Replicator</span></span>
           </div>
           <div className="text-xs font-mono text-gray-500 border border-gray-800 px-2 py-1 rounded">
-             Powered by Gemini 2.5
+             Powered by {analysisProvider.label}
           </div>
         </div>
       </nav>
@@ -71,7 +250,12 @@ const App: React.FC = () => {
           
           {/* Uploader State */}
           {state === AppState.IDLE && (
-             <VideoUploader onFileSelect={handleFileSelect} />
+             <>
+               <VideoUploader onFileSelect={handleFileSelect} />
+               <PresetPicker selectedPresetId={analysisPreset.id} onSelect={setAnalysisPreset} />
+               <StoryboardImporter onImport={handleImportStoryboard} />
+               <RecentProjects onOpen={handleOpenProject} />
+             </>
           )}
 
           {/* Loading State */}
@@ -84,11 +268,23 @@ const App: React.FC = () => {
               <div>
                 <h3 className="text-xl font-bold text-white">Analyzing Video Structure...</h3>
                 <p className="text-gray-400 mt-2">
-                  {currentVideo && currentVideo.file.size > 10 * 1024 * 1024 
-                    ? "Uploading large video to Gemini & Processing..."
-                    : "Gemini is decomposing scenes & identifying camera angles..."}
+                  {analysisProgress ? `${describeProgress(analysisProgress)}...` : "Preparing video..."}
                 </p>
+                {analysisProgress && getProgressFraction(analysisProgress) !== null && (
+                  <div className="w-64 h-1.5 bg-gray-800 rounded-full overflow-hidden mt-4 mx-auto">
+                    <div
+                      className="h-full bg-brand-neon transition-all duration-300"
+                      style={{ width: `${getProgressFraction(analysisProgress)! * 100}%` }}
+                    />
+                  </div>
+                )}
               </div>
+              <button
+                onClick={resetApp}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
             </div>
           )}
 
@@ -96,18 +292,28 @@ const App: React.FC = () => {
           {state === AppState.ERROR && (
              <div className="text-center space-y-4 bg-red-900/10 border border-red-900/50 p-8 rounded-2xl max-w-lg">
                 <div className="text-red-500 font-bold text-xl">Analysis Failed</div>
-                <p className="text-gray-300">{errorMsg}</p>
+                {error && (
+                  <div className="text-left">
+                    <ErrorNotice
+                      error={error}
+                      onRetry={retryRef.current ?? undefined}
+                      onSelectKey={canSelectApiKey() && retryRef.current ? handleSelectKeyAndRetry : undefined}
+                      onUseUpload={currentVideo ? () => handleFileSelect(currentVideo, { force: true, forceUpload: true }) : undefined}
+                      onTrimVideo={resetApp}
+                    />
+                  </div>
+                )}
                 <button 
                   onClick={resetApp}
                   className="px-6 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors border border-gray-700"
                 >
-                  Try Again
+                  Start Over
                 </button>
              </div>
           )}
 
           {/* Success Result State */}
-          {state === AppState.SUCCESS && analysisResult && currentVideo && (
+          {state === AppState.SUCCESS && analysisResult && (
             <div className="w-full">
                <div className="flex justify-between items-center mb-8">
                   <button 
@@ -116,8 +322,28 @@ const App: React.FC = () => {
                   >
                     ← Analyze Another Video
                   </button>
+                  {cachedAnalysisAt !== null && currentVideo && (
+                    <div className="flex items-center gap-3 text-xs text-gray-500">
+                      <span>Loaded saved analysis from {new Date(cachedAnalysisAt).toLocaleString()}</span>
+                      <button
+                        onClick={() => handleFileSelect(currentVideo, { force: true })}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors"
+                      >
+                        <RefreshCw className="w-3 h-3" /> Re-analyze
+                      </button>
+                    </div>
+                  )}
                </div>
-               <AnalysisResultView result={analysisResult} videoUrl={currentVideo.previewUrl} />
+               <AnalysisResultView 
+                 result={analysisResult} 
+                 originalResult={originalResult ?? undefined}
+                 videoUrl={currentVideo?.previewUrl ?? null} 
+                 videoFile={currentVideo?.file ?? null}
+                 onAttachVideo={handleAttachVideo}
+                 projectId={projectId}
+                 initialTakes={initialTakes}
+                 initialSelectedTakes={initialSelectedTakes}
+               />
             </div>
           )}
 
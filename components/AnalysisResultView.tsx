@@ -1,27 +1,209 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisResult, StoryboardScene } from '../types';
-import { Copy, Check, Video, Image as ImageIcon, Clapperboard, Film, Sparkles, Upload, Loader2, AlertCircle, Layers, PlayCircle, Download, Edit2, Save, X } from 'lucide-react';
-import { generateVeoVideo } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AnalysisResult, StoryboardScene, SceneTiming, SceneKeyframe, ScenePromptFields, ClipAssemblyConfig, SceneTake } from '../types';
+import { Undo2, Redo2, SlidersHorizontal, Clapperboard, Film, Upload, Loader2, Layers, PlayCircle, Download, AlertTriangle, ChevronDown, GitCompare } from 'lucide-react';
+import { getAnalysisProvider, VeoAspectRatio } from '../services/providers';
+import { saveProjectResult, saveSelectedTakes, saveTake, setTakeStarred, deleteTake, getCustomPreset } from '../services/projectStore';
+import { BUILT_IN_PRESETS } from '../services/analysisPresets';
+import { useEditHistory } from '../hooks/useEditHistory';
+import { resolveSceneTimings, findSceneAtTime } from '../services/timeRange';
+import { captureFrames, getKeyframeTimes } from '../services/frameCapture';
+import { assembleVideo, AssemblyClip, AssemblySettings, getDefaultAssemblySettings, resolveOutputResolution, loadVideoDuration } from '../services/videoAssembly';
+import { createClipConfig, getSegmentSpans } from '../services/assemblyTimeline';
+import { isAbortError } from '../services/polling';
+import { getNextSceneId } from '../services/storyboardEdits';
+import { createTake, getSelectedClipUrls, TakeInputs } from '../services/sceneTakes';
+import { ExportMenu } from './ExportMenu';
+import { SceneCard } from './SceneCard';
+import { SceneTimeline } from './SceneTimeline';
+import { TimelineEditor } from './TimelineEditor';
+import { BatchGenerationPanel } from './BatchGenerationPanel';
+import { ViralAnalysisPanel } from './ViralAnalysisPanel';
+import { AssemblySettingsPanel } from './AssemblySettingsPanel';
+import { ClipTimingEditor } from './ClipTimingEditor';
+import { ComparisonPlayer } from './ComparisonPlayer';
+
+// The last final cut, with where each scene landed in it and the reference timing it was cut against
+interface MergedVideo {
+  url: string;
+  extension: string;
+  warnings: string[];
+  sceneTimings: SceneTiming[];
+  referenceTimings: SceneTiming[];
+}
 
 interface AnalysisResultViewProps {
   result: AnalysisResult;
-  videoUrl: string;
+  originalResult?: AnalysisResult; // the model's untouched output, for diffs and "revert to AI"
+  videoUrl: string | null;
+  videoFile?: File | null;
+  projectId?: string | null;
+  initialTakes?: Record<number, SceneTake[]>;
+  initialSelectedTakes?: Record<number, string>;
+  onAttachVideo?: (file: File) => void;
 }
 
-export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, videoUrl }) => {
-  // Local state to manage edits to the analysis result
-  const [localResult, setLocalResult] = useState<AnalysisResult>(result);
+export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, originalResult, videoUrl, videoFile, projectId, initialTakes, initialSelectedTakes, onAttachVideo }) => {
+  // Local state to manage edits to the analysis result, with undo/redo
+  const history = useEditHistory<AnalysisResult>(result);
+  const localResult = history.state;
+  const { undo, redo } = history;
+  // The storyboard as last written to the project, so undoing back to it is saved too
+  const savedResultRef = useRef(result);
   
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const [generatedVideos, setGeneratedVideos] = useState<Record<number, string>>({});
+  const [takes, setTakes] = useState<Record<number, SceneTake[]>>(initialTakes ?? {});
+  // The take selection as last written to the project
+  const savedSelectionRef = useRef<Record<number, string>>(initialSelectedTakes ?? {});
+  const [selectedTakes, setSelectedTakes] = useState<Record<number, string>>(savedSelectionRef.current);
+  // Pending blob writes per take id; later writes to the same take wait for them
+  const takeSavesRef = useRef<Record<string, Promise<void>>>({});
+  // Latest takes for the unmount cleanup, and its deferred revoke
+  const takesRef = useRef(takes);
+  takesRef.current = takes;
+  const takeRevokeTimerRef = useRef<number | undefined>(undefined);
+  // The clip each scene contributes to the final cut
+  const generatedVideos = useMemo(() => getSelectedClipUrls(takes, selectedTakes), [takes, selectedTakes]);
   const [isMerging, setIsMerging] = useState(false);
-  const [mergedVideoUrl, setMergedVideoUrl] = useState<string | null>(null);
+  const [mergedVideo, setMergedVideo] = useState<MergedVideo | null>(null);
   const [mergeProgress, setMergeProgress] = useState<string>("");
+  const [aspectRatio, setAspectRatio] = useState<VeoAspectRatio>('16:9');
+  const [assemblySettings, setAssemblySettings] = useState<AssemblySettings>(getDefaultAssemblySettings);
+  const mergeAbortRef = useRef<AbortController | null>(null);
+  const [clipConfigs, setClipConfigs] = useState<Record<number, ClipAssemblyConfig>>({});
+  const [clipDurations, setClipDurations] = useState<Record<string, number>>({});
+  const [showWarnings, setShowWarnings] = useState(false);
+  // Repairs describe the model's output, so they come from the untouched version
+  const analysisWarnings = (originalResult ?? result).warnings ?? [];
+
+  // Reference player sync
+  const referenceVideoRef = useRef<HTMLVideoElement>(null);
+  const [referenceTime, setReferenceTime] = useState(0);
+  const [referenceDuration, setReferenceDuration] = useState(0);
+  const [isTimelineEditorOpen, setIsTimelineEditorOpen] = useState(false);
+  const [selectedSceneId, setSelectedSceneId] = useState<number | null>(null);
+  // Ids only ever go up, so a scene deleted (and maybe undone later) keeps its takes and baseline to itself
+  const [nextSceneId, setNextSceneId] = useState(() => getNextSceneId(
+    result.scenes.map(s => s.id),
+    (originalResult ?? result).scenes.map(s => s.id),
+    Object.keys(initialTakes ?? {}).map(Number),
+  ));
+
+  const sceneTimings = useMemo(
+    () => resolveSceneTimings(localResult.scenes, referenceDuration || undefined),
+    [localResult.scenes, referenceDuration]
+  );
+  const activeSceneId = videoUrl ? findSceneAtTime(sceneTimings, referenceTime)?.sceneId ?? null : null;
+
+  // Keyframes are only re-extracted when scene boundaries move, not on text edits
+  const [keyframes, setKeyframes] = useState<Record<number, SceneKeyframe[]>>({});
+  const timingsKey = sceneTimings.map(t => `${t.sceneId}:${t.start}-${t.end}`).join('|');
+
+  useEffect(() => {
+    if (!videoUrl) return;
+    // A retimed storyboard restarts extraction instead of queueing behind the old one
+    const controller = new AbortController();
+
+    const requests = sceneTimings.map(t => ({ sceneId: t.sceneId, times: getKeyframeTimes(t.start, t.end) }));
+    captureFrames(videoUrl, requests.flatMap(r => r.times), undefined, undefined, controller.signal)
+      .then(frames => {
+        if (controller.signal.aborted) return;
+        const bySceneId: Record<number, SceneKeyframe[]> = {};
+        let offset = 0;
+        requests.forEach(({ sceneId, times }) => {
+          bySceneId[sceneId] = times
+            .map((time, i) => ({ time, dataUrl: frames[offset + i] }))
+            .filter((frame): frame is SceneKeyframe => !!frame.dataUrl);
+          offset += times.length;
+        });
+        setKeyframes(bySceneId);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error("Keyframe extraction failed", err);
+      });
+
+    return () => controller.abort();
+  }, [videoUrl, timingsKey]);
 
   // Sync state if prop changes (e.g. re-analysis)
   useEffect(() => {
-    setLocalResult(result);
-  }, [result]);
+    savedResultRef.current = result;
+    history.reset(result);
+    setNextSceneId(prev => getNextSceneId([prev - 1], result.scenes.map(s => s.id)));
+  }, [result, history.reset]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Stop rendering if the view goes away mid-merge
+  useEffect(() => () => mergeAbortRef.current?.abort(), []);
+
+  // Release every take's clip when the view goes away. Deferred so StrictMode's
+  // simulated unmount, which mounts again straight away, keeps the clips playable.
+  useEffect(() => {
+    window.clearTimeout(takeRevokeTimerRef.current);
+    return () => {
+      const urls = Object.values<SceneTake[]>(takesRef.current).flat().map(take => take.url);
+      takeRevokeTimerRef.current = window.setTimeout(() => urls.forEach(url => URL.revokeObjectURL(url)));
+    };
+  }, []);
+
+  // Release each final cut once it is replaced or the view goes away
+  const mergedVideoUrl = mergedVideo?.url;
+  useEffect(() => {
+    if (!mergedVideoUrl) return;
+    return () => URL.revokeObjectURL(mergedVideoUrl);
+  }, [mergedVideoUrl]);
+
+  // Clip lengths bound the trim points; each clip is measured once
+  useEffect(() => {
+    let cancelled = false;
+    localResult.scenes
+      .map(scene => generatedVideos[scene.id])
+      .filter(url => !!url && clipDurations[url] === undefined)
+      .forEach(url => {
+        loadVideoDuration(url)
+          .then(duration => {
+            if (!cancelled) setClipDurations(prev => ({ ...prev, [url]: duration }));
+          })
+          .catch(err => console.error("Could not read clip duration", err));
+      });
+    return () => { cancelled = true; };
+  }, [generatedVideos, localResult.scenes]);
+
+  const baselineScenes = useMemo(
+    () => new Map((originalResult ?? result).scenes.map(scene => [scene.id, scene])),
+    [originalResult, result]
+  );
+
+  // Persist user edits to the open project
+  useEffect(() => {
+    if (!projectId || localResult === savedResultRef.current) return;
+    savedResultRef.current = localResult;
+    saveProjectResult(projectId, localResult).catch(err => console.error("Failed to save project", err));
+  }, [projectId, localResult]);
+
+  useEffect(() => {
+    if (!projectId || selectedTakes === savedSelectionRef.current) return;
+    savedSelectionRef.current = selectedTakes;
+    saveSelectedTakes(projectId, selectedTakes).catch(err => console.error("Failed to save take selection", err));
+  }, [projectId, selectedTakes]);
 
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -29,113 +211,171 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const handleVideoGenerated = (sceneId: number, url: string) => {
-    setGeneratedVideos(prev => ({
+  // A new take goes straight into the final cut; earlier ones stay around to switch back to
+  const handleTakeGenerated = (sceneId: number, url: string, inputs: TakeInputs) => {
+    const take = createTake(sceneId, url, inputs);
+    setTakes(prev => ({ ...prev, [sceneId]: [...(prev[sceneId] ?? []), take] }));
+    setSelectedTakes(prev => ({ ...prev, [sceneId]: take.id }));
+
+    if (projectId) {
+      takeSavesRef.current[take.id] = fetch(url)
+        .then(res => res.blob())
+        .then(blob => saveTake(projectId, take, blob))
+        .catch(err => console.error("Failed to save generated take", err));
+    }
+  };
+
+  const afterTakeSaved = (takeId: string) => takeSavesRef.current[takeId] ?? Promise.resolve();
+
+  const handleSelectTake = (sceneId: number, takeId: string) => {
+    setSelectedTakes(prev => ({ ...prev, [sceneId]: takeId }));
+  };
+
+  const handleToggleTakeStar = (sceneId: number, takeId: string) => {
+    const take = takes[sceneId]?.find(t => t.id === takeId);
+    if (!take) return;
+    setTakes(prev => ({
       ...prev,
-      [sceneId]: url
+      [sceneId]: (prev[sceneId] ?? []).map(t => t.id === takeId ? { ...t, starred: !take.starred } : t),
     }));
+    if (projectId) {
+      afterTakeSaved(takeId)
+        .then(() => setTakeStarred(projectId, takeId, !take.starred))
+        .catch(err => console.error("Failed to save take", err));
+    }
+  };
+
+  const handleDeleteTake = (sceneId: number, takeId: string) => {
+    const take = takes[sceneId]?.find(t => t.id === takeId);
+    setTakes(prev => ({ ...prev, [sceneId]: (prev[sceneId] ?? []).filter(t => t.id !== takeId) }));
+    // Deleting the selected take hands the scene back to its latest remaining one
+    setSelectedTakes(prev => {
+      if (prev[sceneId] !== takeId) return prev;
+      const next = { ...prev };
+      delete next[sceneId];
+      return next;
+    });
+    // The pending save still reads the clip from its URL, so both wait for it
+    afterTakeSaved(takeId)
+      .then(() => {
+        delete takeSavesRef.current[takeId];
+        if (take) URL.revokeObjectURL(take.url);
+        if (projectId) return deleteTake(projectId, takeId);
+      })
+      .catch(err => console.error("Failed to delete take", err));
+  };
+
+  const seekReference = (time: number) => {
+    // Track the playhead even without a reference video so the timeline editor can split at it
+    setReferenceTime(time);
+    if (referenceVideoRef.current) {
+      referenceVideoRef.current.currentTime = time;
+    }
+  };
+
+  const handleSceneSelect = (timing: SceneTiming) => {
+    const player = referenceVideoRef.current;
+    if (!player) return;
+    seekReference(timing.start);
+    player.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    player.play().catch(() => { /* autoplay may be blocked; the seek still applies */ });
   };
 
-  const handleSceneUpdate = (updatedScene: StoryboardScene) => {
-    setLocalResult(prev => ({
+  const handleSceneUpdate = (updatedScene: StoryboardScene, label = `Edit scene ${updatedScene.id}`) => {
+    history.commit(label, prev => ({
       ...prev,
       scenes: prev.scenes.map(s => s.id === updatedScene.id ? updatedScene : s)
     }));
   };
 
-  const handleMergeVideos = async () => {
-    // Filter and sort videos by scene ID to ensure correct order
-    const orderedScenes = localResult.scenes.sort((a, b) => a.id - b.id);
-    const videoUrlsToMerge = orderedScenes
-      .map(scene => generatedVideos[scene.id])
-      .filter(url => !!url);
+  const handleRegenerateScene = async (
+    scene: StoryboardScene,
+    timing: SceneTiming,
+    hint: string,
+    signal: AbortSignal
+  ): Promise<ScenePromptFields> => {
+    // Regenerate with the model and language the storyboard was analysed with
+    const { presetId } = localResult;
+    const preset = BUILT_IN_PRESETS.find(p => p.id === presetId)
+      ?? (presetId ? await getCustomPreset(presetId) : undefined);
+    return getAnalysisProvider().regenerateScene(videoFile ?? null, {
+      scene,
+      start: timing.start,
+      end: timing.end,
+      storyboard: localResult,
+      hint: hint || undefined,
+    }, { signal, preset });
+  };
 
-    if (videoUrlsToMerge.length === 0) return;
+  // Structural edits keep scene ids stable and new scenes never reuse one, so takes of
+  // removed scenes stay with them for undo and are only deleted with the project.
+  const handleTimelineChange = (scenes: StoryboardScene[], label: string) => {
+    history.commit(label, prev => ({ ...prev, scenes }));
+    setNextSceneId(prev => getNextSceneId([prev - 1], scenes.map(s => s.id)));
+    // Trims and transitions were set for a specific clip, so deleted scenes lose them
+    const currentIds = new Set(scenes.map(s => s.id));
+    setClipConfigs(prev => {
+      const next = { ...prev };
+      Object.keys(next).map(Number)
+        .filter(id => !currentIds.has(id))
+        .forEach(id => delete next[id]);
+      return next;
+    });
+    if (selectedSceneId !== null && !scenes.some(s => s.id === selectedSceneId)) {
+      setSelectedSceneId(null);
+    }
+  };
+
+  const handleMergeVideos = async () => {
+    // Storyboard order is time order; ids may be out of sequence after timeline edits
+    const readyScenes = localResult.scenes
+      .map((scene, index) => ({ scene, timing: sceneTimings[index] }))
+      .filter(({ scene }) => !!generatedVideos[scene.id]);
+
+    if (readyScenes.length === 0) return;
+
+    const clipsToMerge: AssemblyClip[] = readyScenes.map(({ scene, timing }) => ({
+      url: generatedVideos[scene.id],
+      sceneDuration: timing.end - timing.start,
+      config: clipConfigs[scene.id] ?? createClipConfig(),
+      overlays: assemblySettings.burnInOverlays ? scene.textOverlays : undefined,
+    }));
 
+    const resolution = resolveOutputResolution(assemblySettings.resolutionId, aspectRatio);
+    const controller = new AbortController();
+    mergeAbortRef.current = controller;
     setIsMerging(true);
-    setMergedVideoUrl(null);
+    setMergedVideo(null);
     setMergeProgress("Initializing studio...");
 
     try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const videoPlayer = document.createElement('video');
-      videoPlayer.crossOrigin = "anonymous";
-      videoPlayer.muted = true; // Required for auto-play in some contexts, we handle audio separately if needed or via captureStream
-
-      if (!ctx) throw new Error("Could not create canvas context");
-
-      // Setup Media Recorder
-      // We need to wait for the first video to set dimensions
-      
-      const stream = canvas.captureStream(30); // 30 FPS
-      const chunks: Blob[] = [];
-      const mediaRecorder = new MediaRecorder(stream, { mimeType: 'video/webm;codecs=vp9' });
-      
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunks.push(e.data);
-      };
-
-      mediaRecorder.start();
-
-      for (let i = 0; i < videoUrlsToMerge.length; i++) {
-        const url = videoUrlsToMerge[i];
-        setMergeProgress(`Processing scene ${i + 1} of ${videoUrlsToMerge.length}...`);
-
-        await new Promise<void>((resolve, reject) => {
-          videoPlayer.src = url;
-          
-          videoPlayer.onloadedmetadata = () => {
-            // Set canvas size to match the first video (assuming consistent aspect ratio)
-            if (i === 0) {
-              canvas.width = videoPlayer.videoWidth;
-              canvas.height = videoPlayer.videoHeight;
-            }
-          };
-
-          videoPlayer.onended = () => {
-            resolve();
-          };
-
-          videoPlayer.onerror = (e) => {
-            console.error("Error playing video segment", e);
-            resolve(); // Skip on error to keep going
-          };
-
-          videoPlayer.play().then(() => {
-            const drawFrame = () => {
-              if (videoPlayer.paused || videoPlayer.ended) return;
-              ctx.drawImage(videoPlayer, 0, 0, canvas.width, canvas.height);
-              requestAnimationFrame(drawFrame);
-            };
-            drawFrame();
-          }).catch(e => {
-             console.error("Play failed", e);
-             resolve();
-          });
-        });
-      }
-
-      mediaRecorder.stop();
-      
-      await new Promise<void>(resolve => {
-        mediaRecorder.onstop = () => resolve();
+      const video = await assembleVideo(clipsToMerge, {
+        width: resolution.width,
+        height: resolution.height,
+        fit: assemblySettings.fit,
+        format: assemblySettings.format,
+        matchReferenceTiming: assemblySettings.matchReferenceTiming,
+        signal: controller.signal,
+        onProgress: setMergeProgress,
+      });
+      setMergedVideo({
+        url: URL.createObjectURL(video.blob),
+        extension: video.extension,
+        warnings: video.warnings,
+        sceneTimings: getSegmentSpans(video.plan).map((span, i) => ({ sceneId: readyScenes[video.clipIndices[i]].scene.id, ...span, isEstimated: false })),
+        referenceTimings: sceneTimings,
       });
-
-      const blob = new Blob(chunks, { type: 'video/webm' });
-      const finalUrl = URL.createObjectURL(blob);
-      setMergedVideoUrl(finalUrl);
-
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Merge failed", error);
-      alert("Failed to merge videos. Please check console for details.");
+      alert(`Failed to merge videos. ${error instanceof Error ? error.message : 'Please check console for details.'}`);
     } finally {
       setIsMerging(false);
       setMergeProgress("");
     }
   };
 
-  const readySceneCount = Object.keys(generatedVideos).length;
+  const readySceneCount = localResult.scenes.filter(scene => generatedVideos[scene.id]).length;
   const totalSceneCount = localResult.scenes.length;
   const allReady = readySceneCount > 0 && readySceneCount === totalSceneCount;
 
@@ -146,10 +386,44 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12">
         {/* Video Preview */}
         <div className="lg:col-span-1">
-            <div className="relative rounded-xl overflow-hidden shadow-2xl border border-gray-700 bg-black">
-                <video src={videoUrl} controls className="w-full aspect-video object-contain" />
-                <div className="absolute top-2 left-2 bg-black/70 px-2 py-1 rounded text-xs text-white font-mono">Reference</div>
-            </div>
+            {videoUrl ? (
+                <>
+                    <div className="relative rounded-xl overflow-hidden shadow-2xl border border-gray-700 bg-black">
+                        <video 
+                            ref={referenceVideoRef}
+                            src={videoUrl} 
+                            controls 
+                            className="w-full aspect-video object-contain" 
+                            onTimeUpdate={e => setReferenceTime(e.currentTarget.currentTime)}
+                            onLoadedMetadata={e => setReferenceDuration(e.currentTarget.duration)}
+                        />
+                        <div className="absolute top-2 left-2 bg-black/70 px-2 py-1 rounded text-xs text-white font-mono">Reference</div>
+                    </div>
+                    <SceneTimeline 
+                        timings={sceneTimings}
+                        duration={referenceDuration}
+                        currentTime={referenceTime}
+                        activeSceneId={activeSceneId}
+                        onSeek={seekReference}
+                        scenes={localResult.scenes}
+                    />
+                </>
+            ) : (
+                <label className="flex flex-col items-center justify-center w-full aspect-video rounded-xl border-2 border-dashed border-gray-700 hover:border-brand-500 bg-black/40 cursor-pointer transition-colors text-center px-4">
+                    <Upload className="w-6 h-6 text-gray-500 mb-2" />
+                    <span className="text-sm text-gray-400">Attach reference video</span>
+                    <span className="text-xs text-gray-600 mt-1">Imported storyboard has no source video</span>
+                    <input 
+                        type="file" 
+                        accept="video/*" 
+                        className="hidden" 
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file && onAttachVideo) onAttachVideo(file);
+                        }}
+                    />
+                </label>
+            )}
         </div>
 
         {/* Meta Info */}
@@ -160,34 +434,111 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
             <p className="text-gray-300 leading-relaxed bg-dark-card p-4 rounded-lg border border-gray-700/50">
                 {localResult.summary}
             </p>
-            <div className="flex gap-4">
+            {analysisWarnings.length > 0 && (
+                <div className="text-xs bg-yellow-900/10 border border-yellow-800/50 rounded-lg">
+                    <button
+                        onClick={() => setShowWarnings(open => !open)}
+                        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-yellow-500"
+                    >
+                        <span className="flex items-center gap-2">
+                            <AlertTriangle className="w-3 h-3" />
+                            The model's response needed {analysisWarnings.length} {analysisWarnings.length === 1 ? 'fix' : 'fixes'}. Double-check the affected scenes.
+                        </span>
+                        <ChevronDown className={`w-3 h-3 transition-transform ${showWarnings ? 'rotate-180' : ''}`} />
+                    </button>
+                    {showWarnings && (
+                        <ul className="px-3 pb-3 space-y-1 text-gray-400 list-disc list-inside">
+                            {analysisWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+            <div className="flex gap-4 items-center justify-between">
                 <div className="flex items-center gap-2 text-sm text-gray-400">
                     <Clapperboard className="w-4 h-4 text-brand-500" />
                     <span>{localResult.scenes.length} Scenes Detected</span>
                 </div>
+                <ExportMenu result={localResult} videoUrl={videoUrl} keyframes={keyframes} />
             </div>
         </div>
       </div>
 
       <div className="border-t border-gray-700 my-8"></div>
 
+      <ViralAnalysisPanel
+        analysis={localResult.viralAnalysis}
+        timings={sceneTimings}
+        onSeek={videoUrl ? seekReference : undefined}
+      />
+
       <div className="mb-6 flex items-center justify-between">
           <h3 className="text-xl font-semibold text-white flex items-center gap-2">
             <span className="w-2 h-8 bg-brand-neon rounded-full"></span>
             Replication Workflow (Storyboard)
           </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={undo}
+              disabled={!history.canUndo}
+              className="p-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.canRedo}
+              className="p-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsTimelineEditorOpen(open => !open)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border transition-colors ${isTimelineEditorOpen ? 'bg-brand-600 border-brand-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700'}`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              {isTimelineEditorOpen ? 'Close Timeline Editor' : 'Edit Timeline'}
+            </button>
+          </div>
       </div>
 
+      {isTimelineEditorOpen && (
+        <TimelineEditor
+          scenes={localResult.scenes}
+          nextSceneId={nextSceneId}
+          duration={referenceDuration}
+          currentTime={referenceTime}
+          selectedSceneId={selectedSceneId}
+          onSelectScene={setSelectedSceneId}
+          onSeek={seekReference}
+          onChange={handleTimelineChange}
+        />
+      )}
+
       {/* Scenes List */}
       <div className="space-y-6 mb-16">
         {localResult.scenes.map((scene, index) => (
           <SceneCard 
             key={scene.id} // Use ID as key to prevent issues if array reorders, though here we just map
             scene={scene} 
+            baseline={baselineScenes.get(scene.id)}
+            timing={sceneTimings[index]}
+            isActive={scene.id === activeSceneId}
+            keyframes={keyframes[scene.id]}
+            referenceVideoUrl={videoUrl}
+            onSelect={videoUrl ? () => handleSceneSelect(sceneTimings[index]) : undefined}
             onCopy={copyToClipboard} 
             copiedId={copiedId} 
-            onVideoSuccess={(url) => handleVideoGenerated(scene.id, url)}
+            takes={takes[scene.id]}
+            selectedTakeId={selectedTakes[scene.id]}
+            defaultAspectRatio={aspectRatio}
+            onTakeGenerated={(url, inputs) => handleTakeGenerated(scene.id, url, inputs)}
+            onSelectTake={(takeId) => handleSelectTake(scene.id, takeId)}
+            onToggleTakeStar={(takeId) => handleToggleTakeStar(scene.id, takeId)}
+            onDeleteTake={(takeId) => handleDeleteTake(scene.id, takeId)}
             onUpdate={handleSceneUpdate}
+            onRegenerate={(hint, signal) => handleRegenerateScene(scene, sceneTimings[index], hint, signal)}
           />
         ))}
       </div>
@@ -206,29 +557,37 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
                 <div className="space-y-6">
                     <p className="text-gray-400">
                         Merge all your generated scene videos into a final cut. 
-                        Ensure you have generated videos for the scenes you want to include.
+                        Generate missing scenes one by one above, or queue them all at once here.
                     </p>
                     
-                    {/* Progress Checklist */}
-                    <div className="bg-dark-bg/50 rounded-lg p-4 border border-gray-800 max-h-60 overflow-y-auto">
-                        <h4 className="text-sm font-semibold text-gray-300 mb-3 uppercase tracking-wider">Scene Status</h4>
-                        <div className="space-y-2">
-                            {localResult.scenes.map(scene => (
-                                <div key={scene.id} className="flex items-center justify-between text-sm">
-                                    <span className="text-gray-400">Scene {scene.id}</span>
-                                    {generatedVideos[scene.id] ? (
-                                        <span className="flex items-center gap-1 text-green-400">
-                                            <Check className="w-3 h-3" /> Ready
-                                        </span>
-                                    ) : (
-                                        <span className="flex items-center gap-1 text-gray-600">
-                                            <div className="w-2 h-2 rounded-full bg-gray-700"></div> Pending
-                                        </span>
-                                    )}
-                                </div>
-                            ))}
-                        </div>
-                    </div>
+                    <BatchGenerationPanel
+                        scenes={localResult.scenes}
+                        generatedVideos={generatedVideos}
+                        aspectRatio={aspectRatio}
+                        onAspectRatioChange={setAspectRatio}
+                        referenceVideoUrl={videoUrl}
+                        keyframes={keyframes}
+                        onTakeGenerated={handleTakeGenerated}
+                    />
+
+                    <AssemblySettingsPanel
+                        settings={assemblySettings}
+                        onChange={setAssemblySettings}
+                        aspectRatio={aspectRatio}
+                        hasOverlays={localResult.scenes.some(scene => !!scene.textOverlays?.length)}
+                        disabled={isMerging}
+                    />
+
+                    <ClipTimingEditor
+                        scenes={localResult.scenes}
+                        sceneTimings={sceneTimings}
+                        generatedVideos={generatedVideos}
+                        clipDurations={clipDurations}
+                        configs={clipConfigs}
+                        onChange={(sceneId, config) => setClipConfigs(prev => ({ ...prev, [sceneId]: config }))}
+                        matchReferenceTiming={assemblySettings.matchReferenceTiming}
+                        disabled={isMerging}
+                    />
 
                     <button
                         onClick={handleMergeVideos}
@@ -261,23 +620,26 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
 
                 {/* Final Video Output */}
                 <div className="flex items-center justify-center bg-black/50 rounded-xl border border-gray-800 min-h-[300px]">
-                    {mergedVideoUrl ? (
+                    {mergedVideo ? (
                          <div className="w-full h-full flex flex-col">
                             <video 
-                                src={mergedVideoUrl} 
+                                src={mergedVideo.url} 
                                 controls 
                                 className="w-full h-auto max-h-[400px] rounded-t-xl" 
                             />
                             <div className="p-4 bg-dark-card rounded-b-xl border-t border-gray-700 flex justify-between items-center">
-                                <span className="text-white font-medium">Final_Cut.webm</span>
+                                <span className="text-white font-medium">Final_Cut.{mergedVideo.extension}</span>
                                 <a 
-                                    href={mergedVideoUrl} 
-                                    download={`${localResult.title.replace(/\s+/g, '_')}_Final.webm`}
+                                    href={mergedVideo.url} 
+                                    download={`${localResult.title.replace(/\s+/g, '_')}_Final.${mergedVideo.extension}`}
                                     className="flex items-center gap-2 bg-brand-600 hover:bg-brand-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
                                 >
                                     <Download className="w-4 h-4" /> Download
                                 </a>
                             </div>
+                            {mergedVideo.warnings.map((warning, i) => (
+                                <p key={i} className="text-xs text-yellow-500/80 px-4 pb-3 bg-dark-card">{warning}</p>
+                            ))}
                         </div>
                     ) : (
                         <div className="text-center text-gray-500">
@@ -289,390 +651,22 @@ export const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result,
             </div>
         </div>
       </div>
-    </div>
-  );
-};
-
-const SceneCard: React.FC<{
-  scene: StoryboardScene;
-  onCopy: (text: string, id: string) => void;
-  copiedId: string | null;
-  onVideoSuccess: (url: string) => void;
-  onUpdate: (updatedScene: StoryboardScene) => void;
-}> = ({ scene, onCopy, copiedId, onVideoSuccess, onUpdate }) => {
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<'16:9'|'9:16'>('16:9');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loadingMsg, setLoadingMsg] = useState("Initializing...");
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Edit Mode State
-  const [isEditing, setIsEditing] = useState(false);
-  const [editedData, setEditedData] = useState<StoryboardScene>(scene);
-
-  useEffect(() => {
-    setEditedData(scene);
-  }, [scene]);
-
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (ev) => {
-      setUploadedImage(ev.target?.result as string);
-    };
-    reader.readAsDataURL(file);
-  };
 
-  const handleGenerateVideo = async () => {
-    if (window.aistudio) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        try {
-          await window.aistudio.openSelectKey();
-        } catch (err) {
-          setError("API Key selection failed or was cancelled.");
-          return;
-        }
-      }
-    }
-
-    setIsGenerating(true);
-    setError(null);
-    setGeneratedVideoUrl(null);
-    setLoadingMsg("Sending to Veo...");
-
-    const msgs = [
-      "Veo is dreaming up your video...",
-      "Calculating physics and light...",
-      "Rendering frames...",
-      "Almost there...",
-      "Polishing pixels..."
-    ];
-    let msgIdx = 0;
-    const interval = setInterval(() => {
-      setLoadingMsg(msgs[msgIdx % msgs.length]);
-      msgIdx++;
-    }, 4000);
-
-    try {
-        const imageBytes = uploadedImage ? uploadedImage.split(',')[1] : undefined;
-        // Use the latest edited data for generation if available, though generation uses what's saved.
-        // If the user edits but doesn't save, we should use the `scene` prop. 
-        // If they saved, `scene` prop is updated.
-        const videoUrl = await generateVeoVideo(scene.aiVideoPrompt, imageBytes, aspectRatio);
-        setGeneratedVideoUrl(videoUrl);
-        onVideoSuccess(videoUrl);
-    } catch (err: any) {
-        console.error("Veo Generation Error:", err);
-        
-        let errorMsg = err.message || "Failed to generate video";
-        
-        // Enhanced Error Parsing for better user experience
-        if (errorMsg.includes("429") || errorMsg.toLowerCase().includes("resource exhausted")) {
-            errorMsg = "⚠️ Quota Exceeded: Video generation limit reached. Please try again later.";
-        } else if (errorMsg.toLowerCase().includes("safety") || errorMsg.toLowerCase().includes("blocked")) {
-            errorMsg = "🛡️ Safety Violation: The prompt was flagged by safety filters. Please try modifying the visual description.";
-        } else if (errorMsg.includes("400") || errorMsg.toLowerCase().includes("invalid argument")) {
-            errorMsg = "⚠️ Invalid Request: The prompt or image format might be unsupported.";
-        } else if (errorMsg.includes("403")) {
-             errorMsg = "🔒 Permission Denied: Ensure your API key has access to Veo models.";
-        } else if (errorMsg.includes("Veo generation failed:")) {
-            // Strip the prefix added by the service layer
-            errorMsg = errorMsg.replace("Veo generation failed:", "").trim();
-        }
-
-        setError(errorMsg);
-    } finally {
-        clearInterval(interval);
-        setIsGenerating(false);
-    }
-  };
-
-  const handleSaveEdit = () => {
-    onUpdate(editedData);
-    setIsEditing(false);
-  };
-
-  const handleCancelEdit = () => {
-    setEditedData(scene);
-    setIsEditing(false);
-  };
-
-  return (
-    <div className={`bg-dark-card border rounded-xl p-6 transition-colors duration-300 group relative ${isEditing ? 'border-brand-500 shadow-brand-900/20 shadow-lg' : 'border-gray-700 hover:border-brand-500'}`}>
-      
-      {/* Edit Controls */}
-      <div className="absolute top-4 right-4 z-10 flex gap-2">
-        {isEditing ? (
-            <>
-                <button onClick={handleSaveEdit} className="p-2 bg-green-600/20 hover:bg-green-600/40 text-green-400 rounded-lg transition-colors" title="Save Changes">
-                    <Save className="w-4 h-4" />
-                </button>
-                <button onClick={handleCancelEdit} className="p-2 bg-red-600/20 hover:bg-red-600/40 text-red-400 rounded-lg transition-colors" title="Cancel">
-                    <X className="w-4 h-4" />
-                </button>
-            </>
-        ) : (
-            <button onClick={() => setIsEditing(true)} className="p-2 bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white rounded-lg transition-colors opacity-0 group-hover:opacity-100" title="Edit Scene">
-                <Edit2 className="w-4 h-4" />
-            </button>
-        )}
-      </div>
-
-      <div className="flex flex-col md:flex-row gap-6">
-        
-        {/* Scene Info */}
-        <div className="md:w-1/4 flex flex-col space-y-4 border-r border-gray-700/50 pr-4">
-          <div className="flex items-center gap-2 mb-1">
-            <span className="bg-brand-900/60 text-brand-neon px-2 py-1 rounded text-xs font-mono border border-brand-500/30">
-              SCENE {scene.id}
-            </span>
-            <span className="text-gray-400 text-xs font-mono">{scene.timeRange}</span>
-          </div>
-          
-          <div>
-            <h4 className="text-sm font-semibold text-gray-200 mb-1">Visual Action</h4>
-            {isEditing ? (
-                <textarea 
-                    className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
-                    rows={4}
-                    value={editedData.visualDescription}
-                    onChange={e => setEditedData({...editedData, visualDescription: e.target.value})}
-                />
-            ) : (
-                <p className="text-sm text-gray-400 leading-snug">{scene.visualDescription}</p>
-            )}
-          </div>
-          
-          <div>
-            <h4 className="text-sm font-semibold text-gray-200 mb-1">Camera</h4>
-            {isEditing ? (
-                <input 
-                    className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
-                    value={editedData.cameraMovement}
-                    onChange={e => setEditedData({...editedData, cameraMovement: e.target.value})}
-                />
-            ) : (
-                <p className="text-sm text-gray-400 leading-snug">{scene.cameraMovement}</p>
-            )}
-          </div>
-
-          {(scene.voiceoverScript || isEditing) && (
-             <div>
-                <h4 className="text-sm font-semibold text-gray-200 mb-1">Script</h4>
-                {isEditing ? (
-                    <textarea 
-                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
-                        rows={2}
-                        value={editedData.voiceoverScript || ''}
-                        onChange={e => setEditedData({...editedData, voiceoverScript: e.target.value})}
-                        placeholder="Voiceover script..."
-                    />
-                ) : (
-                    <p className="text-sm text-gray-400 italic">"{scene.voiceoverScript}"</p>
-                )}
-             </div>
-          )}
-        </div>
-
-        {/* Prompts Section */}
-        <div className="md:w-3/4 flex flex-col gap-4">
-            
-            {/* Image Prompt */}
-            <div className={`bg-black/30 p-4 rounded-lg border relative transition-colors ${isEditing ? 'border-brand-500/50' : 'border-gray-800 group-hover:border-gray-600'}`}>
-                <div className="flex justify-between items-start mb-2">
-                    <div className="flex items-center gap-2 text-purple-400">
-                        <ImageIcon className="w-4 h-4" />
-                        <span className="text-xs font-bold uppercase tracking-wider">Midjourney / Flux Prompt</span>
-                    </div>
-                    {!isEditing && (
-                        <button 
-                            onClick={() => onCopy(scene.aiImagePrompt, `img-${scene.id}`)}
-                            className="text-gray-500 hover:text-white transition-colors"
-                            title="Copy Prompt"
-                        >
-                            {copiedId === `img-${scene.id}` ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
-                        </button>
-                    )}
-                </div>
-                {isEditing ? (
-                    <textarea 
-                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-300 font-mono focus:border-brand-500 outline-none"
-                        rows={3}
-                        value={editedData.aiImagePrompt}
-                        onChange={e => setEditedData({...editedData, aiImagePrompt: e.target.value})}
-                    />
-                ) : (
-                    <p className="text-sm text-gray-300 font-mono break-words">{scene.aiImagePrompt}</p>
-                )}
-            </div>
-
-            {/* Video Prompt */}
-            <div className={`bg-black/30 p-4 rounded-lg border relative transition-colors ${isEditing ? 'border-brand-500/50' : 'border-gray-800 group-hover:border-gray-600'}`}>
-                <div className="flex justify-between items-start mb-2">
-                    <div className="flex items-center gap-2 text-orange-400">
-                        <Video className="w-4 h-4" />
-                        <span className="text-xs font-bold uppercase tracking-wider">Runway / Luma / Veo Prompt</span>
-                    </div>
-                    {!isEditing && (
-                        <button 
-                            onClick={() => onCopy(scene.aiVideoPrompt, `vid-${scene.id}`)}
-                            className="text-gray-500 hover:text-white transition-colors"
-                            title="Copy Prompt"
-                        >
-                            {copiedId === `vid-${scene.id}` ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
-                        </button>
-                    )}
-                </div>
-                 {isEditing ? (
-                    <textarea 
-                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-300 font-mono focus:border-brand-500 outline-none"
-                        rows={3}
-                        value={editedData.aiVideoPrompt}
-                        onChange={e => setEditedData({...editedData, aiVideoPrompt: e.target.value})}
-                    />
-                ) : (
-                    <p className="text-sm text-gray-300 font-mono break-words">{scene.aiVideoPrompt}</p>
-                )}
+      {/* Reference vs. Replica */}
+      {mergedVideo && videoUrl && (
+        <div className="border-t border-gray-700 pt-10 mt-10">
+            <div className="flex items-center gap-3 mb-6">
+                <GitCompare className="w-8 h-8 text-brand-neon" />
+                <h3 className="text-2xl font-bold text-white">Reference vs. Replica</h3>
             </div>
-
-            {/* Veo Generation Section */}
-            {!isEditing && (
-                <div className="mt-2 border border-brand-900/50 bg-brand-900/10 rounded-xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-300">
-                    <div className="px-4 py-3 bg-brand-900/20 border-b border-brand-900/30 flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-brand-neon">
-                            <Film className="w-4 h-4" />
-                            <span className="font-semibold text-sm">Veo Studio</span>
-                            <span className="text-xs bg-brand-500/20 text-brand-300 px-2 py-0.5 rounded-full">Preview</span>
-                        </div>
-                    </div>
-                    
-                    <div className="p-4">
-                        {!generatedVideoUrl && !isGenerating && (
-                            <div className="flex flex-col gap-4">
-                                <div className="flex flex-col sm:flex-row gap-4 items-start">
-                                    {/* Image Upload */}
-                                    <div className="flex-1 w-full">
-                                        <label className="text-xs text-gray-400 mb-2 block">Reference Image (Image-to-Video)</label>
-                                        <div 
-                                            onClick={() => fileInputRef.current?.click()}
-                                            className="border border-dashed border-gray-600 rounded-lg p-4 flex flex-col items-center justify-center cursor-pointer hover:bg-white/5 transition-colors h-32 relative group/upload"
-                                        >
-                                            {uploadedImage ? (
-                                                <>
-                                                    <img src={uploadedImage} alt="Reference" className="h-full object-contain opacity-60 group-hover/upload:opacity-40 transition-opacity" />
-                                                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover/upload:opacity-100 transition-opacity">
-                                                        <span className="text-xs bg-black/80 px-2 py-1 rounded text-white">Change Image</span>
-                                                    </div>
-                                                </>
-                                            ) : (
-                                                <>
-                                                    <Upload className="w-6 h-6 text-gray-500 mb-2" />
-                                                    <span className="text-xs text-gray-500 text-center">Upload Reference Image<br/>(Optional)</span>
-                                                </>
-                                            )}
-                                            <input 
-                                                ref={fileInputRef} 
-                                                type="file" 
-                                                accept="image/*" 
-                                                className="hidden" 
-                                                onChange={handleImageUpload}
-                                            />
-                                        </div>
-                                    </div>
-
-                                    {/* Controls */}
-                                    <div className="flex-1 w-full">
-                                        <label className="text-xs text-gray-400 mb-2 block">Settings</label>
-                                        <div className="flex gap-2 mb-4">
-                                            <button 
-                                                onClick={() => setAspectRatio('16:9')}
-                                                className={`flex-1 py-2 text-xs rounded border transition-all ${aspectRatio === '16:9' ? 'bg-brand-600 border-brand-500 text-white' : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'}`}
-                                            >
-                                                16:9 (Landscape)
-                                            </button>
-                                            <button 
-                                                onClick={() => setAspectRatio('9:16')}
-                                                className={`flex-1 py-2 text-xs rounded border transition-all ${aspectRatio === '9:16' ? 'bg-brand-600 border-brand-500 text-white' : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'}`}
-                                            >
-                                                9:16 (Portrait)
-                                            </button>
-                                        </div>
-                                        <button 
-                                            onClick={handleGenerateVideo}
-                                            className="w-full py-3 bg-gradient-to-r from-brand-600 to-brand-500 hover:from-brand-500 hover:to-brand-400 text-white font-bold rounded-lg shadow-lg shadow-brand-900/50 flex items-center justify-center gap-2 transition-all transform hover:scale-[1.02] active:scale-[0.98]"
-                                        >
-                                            <Sparkles className="w-4 h-4" />
-                                            Generate with Veo
-                                        </button>
-                                    </div>
-                                </div>
-                                {error && (
-                                    <div className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 flex items-center gap-2">
-                                        <AlertCircle className="w-3 h-3" />
-                                        {error}
-                                    </div>
-                                )}
-                            </div>
-                        )}
-
-                        {isGenerating && (
-                            <div className="flex flex-col items-center justify-center py-8 text-center space-y-4">
-                                <div className="relative">
-                                    <div className="absolute inset-0 bg-brand-neon blur-lg opacity-30 animate-pulse"></div>
-                                    <Loader2 className="w-8 h-8 text-brand-neon animate-spin relative z-10" />
-                                </div>
-                                <div>
-                                    <h4 className="text-brand-100 font-medium animate-pulse">{loadingMsg}</h4>
-                                    <p className="text-xs text-gray-500 mt-1">This usually takes about 60 seconds</p>
-                                </div>
-                            </div>
-                        )}
-
-                        {generatedVideoUrl && (
-                            <div className="animate-in fade-in zoom-in duration-300">
-                                <div className="relative rounded-lg overflow-hidden bg-black border border-gray-700 group/video">
-                                    <video 
-                                        src={generatedVideoUrl} 
-                                        controls 
-                                        autoPlay 
-                                        loop 
-                                        className={`w-full max-h-[400px] object-contain ${aspectRatio === '9:16' ? 'aspect-[9/16]' : 'aspect-video'}`}
-                                    />
-                                    <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover/video:opacity-100 transition-opacity">
-                                        <a 
-                                            href={generatedVideoUrl} 
-                                            download={`scene-${scene.id}-veo.mp4`}
-                                            className="bg-black/60 hover:bg-black/80 text-white p-1.5 rounded"
-                                            title="Download Video"
-                                        >
-                                            <Video className="w-4 h-4" />
-                                        </a>
-                                    </div>
-                                </div>
-                                <div className="mt-3 flex justify-between items-center">
-                                    <span className="text-xs text-brand-neon flex items-center gap-1">
-                                        <Check className="w-3 h-3" /> Generated Successfully
-                                    </span>
-                                    <button 
-                                        onClick={() => setGeneratedVideoUrl(null)}
-                                        className="text-xs text-gray-400 hover:text-white underline"
-                                    >
-                                        Generate New Version
-                                    </button>
-                                </div>
-                            </div>
-                        )}
-                    </div>
-                </div>
-            )}
+            <ComparisonPlayer
+                referenceUrl={videoUrl}
+                replicaUrl={mergedVideo.url}
+                referenceTimings={mergedVideo.referenceTimings}
+                replicaTimings={mergedVideo.sceneTimings}
+            />
         </div>
-
-      </div>
+      )}
     </div>
   );
 };
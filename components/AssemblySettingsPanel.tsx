@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { AssemblySettings, AssemblyFormat, FitMode, OUTPUT_RESOLUTIONS, getSupportedFormats, resolveOutputResolution } from '../services/videoAssembly';
+
+interface AssemblySettingsPanelProps {
+  settings: AssemblySettings;
+  onChange: (settings: AssemblySettings) => void;
+  aspectRatio: string; // generation aspect ratio, which the 'auto' resolution follows
+  hasOverlays: boolean;
+  disabled?: boolean;
+}
+
+const FORMATS: { id: AssemblyFormat; label: string }[] = [
+  { id: 'mp4', label: 'MP4' },
+  { id: 'webm', label: 'WebM' },
+];
+
+const FIT_MODES: { id: FitMode; label: string; description: string }[] = [
+  { id: 'letterbox', label: 'Letterbox', description: 'Show the whole clip with black bars' },
+  { id: 'crop', label: 'Crop', description: 'Fill the frame and cut off the overflow' },
+];
+
+/**
+ * Output format, resolution, framing and timing for the final cut.
+ */
+export const AssemblySettingsPanel: React.FC<AssemblySettingsPanelProps> = ({ settings, onChange, aspectRatio, hasOverlays, disabled }) => {
+  // null until the encoder check finishes; both formats stay selectable meanwhile
+  const [supported, setSupported] = useState<Record<AssemblyFormat, boolean> | null>(null);
+  const update = (patch: Partial<AssemblySettings>) => onChange({ ...settings, ...patch });
+  const autoResolution = resolveOutputResolution('auto', aspectRatio);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSupportedFormats().then(formats => {
+      if (!cancelled) setSupported(formats);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Fall back to the other format when the default one cannot be encoded here
+  useEffect(() => {
+    if (!supported || supported[settings.format]) return;
+    const fallback = FORMATS.find(format => supported[format.id]);
+    if (fallback) onChange({ ...settings, format: fallback.id });
+  }, [supported, settings, onChange]);
+
+  const canEncode = !supported || supported.mp4 || supported.webm;
+
+  return (
+    <div className="bg-dark-bg/50 rounded-lg p-4 border border-gray-800 space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded border border-gray-700 overflow-hidden">
+          {FORMATS.map(format => {
+            const isSupported = !supported || supported[format.id];
+            return (
+              <button
+                key={format.id}
+                onClick={() => update({ format: format.id })}
+                disabled={disabled || !isSupported}
+                title={isSupported ? undefined : `This browser cannot encode ${format.label}`}
+                className={`px-3 py-1.5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed
+                  ${settings.format === format.id ? 'bg-brand-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+              >
+                {format.label}
+              </button>
+            );
+          })}
+        </div>
+        <label className="flex items-center gap-2 text-gray-400">
+          Resolution
+          <select
+            value={settings.resolutionId}
+            onChange={e => update({ resolutionId: e.target.value })}
+            disabled={disabled}
+            className="bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200"
+          >
+            <option value="auto">Match clips ({autoResolution.width}×{autoResolution.height})</option>
+            {OUTPUT_RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+        </label>
+        <div className="flex rounded border border-gray-700 overflow-hidden">
+          {FIT_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => update({ fit: mode.id })}
+              disabled={disabled}
+              title={mode.description}
+              className={`px-3 py-1.5 transition-colors ${settings.fit === mode.id ? 'bg-brand-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.matchReferenceTiming}
+          onChange={e => update({ matchReferenceTiming: e.target.checked })}
+          disabled={disabled}
+        />
+        Auto-match reference timing (trim each clip to its scene's length)
+      </label>
+      {hasOverlays && (
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.burnInOverlays}
+            onChange={e => update({ burnInOverlays: e.target.checked })}
+            disabled={disabled}
+          />
+          Burn on-screen text into the final cut
+        </label>
+      )}
+      {!canEncode ? (
+        <p className="text-red-400">This browser has no WebCodecs video encoder. Use a recent Chrome, Edge or Safari to assemble the final cut.</p>
+      ) : supported && !supported.mp4 && (
+        <p className="text-gray-500">This browser cannot encode H.264, so only WebM is available. Use a recent Chrome or Safari for MP4.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Check, Loader2, AlertCircle, Sparkles, Square, Clock, RotateCcw } from 'lucide-react';
+import { StoryboardScene, SceneKeyframe } from '../types';
+import { getVideoProvider, ensureVideoApiKey, VeoAspectRatio } from '../services/providers';
+import { runGenerationQueue, GenerationJob, GenerationJobState } from '../services/generationQueue';
+import { captureStartFrame } from '../services/frameCapture';
+import { describeProgress } from './operationProgress';
+import { buildVeoPrompt } from '../services/sceneAudio';
+import { TakeInputs } from '../services/sceneTakes';
+import { DEFAULT_VIDEO_SETTINGS } from '../services/videoSettings';
+
+interface BatchGenerationPanelProps {
+  scenes: StoryboardScene[];
+  generatedVideos: Record<number, string>;
+  aspectRatio: VeoAspectRatio;
+  onAspectRatioChange: (aspectRatio: VeoAspectRatio) => void;
+  referenceVideoUrl?: string | null;
+  keyframes?: Record<number, SceneKeyframe[]>;
+  onTakeGenerated: (sceneId: number, url: string, inputs: TakeInputs) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+/**
+ * Per-scene status checklist for Final Assembly, plus a queue that generates
+ * every scene still missing a clip.
+ */
+export const BatchGenerationPanel: React.FC<BatchGenerationPanelProps> = ({
+  scenes, generatedVideos, aspectRatio, onAspectRatioChange, referenceVideoUrl, keyframes, onTakeGenerated,
+}) => {
+  const [concurrency, setConcurrency] = useState(2);
+  const [useReferenceFrames, setUseReferenceFrames] = useState(true);
+  const [jobStates, setJobStates] = useState<Record<number, GenerationJobState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort the whole batch if the view goes away mid-run
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const pendingScenes = scenes.filter(scene => !generatedVideos[scene.id]);
+
+  const buildJob = async (scene: StoryboardScene): Promise<GenerationJob> => {
+    const firstFrame = keyframes?.[scene.id]?.[0];
+    const prompt = buildVeoPrompt(scene);
+    if (!useReferenceFrames || !referenceVideoUrl || !firstFrame) {
+      return { sceneId: scene.id, prompt };
+    }
+    try {
+      const startImage = await captureStartFrame(referenceVideoUrl, firstFrame.time);
+      return { sceneId: scene.id, prompt, startImage };
+    } catch (err) {
+      console.error(`Start frame capture failed for scene ${scene.id}`, err);
+      return { sceneId: scene.id, prompt };
+    }
+  };
+
+  const handleStart = async () => {
+    if (pendingScenes.length === 0) return;
+    const provider = getVideoProvider();
+    setError(null);
+    try {
+      await ensureVideoApiKey(provider);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setJobStates(Object.fromEntries(pendingScenes.map(scene => [scene.id, { status: 'queued', attempt: 0 }])));
+
+    try {
+      const jobs: GenerationJob[] = [];
+      for (const scene of pendingScenes) {
+        jobs.push(await buildJob(scene));
+      }
+      await runGenerationQueue(jobs, {
+        provider,
+        aspectRatio,
+        settings: DEFAULT_VIDEO_SETTINGS,
+        concurrency,
+        signal: controller.signal,
+        onJobUpdate: (sceneId, state) => setJobStates(prev => ({ ...prev, [sceneId]: state })),
+        onJobDone: (job, urls, settings) => urls.forEach(url =>
+          onTakeGenerated(job.sceneId, url, { prompt: job.prompt, startImage: job.startImage, aspectRatio, settings })
+        ),
+      });
+    } catch (err: any) {
+      console.error("Batch generation failed", err);
+      setError(err.message || "Batch generation failed.");
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const renderStatus = (scene: StoryboardScene) => {
+    if (generatedVideos[scene.id]) {
+      return (
+        <span className="flex items-center gap-1 text-green-400">
+          <Check className="w-3 h-3" /> Ready
+        </span>
+      );
+    }
+    const state = jobStates[scene.id];
+    switch (state?.status) {
+      case 'queued':
+        return <span className="flex items-center gap-1 text-gray-400"><Clock className="w-3 h-3" /> Queued</span>;
+      case 'running':
+        return (
+          <span className="flex items-center gap-1 text-brand-neon">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {state.progress ? describeProgress(state.progress) : 'Generating'}
+            {state.attempt > 1 ? ` (try ${state.attempt})` : ''}
+          </span>
+        );
+      case 'retrying':
+        return (
+          <span className="flex items-center gap-1 text-yellow-500" title={state.error?.message}>
+            <RotateCcw className="w-3 h-3" /> {state.error?.title ?? 'Failed'}, retrying at {new Date(state.retryAt!).toLocaleTimeString()}
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="flex items-center gap-1 text-red-400 max-w-[60%] truncate" title={`${state.error?.message}\n${state.error?.suggestion}`}>
+            <AlertCircle className="w-3 h-3 shrink-0" /> Failed: {state.error?.title}
+          </span>
+        );
+      case 'cancelled':
+        return <span className="flex items-center gap-1 text-gray-500"><Square className="w-3 h-3" /> Cancelled</span>;
+      default:
+        return (
+          <span className="flex items-center gap-1 text-gray-600">
+            <div className="w-2 h-2 rounded-full bg-gray-700"></div> Pending
+          </span>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-dark-bg/50 rounded-lg p-4 border border-gray-800 space-y-3">
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex rounded border border-gray-700 overflow-hidden">
+            {(['16:9', '9:16'] as VeoAspectRatio[]).map(ratio => (
+              <button
+                key={ratio}
+                onClick={() => onAspectRatioChange(ratio)}
+                disabled={isRunning}
+                className={`px-3 py-1.5 transition-colors ${aspectRatio === ratio ? 'bg-brand-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-gray-400">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={e => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200"
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {referenceVideoUrl && (
+            <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useReferenceFrames}
+                onChange={e => setUseReferenceFrames(e.target.checked)}
+                disabled={isRunning}
+              />
+              Start from reference frames
+            </label>
+          )}
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={handleCancel}
+            className="w-full py-2.5 rounded-lg text-sm font-semibold border border-red-800/60 bg-red-900/20 text-red-300 hover:bg-red-900/40 flex items-center justify-center gap-2 transition-colors"
+          >
+            <Square className="w-4 h-4" /> Cancel Remaining
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={pendingScenes.length === 0}
+            className="w-full py-2.5 rounded-lg text-sm font-semibold bg-gradient-to-r from-brand-600 to-brand-500 hover:from-brand-500 hover:to-brand-400 text-white disabled:from-gray-800 disabled:to-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-all"
+          >
+            <Sparkles className="w-4 h-4" />
+            {pendingScenes.length > 0 ? `Generate All ${pendingScenes.length} Pending Scenes` : 'All Scenes Generated'}
+          </button>
+        )}
+
+        {error && (
+          <div className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 flex items-center gap-2">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Progress Checklist */}
+      <div className="bg-dark-bg/50 rounded-lg p-4 border border-gray-800 max-h-60 overflow-y-auto">
+        <h4 className="text-sm font-semibold text-gray-300 mb-3 uppercase tracking-wider">Scene Status</h4>
+        <div className="space-y-2">
+          {scenes.map(scene => (
+            <div key={scene.id} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-gray-400">Scene {scene.id}</span>
+              {renderStatus(scene)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Scissors } from 'lucide-react';
+import { StoryboardScene, SceneTiming, ClipAssemblyConfig, ClipTransition } from '../types';
+import { TRANSITIONS, SPEED_OPTIONS, DEFAULT_TRANSITION_SECONDS, createClipConfig, planAssembly } from '../services/assemblyTimeline';
+
+interface ClipTimingEditorProps {
+  scenes: StoryboardScene[];
+  sceneTimings: SceneTiming[];
+  generatedVideos: Record<number, string>;
+  clipDurations: Record<string, number>; // keyed by clip URL
+  configs: Record<number, ClipAssemblyConfig>;
+  onChange: (sceneId: number, config: ClipAssemblyConfig) => void;
+  matchReferenceTiming: boolean;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-16 bg-black/50 border border-gray-700 rounded px-1.5 py-1 text-gray-200 disabled:opacity-50';
+
+/**
+ * Per-clip trims, speed and the transition into the next clip. With
+ * auto-match on, trims and speed are derived from the reference and shown read-only.
+ */
+export const ClipTimingEditor: React.FC<ClipTimingEditorProps> = ({
+  scenes, sceneTimings, generatedVideos, clipDurations, configs, onChange, matchReferenceTiming, disabled,
+}) => {
+  const rows = scenes
+    .map((scene, index) => ({ scene, timing: sceneTimings[index], url: generatedVideos[scene.id] }))
+    .filter(row => !!row.url);
+  if (rows.length === 0) return null;
+
+  const configFor = (sceneId: number) => configs[sceneId] ?? createClipConfig();
+  const plan = planAssembly(
+    rows.map(row => ({
+      clipDuration: clipDurations[row.url] ?? row.timing.end - row.timing.start,
+      sceneDuration: row.timing.end - row.timing.start,
+      config: configFor(row.scene.id),
+    })),
+    matchReferenceTiming
+  );
+
+  const update = (sceneId: number, patch: Partial<ClipAssemblyConfig>) => onChange(sceneId, { ...configFor(sceneId), ...patch });
+
+  const handleTransitionChange = (sceneId: number, transition: ClipTransition) => {
+    update(sceneId, {
+      transition,
+      transitionDuration: transition === 'cut' ? configFor(sceneId).transitionDuration : DEFAULT_TRANSITION_SECONDS[transition],
+    });
+  };
+
+  const readNumber = (value: string) => (value.trim() === '' ? null : Math.max(0, Number(value)));
+
+  return (
+    <div className="bg-dark-bg/50 rounded-lg border border-gray-800 text-xs">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-800 text-gray-400">
+        <span className="flex items-center gap-2 font-semibold uppercase tracking-wider"><Scissors className="w-3.5 h-3.5" /> Clip Timing</span>
+        <span className="font-mono">Final length {plan.duration.toFixed(1)}s</span>
+      </div>
+      <ul className="divide-y divide-gray-800">
+        {rows.map((row, i) => {
+          const config = configFor(row.scene.id);
+          const segment = plan.segments[i];
+          const clipDuration = clipDurations[row.url];
+          const isLast = i === rows.length - 1;
+          return (
+            <li key={row.scene.id} className="px-4 py-2 flex flex-wrap items-center gap-x-4 gap-y-2">
+              <span className="w-16 font-medium text-gray-200">Scene {row.scene.id}</span>
+              {matchReferenceTiming ? (
+                <span className="text-gray-400 font-mono">
+                  {segment.trimStart.toFixed(1)}s – {(segment.trimStart + segment.duration * segment.speed).toFixed(1)}s
+                  {segment.speed !== 1 && ` at ${segment.speed.toFixed(2)}×`}
+                  {clipDuration !== undefined && <span className="text-gray-600"> of {clipDuration.toFixed(1)}s</span>}
+                </span>
+              ) : (
+                <>
+                  <label className="flex items-center gap-1.5 text-gray-400">
+                    In
+                    <input
+                      type="number" min={0} step={0.1}
+                      value={config.trimStart}
+                      onChange={e => update(row.scene.id, { trimStart: readNumber(e.target.value) ?? 0 })}
+                      disabled={disabled}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1.5 text-gray-400">
+                    Out
+                    <input
+                      type="number" min={0} step={0.1}
+                      value={config.trimEnd ?? ''}
+                      placeholder={clipDuration !== undefined ? clipDuration.toFixed(1) : 'end'}
+                      onChange={e => update(row.scene.id, { trimEnd: readNumber(e.target.value) })}
+                      disabled={disabled}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1.5 text-gray-400">
+                    Speed
+                    <select
+                      value={config.speed}
+                      onChange={e => update(row.scene.id, { speed: Number(e.target.value) })}
+                      disabled={disabled}
+                      className="bg-black/50 border border-gray-700 rounded px-1.5 py-1 text-gray-200"
+                    >
+                      {SPEED_OPTIONS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+                    </select>
+                  </label>
+                </>
+              )}
+              {!isLast && (
+                <label className="flex items-center gap-1.5 text-gray-400 ml-auto">
+                  Then
+                  <select
+                    value={config.transition}
+                    onChange={e => handleTransitionChange(row.scene.id, e.target.value as ClipTransition)}
+                    disabled={disabled}
+                    className="bg-black/50 border border-gray-700 rounded px-1.5 py-1 text-gray-200"
+                  >
+                    {TRANSITIONS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                  </select>
+                  {config.transition !== 'cut' && (
+                    <input
+                      type="number" min={0.1} max={2} step={0.05}
+                      value={config.transitionDuration}
+                      onChange={e => update(row.scene.id, { transitionDuration: readNumber(e.target.value) ?? 0.1 })}
+                      disabled={disabled}
+                      title="Transition length in seconds"
+                      className={inputClass}
+                    />
+                  )}
+                </label>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
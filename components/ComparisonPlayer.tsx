@@ -0,0 +1,255 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Columns2, SquareSplitHorizontal, Layers2, GitCompare } from 'lucide-react';
+import { SceneTiming } from '../types';
+import { findSceneAtTime, formatTimeRange, formatTimestamp } from '../services/timeRange';
+import { computeSceneDrift, mapToReplicaTime } from '../services/comparisonSync';
+
+interface ComparisonPlayerProps {
+  referenceUrl: string;
+  replicaUrl: string;
+  referenceTimings: SceneTiming[];
+  replicaTimings: SceneTiming[]; // where each scene landed in the assembled cut
+}
+
+type CompareMode = 'side-by-side' | 'wipe' | 'onion';
+
+const MODES: { id: CompareMode; label: string; icon: React.ElementType }[] = [
+  { id: 'side-by-side', label: 'Side by side', icon: Columns2 },
+  { id: 'wipe', label: 'Wipe', icon: SquareSplitHorizontal },
+  { id: 'onion', label: 'Onion skin', icon: Layers2 },
+];
+
+// How far the replica may wander before it is snapped back to the reference
+const DRIFT_TOLERANCE_SECONDS = 0.15;
+
+const formatDrift = (seconds: number | null) =>
+  seconds === null ? '—' : `${seconds >= 0 ? '+' : ''}${seconds.toFixed(2)}s`;
+
+const driftColor = (seconds: number | null) => {
+  if (seconds === null) return 'text-gray-600';
+  const size = Math.abs(seconds);
+  if (size < 0.1) return 'text-green-400';
+  if (size < 0.5) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+/**
+ * Plays the reference and the assembled replica in lockstep so a replication
+ * can be judged shot by shot. The reference drives playback; the replica follows,
+ * stretched scene by scene when "align scenes" is on.
+ */
+export const ComparisonPlayer: React.FC<ComparisonPlayerProps> = ({ referenceUrl, replicaUrl, referenceTimings, replicaTimings }) => {
+  const referenceRef = useRef<HTMLVideoElement>(null);
+  const replicaRef = useRef<HTMLVideoElement>(null);
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [alignScenes, setAlignScenes] = useState(true);
+  const [mix, setMix] = useState(50); // wipe position or onion opacity, in percent
+  const [audioFrom, setAudioFrom] = useState<'reference' | 'replica'>('reference');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [replicaMissing, setReplicaMissing] = useState(false);
+
+  const drift = computeSceneDrift(referenceTimings, replicaTimings);
+  const activeScene = findSceneAtTime(referenceTimings, time);
+
+  const syncReplica = (force = false) => {
+    const reference = referenceRef.current;
+    const replica = replicaRef.current;
+    if (!reference || !replica) return;
+    const mapped = mapToReplicaTime(reference.currentTime, referenceTimings, replicaTimings, alignScenes);
+    setReplicaMissing(!mapped);
+    if (!mapped) {
+      replica.pause();
+      return;
+    }
+    replica.playbackRate = Math.min(4, Math.max(0.25, mapped.rate * reference.playbackRate));
+    if (force || Math.abs(replica.currentTime - mapped.time) > DRIFT_TOLERANCE_SECONDS) {
+      replica.currentTime = mapped.time;
+    }
+    if (!reference.paused && replica.paused) replica.play().catch(() => { /* retried on the next frame */ });
+    if (reference.paused && !replica.paused) replica.pause();
+  };
+
+  // While playing, follow the reference every frame
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (referenceRef.current) setTime(referenceRef.current.currentTime);
+      syncReplica();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, alignScenes, referenceTimings, replicaTimings]);
+
+  // Re-align straight away when the mapping changes while paused
+  useEffect(() => {
+    syncReplica(true);
+  }, [alignScenes, replicaUrl]);
+
+  useEffect(() => {
+    if (referenceRef.current) referenceRef.current.muted = audioFrom !== 'reference';
+    if (replicaRef.current) replicaRef.current.muted = audioFrom !== 'replica';
+  }, [audioFrom]);
+
+  const togglePlay = () => {
+    const reference = referenceRef.current;
+    if (!reference) return;
+    if (reference.paused) {
+      reference.play().then(() => setIsPlaying(true)).catch(err => console.error("Playback failed", err));
+    } else {
+      reference.pause();
+      replicaRef.current?.pause();
+      setIsPlaying(false);
+      syncReplica(true);
+    }
+  };
+
+  const seek = (seconds: number) => {
+    if (!referenceRef.current) return;
+    referenceRef.current.currentTime = seconds;
+    setTime(seconds);
+    syncReplica(true);
+  };
+
+  const jumpScene = (direction: -1 | 1) => {
+    const index = activeScene ? referenceTimings.indexOf(activeScene) : -1;
+    const target = referenceTimings[Math.min(referenceTimings.length - 1, Math.max(0, index + direction))];
+    if (target) seek(target.start);
+  };
+
+  const isOverlay = mode !== 'side-by-side';
+  const replicaStyle: React.CSSProperties = mode === 'wipe'
+    ? { clipPath: `inset(0 0 0 ${mix}%)` }
+    : mode === 'onion' ? { opacity: mix / 100 } : {};
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <div className="flex rounded border border-gray-700 overflow-hidden">
+          {MODES.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setMode(id)}
+              className={`px-3 py-1.5 flex items-center gap-1.5 transition-colors ${mode === id ? 'bg-brand-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              <Icon className="w-3.5 h-3.5" /> {label}
+            </button>
+          ))}
+        </div>
+        {isOverlay && (
+          <label className="flex items-center gap-2 text-gray-400">
+            {mode === 'wipe' ? 'Wipe' : 'Opacity'}
+            <input type="range" min={0} max={100} value={mix} onChange={e => setMix(Number(e.target.value))} />
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={alignScenes} onChange={e => setAlignScenes(e.target.checked)} />
+          Align scenes
+        </label>
+        <label className="flex items-center gap-2 text-gray-400 ml-auto">
+          Audio
+          <select
+            value={audioFrom}
+            onChange={e => setAudioFrom(e.target.value as 'reference' | 'replica')}
+            className="bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200"
+          >
+            <option value="reference">Reference</option>
+            <option value="replica">Replica</option>
+          </select>
+        </label>
+      </div>
+
+      <div className={isOverlay ? 'relative bg-black rounded-xl overflow-hidden' : 'grid grid-cols-2 gap-3'}>
+        <div className={isOverlay ? '' : 'relative bg-black rounded-xl overflow-hidden'}>
+          <video
+            ref={referenceRef}
+            src={referenceUrl}
+            playsInline
+            onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+            onEnded={() => setIsPlaying(false)}
+            className="w-full max-h-[480px] object-contain"
+          />
+          <span className="absolute top-2 left-2 text-[10px] uppercase tracking-wider bg-black/70 text-gray-300 px-2 py-0.5 rounded">Reference</span>
+        </div>
+        <div className={isOverlay ? 'absolute inset-0 pointer-events-none' : 'relative bg-black rounded-xl overflow-hidden'}>
+          <video
+            ref={replicaRef}
+            src={replicaUrl}
+            playsInline
+            muted
+            onLoadedMetadata={() => syncReplica(true)}
+            style={replicaStyle}
+            className="w-full h-full max-h-[480px] object-contain"
+          />
+          <span className={`absolute top-2 text-[10px] uppercase tracking-wider bg-black/70 text-brand-300 px-2 py-0.5 rounded ${isOverlay ? 'right-2' : 'left-2'}`}>Replica</span>
+          {replicaMissing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/70 text-sm text-gray-400">
+              No replica footage {activeScene ? `for scene ${activeScene.sceneId}` : 'here'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button onClick={() => jumpScene(-1)} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800" title="Previous scene">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={togglePlay} className="p-2 rounded-lg bg-brand-600 hover:bg-brand-500 text-white" title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => jumpScene(1)} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800" title="Next scene">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={time}
+          onChange={e => seek(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-xs font-mono text-gray-400 w-24 text-right">{formatTimestamp(time)} / {formatTimestamp(duration)}</span>
+      </div>
+
+      <div className="bg-dark-bg/50 rounded-lg border border-gray-800 overflow-hidden text-xs">
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-800 text-gray-400 font-semibold uppercase tracking-wider">
+          <GitCompare className="w-3.5 h-3.5" /> Scene Drift
+        </div>
+        <table className="w-full">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-medium px-4 py-1.5">Scene</th>
+              <th className="text-left font-medium px-2 py-1.5">Reference</th>
+              <th className="text-left font-medium px-2 py-1.5">Replica</th>
+              <th className="text-right font-medium px-2 py-1.5" title="Replica length minus reference length">Δ length</th>
+              <th className="text-right font-medium px-4 py-1.5" title="How far the replica's cut is from the reference's">Δ start</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {drift.map(row => (
+              <tr
+                key={row.sceneId}
+                onClick={() => seek(row.referenceStart)}
+                className={`cursor-pointer border-t border-gray-800/60 ${activeScene?.sceneId === row.sceneId ? 'bg-brand-900/30' : 'hover:bg-gray-800/40'}`}
+              >
+                <td className="px-4 py-1.5 text-gray-200">{row.sceneId}</td>
+                <td className="px-2 py-1.5 text-gray-400">{formatTimeRange(row.referenceStart, row.referenceStart + row.referenceDuration)}</td>
+                <td className="px-2 py-1.5 text-gray-400">
+                  {row.replicaStart !== null && row.replicaDuration !== null
+                    ? formatTimeRange(row.replicaStart, row.replicaStart + row.replicaDuration)
+                    : 'missing'}
+                </td>
+                <td className={`px-2 py-1.5 text-right ${driftColor(row.durationDrift)}`}>{formatDrift(row.durationDrift)}</td>
+                <td className={`px-4 py-1.5 text-right ${driftColor(row.startDrift)}`}>{formatDrift(row.startDrift)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
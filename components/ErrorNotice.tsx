@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, KeyRound, UploadCloud, Scissors, Edit2 } from 'lucide-react';
+import { ServiceError, RecoveryAction } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: ServiceError;
+  // Each recovery button only shows when the error suggests it and a handler is given
+  onRetry?: () => void;
+  onSelectKey?: () => void;
+  onUseUpload?: () => void;
+  onTrimVideo?: () => void;
+  onEditPrompt?: () => void;
+  compact?: boolean;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, { label: string; icon: React.ElementType }> = {
+  'retry': { label: 'Retry', icon: RefreshCw },
+  'select-key': { label: 'Pick Another Key', icon: KeyRound },
+  'use-upload': { label: 'Send via Upload', icon: UploadCloud },
+  'trim-video': { label: 'Use a Shorter Clip', icon: Scissors },
+  'edit-prompt': { label: 'Edit Prompt', icon: Edit2 },
+};
+
+/**
+ * Explains a ServiceError in plain words and offers the recovery actions it suggests.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({
+  error, onRetry, onSelectKey, onUseUpload, onTrimVideo, onEditPrompt, compact = false,
+}) => {
+  const handlers: Record<RecoveryAction, (() => void) | undefined> = {
+    'retry': onRetry,
+    'select-key': onSelectKey,
+    'use-upload': onUseUpload,
+    'trim-video': onTrimVideo,
+    'edit-prompt': onEditPrompt,
+  };
+  const actions = error.actions.filter(action => handlers[action]);
+
+  return (
+    <div className={`text-red-400 bg-red-900/20 rounded border border-red-900/50 ${compact ? 'p-2 text-xs' : 'p-4 text-sm'}`}>
+      <div className="flex items-center gap-2 font-semibold">
+        <AlertCircle className={compact ? 'w-3 h-3 shrink-0' : 'w-4 h-4 shrink-0'} />
+        {error.title}
+      </div>
+      <p className="text-gray-300 mt-1 break-words">{error.message}</p>
+      <p className="text-gray-500 mt-1">{error.suggestion}</p>
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {actions.map(action => {
+            const { label, icon: Icon } = ACTION_LABELS[action];
+            return (
+              <button
+                key={action}
+                onClick={handlers[action]}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg border border-gray-700 bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+              >
+                <Icon className="w-3 h-3" /> {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, FileText, FileJson, Table, Printer, Loader2, ChevronDown } from 'lucide-react';
+import { AnalysisResult, SceneKeyframe } from '../types';
+import {
+  ExportFormat,
+  exportToMarkdown,
+  exportToJson,
+  exportToCsv,
+  exportToHtml,
+  downloadTextFile,
+  toFileSlug,
+} from '../services/exportService';
+import { resolveSceneTimings } from '../services/timeRange';
+import { captureFrames } from '../services/frameCapture';
+
+interface ExportMenuProps {
+  result: AnalysisResult;
+  videoUrl: string | null;
+  keyframes?: Record<number, SceneKeyframe[]>;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'markdown', label: 'Markdown Shot List', icon: FileText },
+  { format: 'json', label: 'Storyboard JSON', icon: FileJson },
+  { format: 'csv', label: 'CSV Spreadsheet', icon: Table },
+  { format: 'html', label: 'Printable HTML', icon: Printer },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ result, videoUrl, keyframes = {} }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    const slug = toFileSlug(result.title);
+
+    try {
+      switch (format) {
+        case 'markdown':
+          downloadTextFile(exportToMarkdown(result), `${slug}.md`, 'text/markdown');
+          break;
+        case 'json':
+          downloadTextFile(exportToJson(result), `${slug}.storyboard.json`, 'application/json');
+          break;
+        case 'csv':
+          downloadTextFile(exportToCsv(result), `${slug}.csv`, 'text/csv');
+          break;
+        case 'html': {
+          setIsExporting(true);
+          const thumbnails: Record<number, string> = {};
+          // Prefer the middle keyframe already extracted for the storyboard; capture any that are missing
+          const missing = resolveSceneTimings(result.scenes).filter(timing => {
+            const sceneFrames = keyframes[timing.sceneId];
+            if (!sceneFrames?.length) return true;
+            thumbnails[timing.sceneId] = sceneFrames[Math.floor(sceneFrames.length / 2)].dataUrl;
+            return false;
+          });
+          if (videoUrl && missing.length > 0) {
+            const frames = await captureFrames(videoUrl, missing.map(t => t.start))
+              .catch(err => {
+                console.error("Keyframe capture failed, exporting without thumbnails", err);
+                return [];
+              });
+            missing.forEach((timing, i) => {
+              if (frames[i]) thumbnails[timing.sceneId] = frames[i] as string;
+            });
+          }
+          downloadTextFile(exportToHtml(result, thumbnails), `${slug}.html`, 'text/html');
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Export failed", error);
+      alert("Failed to export storyboard. Please check console for details.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm text-gray-200 transition-colors disabled:opacity-60"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-dark-card border border-gray-700 rounded-lg shadow-xl z-20 py-1 animate-in fade-in slide-in-from-top-1 duration-150">
+          {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white text-left"
+            >
+              <Icon className="w-4 h-4 text-brand-500" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
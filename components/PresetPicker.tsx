@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SlidersHorizontal, Plus, Edit2, Trash2, Check, X } from 'lucide-react';
+import { AnalysisPreset, SceneGranularity } from '../types';
+import { BUILT_IN_PRESETS, ANALYSIS_MODELS, TEMPLATE_VARIABLES, DEFAULT_PRESET, createPresetDraft } from '../services/analysisPresets';
+import { listCustomPresets, saveCustomPreset, deleteCustomPreset } from '../services/projectStore';
+import { ServiceError, toServiceError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface PresetPickerProps {
+  selectedPresetId: string;
+  onSelect: (preset: AnalysisPreset) => void;
+  disabled?: boolean;
+}
+
+const GRANULARITY_OPTIONS: { value: SceneGranularity; label: string }[] = [
+  { value: 'coarse', label: 'Coarse (major beats)' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'fine', label: 'Fine (every cut)' },
+];
+
+const inputClass = "w-full bg-black/50 border border-gray-700 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none";
+
+/**
+ * Chooses the analysis preset on the upload screen, and creates, edits and
+ * deletes custom ones. Built-in presets are read-only but can be used as a starting point.
+ */
+export const PresetPicker: React.FC<PresetPickerProps> = ({ selectedPresetId, onSelect, disabled }) => {
+  const [customPresets, setCustomPresets] = useState<AnalysisPreset[]>([]);
+  const [draft, setDraft] = useState<AnalysisPreset | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCustomPresets(await listCustomPresets());
+    } catch (err) {
+      console.error("Failed to load presets", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const allPresets = [...BUILT_IN_PRESETS, ...customPresets];
+  const selected = allPresets.find(preset => preset.id === selectedPresetId) ?? DEFAULT_PRESET;
+
+  const updateDraft = (changes: Partial<AnalysisPreset>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.promptTemplate.trim()) {
+      setValidationError("A preset needs a name and a prompt template.");
+      return;
+    }
+    setValidationError(null);
+    setError(null);
+    try {
+      const saved = await saveCustomPreset({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+      await refresh();
+      onSelect(saved);
+    } catch (err) {
+      console.error("Failed to save preset", err);
+      setError(toServiceError(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selected.builtIn || !confirm(`Delete the preset "${selected.name}"?`)) return;
+    setError(null);
+    try {
+      await deleteCustomPreset(selected.id);
+      await refresh();
+      onSelect(DEFAULT_PRESET);
+    } catch (err) {
+      console.error("Failed to delete preset", err);
+      setError(toServiceError(err));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-6 bg-dark-card border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <SlidersHorizontal className="w-4 h-4 text-brand-500 shrink-0" />
+        <select
+          value={selected.id}
+          onChange={e => {
+            const preset = allPresets.find(p => p.id === e.target.value);
+            if (preset) onSelect(preset);
+          }}
+          disabled={disabled || !!draft}
+          className="flex-1 bg-black/50 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="Custom">
+              {customPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setDraft(createPresetDraft(selected))}
+          disabled={disabled || !!draft}
+          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded disabled:opacity-40"
+          title="New preset based on this one"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        {!selected.builtIn && (
+          <>
+            <button
+              onClick={() => setDraft({ ...selected })}
+              disabled={disabled || !!draft}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded disabled:opacity-40"
+              title="Edit Preset"
+            >
+              <Edit2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={disabled || !!draft}
+              className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded disabled:opacity-40"
+              title="Delete Preset"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+      {!draft && (
+        <p className="text-xs text-gray-500">
+          {selected.description || 'Custom preset'} · {selected.model} · temperature {selected.temperature} ·{' '}
+          {selected.targetSceneCount ? `~${selected.targetSceneCount} scenes` : `${selected.granularity} scenes`} · {selected.outputLanguage}
+        </p>
+      )}
+      {error && <ErrorNotice error={error} compact />}
+
+      {draft && (
+        <div className="space-y-3 border-t border-gray-700 pt-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Name</span>
+              <input className={inputClass} value={draft.name} onChange={e => updateDraft({ name: e.target.value })} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Output language</span>
+              <input className={inputClass} value={draft.outputLanguage} onChange={e => updateDraft({ outputLanguage: e.target.value })} />
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Description</span>
+            <input className={inputClass} value={draft.description} onChange={e => updateDraft({ description: e.target.value })} />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Model</span>
+              <select className={inputClass} value={draft.model} onChange={e => updateDraft({ model: e.target.value })}>
+                {ANALYSIS_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Temperature: {draft.temperature.toFixed(1)}</span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.temperature}
+                onChange={e => updateDraft({ temperature: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Scene granularity</span>
+              <select
+                className={inputClass}
+                value={draft.granularity}
+                onChange={e => updateDraft({ granularity: e.target.value as SceneGranularity })}
+              >
+                {GRANULARITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">Target scene count (optional)</span>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                className={inputClass}
+                value={draft.targetSceneCount ?? ''}
+                placeholder="Use granularity"
+                onChange={e => updateDraft({ targetSceneCount: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null })}
+              />
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Prompt template</span>
+            <textarea
+              className={`${inputClass} font-mono text-xs min-h-[200px]`}
+              value={draft.promptTemplate}
+              onChange={e => updateDraft({ promptTemplate: e.target.value })}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {TEMPLATE_VARIABLES.map(variable => (
+              <code key={variable.name} className="px-2 py-0.5 rounded bg-gray-800 text-brand-neon" title={variable.description}>
+                {`{{${variable.name}}}`}
+              </code>
+            ))}
+          </div>
+          {validationError && <div className="text-xs text-red-400">{validationError}</div>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setDraft(null); setValidationError(null); setError(null); }}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-400 hover:text-white rounded-lg border border-gray-700"
+            >
+              <X className="w-3 h-3" /> Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-brand-600 hover:bg-brand-500 rounded-lg"
+            >
+              <Check className="w-3 h-3" /> Save Preset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, Copy, Trash2, Edit2, Check, X, Clapperboard } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+import { ServiceError, toServiceError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface RecentProjectsProps {
+  onOpen: (projectId: string) => void;
+}
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [error, setError] = useState<ServiceError | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Failed to load projects", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = async () => {
+    if (!renamingId || !renameValue.trim()) return;
+    try {
+      await renameProject(renamingId, renameValue.trim());
+      setRenamingId(null);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(toServiceError(err));
+    }
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(toServiceError(err));
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}" and all its generated clips?`)) return;
+    try {
+      await deleteProject(project.id);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(toServiceError(err));
+    }
+    refresh();
+  };
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-12">
+      <h3 className="text-sm font-semibold text-gray-300 mb-3 uppercase tracking-wider">Recent Projects</h3>
+      {error && (
+        <div className="mb-3">
+          <ErrorNotice error={error} compact />
+        </div>
+      )}
+      <div className="space-y-2">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className="bg-dark-card border border-gray-700 hover:border-brand-500 rounded-lg px-4 py-3 flex items-center justify-between gap-4 transition-colors group"
+          >
+            <div className="flex-1 min-w-0">
+              {renamingId === project.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    className="flex-1 bg-black/50 border border-gray-600 rounded p-1.5 text-sm text-gray-200 focus:border-brand-500 outline-none"
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                  />
+                  <button onClick={handleRename} className="p-1.5 text-green-400 hover:bg-green-600/20 rounded" title="Save Name">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setRenamingId(null)} className="p-1.5 text-red-400 hover:bg-red-600/20 rounded" title="Cancel">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => onOpen(project.id)} className="text-left w-full">
+                  <div className="text-white font-medium truncate">{project.name}</div>
+                  <div className="text-xs text-gray-500 flex items-center gap-3 mt-0.5">
+                    <span className="flex items-center gap-1">
+                      <Clapperboard className="w-3 h-3" /> {project.sceneCount} scenes
+                    </span>
+                    <span className="truncate">{project.videoName ?? 'No reference video'}</span>
+                    <span>{new Date(project.updatedAt).toLocaleString()}</span>
+                  </div>
+                </button>
+              )}
+            </div>
+
+            {renamingId !== project.id && (
+              <div className="flex gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => onOpen(project.id)} className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg" title="Open">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button onClick={() => startRename(project)} className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg" title="Rename">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDuplicate(project.id)} className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg" title="Duplicate">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(project)} className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,767 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { StoryboardScene, SceneTiming, SceneKeyframe, ScenePromptFields, SceneTextField, SceneTake, VideoGenerationSettings } from '../types';
+import { Copy, Check, Video, Image as ImageIcon, Film, Sparkles, Upload, Loader2, AlertCircle, Edit2, Save, X, RefreshCw, Music, VolumeX, Type, Star, Trash2, SlidersHorizontal, ChevronDown } from 'lucide-react';
+import { getVideoProvider, ensureVideoApiKey, canSelectApiKey, selectApiKey, VeoAspectRatio, OperationProgress } from '../services/providers';
+import { isAbortError } from '../services/polling';
+import { ServiceError, toServiceError } from '../services/errors';
+import { formatTimeRange, formatTimestamp } from '../services/timeRange';
+import { captureStartFrame } from '../services/frameCapture';
+import { SceneRegenerationPanel } from './SceneRegenerationPanel';
+import { SceneDiffPanel, getChangedFields } from './SceneDiffPanel';
+import { SCENE_TEXT_FIELDS } from './sceneFields';
+import { describeProgress } from './operationProgress';
+import { ErrorNotice } from './ErrorNotice';
+import { PROMPT_TARGETS, PromptKind, PromptTarget, renderPromptDialect, formatDialectForCopy } from '../services/promptDialects';
+import { buildVeoPrompt } from '../services/sceneAudio';
+import { FONT_FAMILIES, formatOverlayTiming } from '../services/textOverlays';
+import { getSelectedTake, TakeInputs } from '../services/sceneTakes';
+import { DEFAULT_VIDEO_SETTINGS, normalizeVideoSettings, describeVideoSettings, withResolvedSeed } from '../services/videoSettings';
+import { toStartImage } from '../services/startImage';
+import { VideoSettingsPanel } from './VideoSettingsPanel';
+
+interface SceneCardProps {
+  scene: StoryboardScene;
+  baseline?: StoryboardScene; // the model's original version, if this scene came from analysis
+  timing: SceneTiming;
+  isActive: boolean;
+  keyframes?: SceneKeyframe[];
+  referenceVideoUrl?: string | null;
+  onSelect?: () => void;
+  onCopy: (text: string, id: string) => void;
+  copiedId: string | null;
+  takes?: SceneTake[]; // oldest first
+  selectedTakeId?: string;
+  defaultAspectRatio?: VeoAspectRatio;
+  onTakeGenerated: (url: string, inputs: TakeInputs) => void;
+  onSelectTake: (takeId: string) => void;
+  onToggleTakeStar: (takeId: string) => void;
+  onDeleteTake: (takeId: string) => void;
+  onUpdate: (updatedScene: StoryboardScene, label?: string) => void;
+  onRegenerate: (hint: string, signal: AbortSignal) => Promise<ScenePromptFields>;
+}
+
+export const SceneCard: React.FC<SceneCardProps> = ({ scene, baseline, timing, isActive, keyframes, referenceVideoUrl, onSelect, onCopy, copiedId, takes = [], selectedTakeId, defaultAspectRatio = '16:9', onTakeGenerated, onSelectTake, onToggleTakeStar, onDeleteTake, onUpdate, onRegenerate }) => {
+  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [startFrameTime, setStartFrameTime] = useState<number | null>(null);
+  const [isCapturingFrame, setIsCapturingFrame] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<VeoAspectRatio>(defaultAspectRatio);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [previewTakeId, setPreviewTakeId] = useState<string | null>(null);
+  const [isComposing, setIsComposing] = useState(false); // setting up another take while earlier ones exist
+  const [videoSettings, setVideoSettings] = useState<VideoGenerationSettings>(DEFAULT_VIDEO_SETTINGS);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<OperationProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  // Edit Mode State
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedData, setEditedData] = useState<StoryboardScene>(scene);
+  const [isRegenOpen, setIsRegenOpen] = useState(false);
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const [promptTargets, setPromptTargets] = useState<Record<PromptKind, PromptTarget>>({ image: 'generic', video: 'generic' });
+  const imageDialect = renderPromptDialect(scene, 'image', promptTargets.image, aspectRatio);
+  const videoDialect = renderPromptDialect(scene, 'video', promptTargets.video, aspectRatio);
+  const changedFields = baseline ? getChangedFields(scene, baseline) : [];
+  const selectedTake = getSelectedTake(takes, selectedTakeId);
+  const previewTake = takes.find(take => take.id === previewTakeId) ?? selectedTake;
+  const showComposer = !isGenerating && (!previewTake || isComposing);
+
+  useEffect(() => {
+    setEditedData(scene);
+  }, [scene]);
+
+  // Follow the project-wide setting until the user picks one for this scene
+  useEffect(() => {
+    setAspectRatio(defaultAspectRatio);
+  }, [defaultAspectRatio]);
+
+  // Stop polling if the card goes away (scene deleted, project closed)
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      setUploadedImage(ev.target?.result as string);
+      setStartFrameTime(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Thumbnails are downscaled, so grab the chosen frame again at full resolution for Veo
+  const handleUseKeyframe = async (time: number) => {
+    if (!referenceVideoUrl) return;
+    setIsCapturingFrame(true);
+    try {
+      setUploadedImage(await captureStartFrame(referenceVideoUrl, time));
+      setStartFrameTime(time);
+      setError(null);
+    } catch (err: any) {
+      console.error("Start frame capture failed", err);
+      setError(toServiceError(err));
+    } finally {
+      setIsCapturingFrame(false);
+    }
+  };
+
+  const handleGenerateVideo = async () => {
+    const videoProvider = getVideoProvider();
+    try {
+      await ensureVideoApiKey(videoProvider);
+    } catch (err) {
+      setError(toServiceError(err));
+      return;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    setGenerationProgress(null);
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    try {
+        const settings = withResolvedSeed(normalizeVideoSettings(videoSettings));
+        const startImage = uploadedImage ? await toStartImage(uploadedImage) : undefined;
+        // Use the latest edited data for generation if available, though generation uses what's saved.
+        // If the user edits but doesn't save, we should use the `scene` prop. 
+        // If they saved, `scene` prop is updated.
+        // Veo generates sound too, so the scene's audio cues ride along with the prompt
+        const prompt = buildVeoPrompt(scene);
+        const videoUrls = await videoProvider.generateVideo(prompt, startImage, aspectRatio, settings, {
+            signal: controller.signal,
+            onProgress: setGenerationProgress,
+        });
+        videoUrls.forEach(url => onTakeGenerated(url, { prompt, startImage: uploadedImage ?? undefined, aspectRatio, settings }));
+        setIsComposing(false);
+        setPreviewTakeId(null); // the new take is selected, so it shows up here
+    } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Veo Generation Error:", err);
+        setError(toServiceError(err));
+    } finally {
+        if (generationAbortRef.current === controller) generationAbortRef.current = null;
+        setIsGenerating(false);
+    }
+  };
+
+  const handleSelectKeyAndRetry = async () => {
+    try {
+      await selectApiKey();
+    } catch (err) {
+      console.error("API key selection failed", err);
+      return;
+    }
+    handleGenerateVideo();
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Loads a take's inputs back into the composer so it can be generated again
+  const handleReuseTake = (take: SceneTake) => {
+    if (take.settings) setVideoSettings(take.settings);
+    if (take.aspectRatio === '16:9' || take.aspectRatio === '9:16') setAspectRatio(take.aspectRatio);
+    setUploadedImage(take.startImage ?? null);
+    setStartFrameTime(null);
+    setShowAdvanced(true);
+    setIsComposing(true);
+  };
+
+  const handleDeleteTake = (take: SceneTake) => {
+    if (!confirm(`Delete take ${takes.indexOf(take) + 1} of scene ${scene.id}? This cannot be undone.`)) return;
+    if (take.id === previewTakeId) setPreviewTakeId(null);
+    onDeleteTake(take.id);
+  };
+
+  const handleSaveEdit = () => {
+    onUpdate(editedData);
+    setIsEditing(false);
+  };
+
+  const handleCancelEdit = () => {
+    setEditedData(scene);
+    setIsEditing(false);
+  };
+
+  const handleAcceptRegeneration = (fields: ScenePromptFields) => {
+    onUpdate({ ...scene, ...fields }, `Regenerate scene ${scene.id}`);
+    setIsRegenOpen(false);
+  };
+
+  const handleRevertField = (key: SceneTextField) => {
+    if (!baseline) return;
+    const label = SCENE_TEXT_FIELDS.find(f => f.key === key)?.label ?? key;
+    onUpdate({ ...scene, [key]: baseline[key] }, `Revert ${label} of scene ${scene.id}`);
+  };
+
+  const renderTargetTabs = (kind: PromptKind) => (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {PROMPT_TARGETS[kind].map(target => (
+        <button
+          key={target.id}
+          onClick={() => setPromptTargets(prev => ({ ...prev, [kind]: target.id }))}
+          className={`text-[10px] px-2 py-0.5 rounded border transition-colors ${promptTargets[kind] === target.id ? 'bg-gray-700 border-gray-500 text-white' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+        >
+          {target.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  // Clicking the card body seeks the reference player; controls inside the card keep their own behaviour
+  const handleCardClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSelect || isEditing) return;
+    if ((e.target as HTMLElement).closest('button, a, input, textarea, label, video')) return;
+    onSelect();
+  };
+
+  return (
+    <div 
+      onClick={handleCardClick}
+      className={`bg-dark-card border rounded-xl p-6 transition-colors duration-300 group relative 
+        ${isEditing ? 'border-brand-500 shadow-brand-900/20 shadow-lg' : isActive ? 'border-brand-neon ring-1 ring-brand-neon/50' : 'border-gray-700 hover:border-brand-500'}
+        ${onSelect && !isEditing ? 'cursor-pointer' : ''}`}
+    >
+      
+      {/* Edit Controls */}
+      <div className="absolute top-4 right-4 z-10 flex gap-2">
+        {isEditing ? (
+            <>
+                <button onClick={handleSaveEdit} className="p-2 bg-green-600/20 hover:bg-green-600/40 text-green-400 rounded-lg transition-colors" title="Save Changes">
+                    <Save className="w-4 h-4" />
+                </button>
+                <button onClick={handleCancelEdit} className="p-2 bg-red-600/20 hover:bg-red-600/40 text-red-400 rounded-lg transition-colors" title="Cancel">
+                    <X className="w-4 h-4" />
+                </button>
+            </>
+        ) : (
+            <>
+                <button onClick={() => setIsRegenOpen(open => !open)} className={`p-2 rounded-lg transition-colors ${isRegenOpen ? 'bg-purple-600/30 text-purple-300' : 'bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100'}`} title="Regenerate Scene">
+                    <RefreshCw className="w-4 h-4" />
+                </button>
+                <button onClick={() => setIsEditing(true)} className="p-2 bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white rounded-lg transition-colors opacity-0 group-hover:opacity-100" title="Edit Scene">
+                    <Edit2 className="w-4 h-4" />
+                </button>
+            </>
+        )}
+      </div>
+
+      {isDiffOpen && baseline && !isEditing && (
+        <div className="pr-24">
+            <SceneDiffPanel scene={scene} baseline={baseline} onRevertField={handleRevertField} />
+        </div>
+      )}
+
+      {isRegenOpen && !isEditing && (
+        <div className="pr-24">
+            <SceneRegenerationPanel
+                scene={scene}
+                onRegenerate={onRegenerate}
+                onAccept={handleAcceptRegeneration}
+                onClose={() => setIsRegenOpen(false)}
+            />
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-6">
+        
+        {/* Scene Info */}
+        <div className="md:w-1/4 flex flex-col space-y-4 border-r border-gray-700/50 pr-4">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="bg-brand-900/60 text-brand-neon px-2 py-1 rounded text-xs font-mono border border-brand-500/30">
+              SCENE {scene.id}
+            </span>
+            <span className="text-gray-400 text-xs font-mono">{scene.timeRange}</span>
+            {timing.isEstimated && (
+                <span title={`Unreadable time range, estimated as ${formatTimeRange(timing.start, timing.end)}`}>
+                    <AlertCircle className="w-3 h-3 text-yellow-500" />
+                </span>
+            )}
+            {changedFields.length > 0 && (
+                <button
+                    onClick={() => setIsDiffOpen(open => !open)}
+                    className={`text-[10px] px-1.5 py-0.5 rounded border transition-colors ${isDiffOpen ? 'bg-yellow-600/30 border-yellow-600/60 text-yellow-300' : 'border-yellow-700/50 text-yellow-500 hover:bg-yellow-900/30'}`}
+                    title="Show changes against the AI version"
+                >
+                    EDITED · {changedFields.length}
+                </button>
+            )}
+          </div>
+
+          {keyframes && keyframes.length > 0 && (
+            <div className="grid grid-cols-3 gap-1">
+                {keyframes.map(frame => (
+                    <button
+                        key={frame.time}
+                        onClick={() => handleUseKeyframe(frame.time)}
+                        disabled={isCapturingFrame || isGenerating}
+                        className={`relative rounded overflow-hidden border group/frame transition-colors ${startFrameTime === frame.time ? 'border-brand-neon' : 'border-gray-700 hover:border-brand-500'}`}
+                        title={`Use frame at ${formatTimestamp(frame.time)} as Veo start image`}
+                    >
+                        <img src={frame.dataUrl} alt={`Scene ${scene.id} at ${formatTimestamp(frame.time)}`} className="w-full aspect-video object-cover" />
+                        <span className="absolute inset-0 flex items-center justify-center bg-black/60 text-[9px] text-white opacity-0 group-hover/frame:opacity-100 transition-opacity">
+                            Use as start
+                        </span>
+                    </button>
+                ))}
+            </div>
+          )}
+          
+          <div>
+            <h4 className="text-sm font-semibold text-gray-200 mb-1">Visual Action</h4>
+            {isEditing ? (
+                <textarea 
+                    className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
+                    rows={4}
+                    value={editedData.visualDescription}
+                    onChange={e => setEditedData({...editedData, visualDescription: e.target.value})}
+                />
+            ) : (
+                <p className="text-sm text-gray-400 leading-snug">{scene.visualDescription}</p>
+            )}
+          </div>
+          
+          <div>
+            <h4 className="text-sm font-semibold text-gray-200 mb-1">Camera</h4>
+            {isEditing ? (
+                <input 
+                    className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
+                    value={editedData.cameraMovement}
+                    onChange={e => setEditedData({...editedData, cameraMovement: e.target.value})}
+                />
+            ) : (
+                <p className="text-sm text-gray-400 leading-snug">{scene.cameraMovement}</p>
+            )}
+          </div>
+
+          {(scene.voiceoverScript || isEditing) && (
+             <div>
+                <h4 className="text-sm font-semibold text-gray-200 mb-1">Script</h4>
+                {isEditing ? (
+                    <textarea 
+                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-brand-500 outline-none"
+                        rows={2}
+                        value={editedData.voiceoverScript || ''}
+                        onChange={e => setEditedData({...editedData, voiceoverScript: e.target.value})}
+                        placeholder="Voiceover script..."
+                    />
+                ) : (
+                    <p className="text-sm text-gray-400 italic">"{scene.voiceoverScript}"</p>
+                )}
+             </div>
+          )}
+
+          {scene.textOverlays && (
+             <div>
+                <h4 className="text-sm font-semibold text-gray-200 mb-1 flex items-center gap-1.5">
+                    <Type className="w-3.5 h-3.5" /> On-screen Text
+                </h4>
+                <ul className="space-y-2">
+                    {scene.textOverlays.map((overlay, i) => (
+                        <li key={i}>
+                            <span
+                                className="inline-block text-sm px-1.5 py-0.5 rounded bg-gray-800 whitespace-pre-line"
+                                style={{
+                                    color: overlay.color,
+                                    backgroundColor: overlay.backgroundColor,
+                                    fontFamily: FONT_FAMILIES[overlay.font],
+                                    fontWeight: overlay.fontWeight,
+                                }}
+                            >
+                                {overlay.text}
+                            </span>
+                            <p className="text-[10px] text-gray-500 mt-0.5">
+                                {formatOverlayTiming(overlay)} · {overlay.position}{overlay.animation !== 'none' ? ` · ${overlay.animation}` : ''}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+             </div>
+          )}
+
+          {scene.audio && (
+             <div>
+                <h4 className="text-sm font-semibold text-gray-200 mb-1 flex items-center gap-1.5">
+                    {scene.audio.isSilent ? <VolumeX className="w-3.5 h-3.5" /> : <Music className="w-3.5 h-3.5" />} Audio
+                </h4>
+                {scene.audio.isSilent ? (
+                    <p className="text-sm text-gray-400">Silence</p>
+                ) : scene.audio.musicMood && (
+                    <p className="text-sm text-gray-400 leading-snug">
+                        {scene.audio.musicMood}
+                        {scene.audio.bpm && <span className="font-mono text-gray-500"> · {scene.audio.bpm} BPM</span>}
+                    </p>
+                )}
+                {scene.audio.cutsOnBeat !== undefined && (
+                    <span className={`inline-block text-[10px] px-1.5 py-0.5 rounded mt-1 ${scene.audio.cutsOnBeat ? 'bg-brand-500/20 text-brand-300' : 'bg-gray-800 text-gray-500'}`}>
+                        {scene.audio.cutsOnBeat ? 'Cuts on beat' : 'Off beat'}
+                    </span>
+                )}
+                {scene.audio.sfx && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                        {scene.audio.sfx.map((cue, i) => (
+                            <span key={i} className="text-[10px] bg-gray-800 text-gray-300 px-1.5 py-0.5 rounded">{cue}</span>
+                        ))}
+                    </div>
+                )}
+                {scene.audio.speaker && (
+                    <p className="text-xs text-gray-500 mt-1.5">Speaker: {scene.audio.speaker}</p>
+                )}
+             </div>
+          )}
+        </div>
+
+        {/* Prompts Section */}
+        <div className="md:w-3/4 flex flex-col gap-4">
+            
+            {/* Image Prompt */}
+            <div className={`bg-black/30 p-4 rounded-lg border relative transition-colors ${isEditing ? 'border-brand-500/50' : 'border-gray-800 group-hover:border-gray-600'}`}>
+                <div className="flex justify-between items-start mb-2">
+                    <div className="flex items-center gap-2 text-purple-400">
+                        <ImageIcon className="w-4 h-4" />
+                        <span className="text-xs font-bold uppercase tracking-wider">Image Prompt</span>
+                    </div>
+                    {!isEditing && (
+                        <button 
+                            onClick={() => onCopy(formatDialectForCopy(imageDialect), `img-${scene.id}`)}
+                            className="text-gray-500 hover:text-white transition-colors"
+                            title="Copy Prompt"
+                        >
+                            {copiedId === `img-${scene.id}` ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    )}
+                </div>
+                {!isEditing && renderTargetTabs('image')}
+                {isEditing ? (
+                    <textarea 
+                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-300 font-mono focus:border-brand-500 outline-none"
+                        rows={3}
+                        value={editedData.aiImagePrompt}
+                        onChange={e => setEditedData({...editedData, aiImagePrompt: e.target.value})}
+                    />
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-300 font-mono break-words">{imageDialect.prompt}</p>
+                        {imageDialect.negativePrompt && (
+                            <p className="text-xs text-gray-500 font-mono break-words mt-2">Negative: {imageDialect.negativePrompt}</p>
+                        )}
+                        {imageDialect.isDerived && (
+                            <p className="text-[10px] text-gray-600 mt-2">Formatted from the generic prompt</p>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* Video Prompt */}
+            <div className={`bg-black/30 p-4 rounded-lg border relative transition-colors ${isEditing ? 'border-brand-500/50' : 'border-gray-800 group-hover:border-gray-600'}`}>
+                <div className="flex justify-between items-start mb-2">
+                    <div className="flex items-center gap-2 text-orange-400">
+                        <Video className="w-4 h-4" />
+                        <span className="text-xs font-bold uppercase tracking-wider">Video Prompt</span>
+                    </div>
+                    {!isEditing && (
+                        <button 
+                            onClick={() => onCopy(formatDialectForCopy(videoDialect), `vid-${scene.id}`)}
+                            className="text-gray-500 hover:text-white transition-colors"
+                            title="Copy Prompt"
+                        >
+                            {copiedId === `vid-${scene.id}` ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    )}
+                </div>
+                {!isEditing && renderTargetTabs('video')}
+                 {isEditing ? (
+                    <textarea 
+                        className="w-full bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-300 font-mono focus:border-brand-500 outline-none"
+                        rows={3}
+                        value={editedData.aiVideoPrompt}
+                        onChange={e => setEditedData({...editedData, aiVideoPrompt: e.target.value})}
+                    />
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-300 font-mono break-words">{videoDialect.prompt}</p>
+                        {videoDialect.isDerived && (
+                            <p className="text-[10px] text-gray-600 mt-2">Formatted from the generic prompt</p>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* Veo Generation Section */}
+            {!isEditing && (
+                <div className="mt-2 border border-brand-900/50 bg-brand-900/10 rounded-xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-300">
+                    <div className="px-4 py-3 bg-brand-900/20 border-b border-brand-900/30 flex items-center justify-between">
+                        <div className="flex items-center gap-2 text-brand-neon">
+                            <Film className="w-4 h-4" />
+                            <span className="font-semibold text-sm">Veo Studio</span>
+                            <span className="text-xs bg-brand-500/20 text-brand-300 px-2 py-0.5 rounded-full">Preview</span>
+                        </div>
+                    </div>
+                    
+                    <div className="p-4">
+                        {showComposer && (
+                            <div className="flex flex-col gap-4">
+                                <div className="flex flex-col sm:flex-row gap-4 items-start">
+                                    {/* Image Upload */}
+                                    <div className="flex-1 w-full">
+                                        <label className="text-xs text-gray-400 mb-2 block">
+                                            Reference Image (Image-to-Video)
+                                            {isCapturingFrame && <Loader2 className="w-3 h-3 inline ml-2 animate-spin" />}
+                                            {startFrameTime !== null && !isCapturingFrame && (
+                                                <span className="ml-2 text-brand-neon">Frame @ {formatTimestamp(startFrameTime)}</span>
+                                            )}
+                                        </label>
+                                        <div 
+                                            onClick={() => fileInputRef.current?.click()}
+                                            className="border border-dashed border-gray-600 rounded-lg p-4 flex flex-col items-center justify-center cursor-pointer hover:bg-white/5 transition-colors h-32 relative group/upload"
+                                        >
+                                            {uploadedImage ? (
+                                                <>
+                                                    <img src={uploadedImage} alt="Reference" className="h-full object-contain opacity-60 group-hover/upload:opacity-40 transition-opacity" />
+                                                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover/upload:opacity-100 transition-opacity">
+                                                        <span className="text-xs bg-black/80 px-2 py-1 rounded text-white">Change Image</span>
+                                                    </div>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <Upload className="w-6 h-6 text-gray-500 mb-2" />
+                                                    <span className="text-xs text-gray-500 text-center">Upload Reference Image<br/>(Optional)</span>
+                                                </>
+                                            )}
+                                            <input 
+                                                ref={fileInputRef} 
+                                                type="file" 
+                                                accept="image/*" 
+                                                className="hidden" 
+                                                onChange={handleImageUpload}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Controls */}
+                                    <div className="flex-1 w-full">
+                                        <label className="text-xs text-gray-400 mb-2 block">Settings</label>
+                                        <div className="flex gap-2 mb-4">
+                                            <button 
+                                                onClick={() => setAspectRatio('16:9')}
+                                                className={`flex-1 py-2 text-xs rounded border transition-all ${aspectRatio === '16:9' ? 'bg-brand-600 border-brand-500 text-white' : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                            >
+                                                16:9 (Landscape)
+                                            </button>
+                                            <button 
+                                                onClick={() => setAspectRatio('9:16')}
+                                                className={`flex-1 py-2 text-xs rounded border transition-all ${aspectRatio === '9:16' ? 'bg-brand-600 border-brand-500 text-white' : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                            >
+                                                9:16 (Portrait)
+                                            </button>
+                                        </div>
+                                        <button 
+                                            onClick={handleGenerateVideo}
+                                            className="w-full py-3 bg-gradient-to-r from-brand-600 to-brand-500 hover:from-brand-500 hover:to-brand-400 text-white font-bold rounded-lg shadow-lg shadow-brand-900/50 flex items-center justify-center gap-2 transition-all transform hover:scale-[1.02] active:scale-[0.98]"
+                                        >
+                                            <Sparkles className="w-4 h-4" />
+                                            Generate with Veo
+                                        </button>
+                                    </div>
+                                </div>
+                                <div>
+                                    <button
+                                        onClick={() => setShowAdvanced(!showAdvanced)}
+                                        className="flex items-center gap-2 text-xs text-gray-400 hover:text-white"
+                                    >
+                                        <SlidersHorizontal className="w-3.5 h-3.5" />
+                                        Advanced
+                                        <span className="text-gray-500">{describeVideoSettings(normalizeVideoSettings(videoSettings))}</span>
+                                        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+                                    </button>
+                                    {showAdvanced && (
+                                        <div className="mt-2">
+                                            <VideoSettingsPanel settings={videoSettings} onChange={setVideoSettings} />
+                                        </div>
+                                    )}
+                                </div>
+                                {error && (
+                                    <ErrorNotice
+                                        error={error}
+                                        compact
+                                        onRetry={handleGenerateVideo}
+                                        onSelectKey={canSelectApiKey() ? handleSelectKeyAndRetry : undefined}
+                                        onEditPrompt={() => setIsEditing(true)}
+                                    />
+                                )}
+                                {takes.length > 0 && (
+                                    <button
+                                        onClick={() => setIsComposing(false)}
+                                        className="self-start text-xs text-gray-400 hover:text-white underline"
+                                    >
+                                        Back to takes
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {isGenerating && (
+                            <div className="flex flex-col items-center justify-center py-8 text-center space-y-4">
+                                <div className="relative">
+                                    <div className="absolute inset-0 bg-brand-neon blur-lg opacity-30 animate-pulse"></div>
+                                    <Loader2 className="w-8 h-8 text-brand-neon animate-spin relative z-10" />
+                                </div>
+                                <div>
+                                    <h4 className="text-brand-100 font-medium animate-pulse">
+                                        {generationProgress ? describeProgress(generationProgress) : "Sending to Veo..."}
+                                    </h4>
+                                    <p className="text-xs text-gray-500 mt-1">This usually takes about 60 seconds</p>
+                                </div>
+                                <button
+                                    onClick={handleCancelGeneration}
+                                    className="px-3 py-1.5 text-xs text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        )}
+
+                        {previewTake && !showComposer && !isGenerating && (
+                            <div className="animate-in fade-in zoom-in duration-300">
+                                <div className="relative rounded-lg overflow-hidden bg-black border border-gray-700 group/video">
+                                    <video 
+                                        key={previewTake.id}
+                                        src={previewTake.url} 
+                                        controls 
+                                        autoPlay 
+                                        loop 
+                                        className={`w-full max-h-[400px] object-contain ${(previewTake.aspectRatio ?? aspectRatio) === '9:16' ? 'aspect-[9/16]' : 'aspect-video'}`}
+                                    />
+                                    <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover/video:opacity-100 transition-opacity">
+                                        <a 
+                                            href={previewTake.url} 
+                                            download={`scene-${scene.id}-take-${takes.indexOf(previewTake) + 1}-veo.mp4`}
+                                            className="bg-black/60 hover:bg-black/80 text-white p-1.5 rounded"
+                                            title="Download Video"
+                                        >
+                                            <Video className="w-4 h-4" />
+                                        </a>
+                                    </div>
+                                </div>
+                                <div className="mt-3 flex justify-between items-center gap-3">
+                                    <span className="text-xs text-gray-400">
+                                        Take {takes.indexOf(previewTake) + 1} of {takes.length}
+                                        {previewTake.aspectRatio && ` · ${previewTake.aspectRatio}`}
+                                        {` · ${new Date(previewTake.createdAt).toLocaleString()}`}
+                                    </span>
+                                    <div className="flex items-center gap-3">
+                                        <button
+                                            onClick={() => onToggleTakeStar(previewTake.id)}
+                                            className={previewTake.starred ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-400'}
+                                            title={previewTake.starred ? 'Unstar' : 'Star as favourite'}
+                                        >
+                                            <Star className={`w-3.5 h-3.5 ${previewTake.starred ? 'fill-current' : ''}`} />
+                                        </button>
+                                        <button onClick={() => handleDeleteTake(previewTake)} className="text-gray-400 hover:text-red-400" title="Delete take">
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                        {previewTake.id === selectedTake?.id ? (
+                                            <span className="text-xs text-brand-neon flex items-center gap-1">
+                                                <Check className="w-3 h-3" /> In final cut
+                                            </span>
+                                        ) : (
+                                            <button
+                                                onClick={() => onSelectTake(previewTake.id)}
+                                                className="text-xs text-brand-300 hover:text-white underline"
+                                            >
+                                                Use in final cut
+                                            </button>
+                                        )}
+                                        <button 
+                                            onClick={() => setIsComposing(true)}
+                                            className="text-xs text-gray-400 hover:text-white underline"
+                                        >
+                                            Generate New Take
+                                        </button>
+                                    </div>
+                                </div>
+                                {(previewTake.prompt || previewTake.startImage || previewTake.settings) && (
+                                    <details className="mt-2 text-xs text-gray-400">
+                                        <summary className="cursor-pointer hover:text-gray-200">
+                                            Generated from
+                                            {previewTake.prompt && previewTake.prompt !== buildVeoPrompt(scene) && (
+                                                <span className="ml-2 text-yellow-500">scene edited since</span>
+                                            )}
+                                        </summary>
+                                        {previewTake.settings && (
+                                            <p className="mt-2 text-gray-300">
+                                                {describeVideoSettings(previewTake.settings)}
+                                                {previewTake.settings.numberOfVideos > 1 && ` · 1 of ${previewTake.settings.numberOfVideos} videos`}
+                                            </p>
+                                        )}
+                                        <div className="mt-2 flex gap-3 items-start">
+                                            {previewTake.startImage && (
+                                                <img src={previewTake.startImage} alt="Start frame" className="h-16 rounded border border-gray-700 object-contain bg-black" />
+                                            )}
+                                            {previewTake.prompt && (
+                                                <p className="font-mono whitespace-pre-wrap text-gray-300 bg-black/40 rounded p-2 flex-1">{previewTake.prompt}</p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => handleReuseTake(previewTake)}
+                                            className="mt-2 text-brand-300 hover:text-white underline"
+                                        >
+                                            Reuse these settings
+                                        </button>
+                                    </details>
+                                )}
+
+                                {/* Takes Grid */}
+                                {takes.length > 1 && (
+                                    <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                                        {takes.map((take, takeIndex) => (
+                                            <div
+                                                key={take.id}
+                                                className={`rounded-lg overflow-hidden border bg-black ${take.id === previewTake.id ? 'border-brand-500' : 'border-gray-700 hover:border-gray-500'}`}
+                                            >
+                                                <button onClick={() => setPreviewTakeId(take.id)} className="block w-full" title="Preview this take">
+                                                    <video src={take.url} muted loop autoPlay playsInline className="w-full aspect-video object-cover" />
+                                                </button>
+                                                <div className="flex items-center justify-between px-2 py-1 text-[10px] text-gray-400">
+                                                    <span className={take.id === selectedTake?.id ? 'text-brand-neon font-semibold' : ''}>
+                                                        Take {takeIndex + 1}{take.id === selectedTake?.id && ' · in cut'}
+                                                    </span>
+                                                    <div className="flex items-center gap-1.5">
+                                                        <button
+                                                            onClick={() => onToggleTakeStar(take.id)}
+                                                            className={take.starred ? 'text-yellow-400' : 'hover:text-yellow-400'}
+                                                            title={take.starred ? 'Unstar' : 'Star as favourite'}
+                                                        >
+                                                            <Star className={`w-3 h-3 ${take.starred ? 'fill-current' : ''}`} />
+                                                        </button>
+                                                        {take.id !== selectedTake?.id && (
+                                                            <button onClick={() => onSelectTake(take.id)} className="hover:text-brand-neon" title="Use in final cut">
+                                                                <Check className="w-3 h-3" />
+                                                            </button>
+                                                        )}
+                                                        <button onClick={() => handleDeleteTake(take)} className="hover:text-red-400" title="Delete take">
+                                                            <Trash2 className="w-3 h-3" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { StoryboardScene, SceneTextField } from '../types';
+import { diffWords } from '../services/textDiff';
+import { SCENE_TEXT_FIELDS } from './sceneFields';
+
+interface SceneDiffPanelProps {
+  scene: StoryboardScene;
+  baseline: StoryboardScene;
+  onRevertField: (key: SceneTextField) => void;
+}
+
+/**
+ * Fields of a scene whose text differs from the model's original output.
+ */
+export const getChangedFields = (scene: StoryboardScene, baseline: StoryboardScene) =>
+  SCENE_TEXT_FIELDS.filter(({ key }) => (scene[key] || '') !== (baseline[key] || ''));
+
+/**
+ * Inline word diff of every manually changed field against the AI version,
+ * with a per-field revert.
+ */
+export const SceneDiffPanel: React.FC<SceneDiffPanelProps> = ({ scene, baseline, onRevertField }) => {
+  const changed = getChangedFields(scene, baseline);
+  if (changed.length === 0) return null;
+
+  return (
+    <div className="mb-4 border border-yellow-900/50 bg-yellow-900/10 rounded-xl p-4 space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="text-xs font-semibold text-yellow-400 uppercase tracking-wider">Changes vs. AI Version</div>
+      {changed.map(({ key, label }) => (
+        <div key={key}>
+          <div className="flex items-center justify-between mb-1">
+            <h5 className="text-xs font-semibold text-gray-400">{label}</h5>
+            <button
+              onClick={() => onRevertField(key)}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+              title="Revert this field to the AI version"
+            >
+              <RotateCcw className="w-3 h-3" /> Revert to AI
+            </button>
+          </div>
+          <p className="text-xs bg-black/30 rounded p-2 break-words leading-relaxed">
+            {diffWords(baseline[key] || '', scene[key] || '').map((segment, i) => (
+              <span
+                key={i}
+                className={
+                  segment.type === 'added' ? 'bg-green-900/50 text-green-300'
+                  : segment.type === 'removed' ? 'bg-red-900/40 text-red-300 line-through'
+                  : 'text-gray-400'
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RefreshCw, Loader2, AlertCircle, Check, X, ArrowRight } from 'lucide-react';
+import { StoryboardScene, ScenePromptFields } from '../types';
+import { SCENE_TEXT_FIELDS } from './sceneFields';
+import { isAbortError } from '../services/polling';
+
+interface SceneRegenerationPanelProps {
+  scene: StoryboardScene;
+  onRegenerate: (hint: string, signal: AbortSignal) => Promise<ScenePromptFields>;
+  onAccept: (fields: ScenePromptFields) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks the model for a fresh take on one scene and shows it next to the current
+ * version. Nothing is changed until the user accepts.
+ */
+export const SceneRegenerationPanel: React.FC<SceneRegenerationPanelProps> = ({ scene, onRegenerate, onAccept, onClose }) => {
+  const [hint, setHint] = useState("");
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [candidate, setCandidate] = useState<ScenePromptFields | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel abandons any request still in flight
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRegenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      setCandidate(await onRegenerate(hint.trim(), controller.signal));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Scene regeneration failed", err);
+      setError(err.message || "Failed to regenerate scene.");
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 border border-purple-900/50 bg-purple-900/10 rounded-xl p-4 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-purple-300 text-sm font-semibold">
+          <RefreshCw className="w-4 h-4" />
+          Regenerate Scene {scene.id}
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          className="flex-1 bg-black/50 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-purple-500 outline-none"
+          placeholder='Optional direction, e.g. "make it more cinematic"'
+          value={hint}
+          onChange={e => setHint(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !isRegenerating) handleRegenerate(); }}
+          disabled={isRegenerating}
+        />
+        <button
+          onClick={handleRegenerate}
+          disabled={isRegenerating}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-60 text-white text-sm font-semibold rounded-lg flex items-center gap-2 transition-colors"
+        >
+          {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          {candidate ? 'Try Again' : 'Regenerate'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3 text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 flex items-center gap-2">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      {candidate && !isRegenerating && (
+        <div className="mt-4 space-y-3">
+          {SCENE_TEXT_FIELDS.filter(({ key }) => scene[key] || candidate[key]).map(({ key, label }) => {
+            const changed = (scene[key] || '') !== (candidate[key] || '');
+            return (
+              <div key={key}>
+                <h5 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">{label}</h5>
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-2 items-start">
+                  <p className="text-xs text-gray-500 bg-black/30 rounded p-2 break-words">{scene[key] || '—'}</p>
+                  <ArrowRight className="hidden md:block w-3 h-3 text-gray-600 mt-2" />
+                  <p className={`text-xs rounded p-2 break-words ${changed ? 'text-gray-200 bg-purple-900/30 border border-purple-700/40' : 'text-gray-500 bg-black/30'}`}>
+                    {candidate[key] || '—'}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              onClick={() => setCandidate(null)}
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-white border border-gray-700 rounded-lg"
+            >
+              Keep Current
+            </button>
+            <button
+              onClick={() => onAccept(candidate)}
+              className="px-3 py-1.5 text-xs bg-green-600/20 hover:bg-green-600/40 text-green-400 border border-green-700/50 rounded-lg flex items-center gap-1"
+            >
+              <Check className="w-3 h-3" /> Use New Version
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
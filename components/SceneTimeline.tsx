@@ -0,0 +1,77 @@
+import React from 'react';
+import { SceneTiming, StoryboardScene, SceneAudio } from '../types';
+import { formatTimeRange } from '../services/timeRange';
+import { summarizeSceneAudio } from '../services/sceneAudio';
+
+interface SceneTimelineProps {
+  timings: SceneTiming[];
+  duration: number;
+  currentTime: number;
+  activeSceneId: number | null;
+  onSeek: (time: number) => void;
+  scenes?: StoryboardScene[]; // adds an audio lane when any scene has an audio breakdown
+}
+
+/**
+ * Thin bar under the reference player showing scene boundaries and the playhead,
+ * with the scenes' music and sound cues in a lane underneath.
+ */
+export const SceneTimeline: React.FC<SceneTimelineProps> = ({ timings, duration, currentTime, activeSceneId, onSeek, scenes }) => {
+  // Fall back to the storyboard's own length until the video reports its duration
+  const total = duration || Math.max(0, ...timings.map(t => t.end));
+  if (total <= 0) return null;
+
+  const toPercent = (seconds: number) => `${Math.min(100, (seconds / total) * 100)}%`;
+  const spanStyle = (timing: SceneTiming) => ({
+    left: toPercent(timing.start),
+    width: `calc(${toPercent(timing.end)} - ${toPercent(timing.start)})`,
+  });
+
+  const audioByScene = new Map<number, SceneAudio | undefined>((scenes ?? []).map(scene => [scene.id, scene.audio]));
+  const hasAudioLane = (scenes ?? []).some(scene => scene.audio);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * total);
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="relative h-6 bg-gray-900 rounded cursor-pointer overflow-hidden border border-gray-800" onClick={handleClick}>
+        {timings.map(timing => (
+          <div
+            key={timing.sceneId}
+            title={`Scene ${timing.sceneId}: ${formatTimeRange(timing.start, timing.end)}${timing.isEstimated ? ' (estimated)' : ''}`}
+            className={`absolute top-0 bottom-0 border-r border-gray-950 flex items-center justify-center text-[10px] font-mono transition-colors
+              ${timing.sceneId === activeSceneId ? 'bg-brand-500/60 text-white' : 'bg-brand-900/40 text-gray-400 hover:bg-brand-900/70'}
+              ${timing.isEstimated ? 'border-dashed opacity-70' : ''}`}
+            style={spanStyle(timing)}
+          >
+            {timing.sceneId}
+          </div>
+        ))}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-brand-neon pointer-events-none" style={{ left: toPercent(currentTime) }} />
+      </div>
+      {hasAudioLane && (
+        <div className="relative h-4 mt-1 bg-gray-900 rounded cursor-pointer overflow-hidden border border-gray-800" onClick={handleClick}>
+          {timings.map(timing => {
+            const audio = audioByScene.get(timing.sceneId);
+            return (
+              <div
+                key={timing.sceneId}
+                title={`Scene ${timing.sceneId}: ${summarizeSceneAudio(audio) || 'no audio notes'}`}
+                className={`absolute top-0 bottom-0 border-r border-gray-950 px-1 flex items-center gap-1 text-[9px] truncate
+                  ${!audio ? 'bg-transparent' : audio.isSilent ? 'bg-gray-800/60 text-gray-600 italic' : 'bg-emerald-900/40 text-emerald-300'}`}
+                style={spanStyle(timing)}
+              >
+                {audio?.cutsOnBeat && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 shrink-0" />}
+                {audio && (audio.isSilent ? 'silence' : audio.musicMood ?? audio.sfx?.[0] ?? '')}
+              </div>
+            );
+          })}
+          <div className="absolute top-0 bottom-0 w-0.5 bg-brand-neon pointer-events-none" style={{ left: toPercent(currentTime) }} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState, useRef } from 'react';
+import { FileJson, FileVideo, AlertCircle, ArrowRight, X } from 'lucide-react';
+import { AnalysisResult, VideoFile } from '../types';
+import { parseStoryboardJson } from '../services/exportService';
+
+interface StoryboardImporterProps {
+  onImport: (result: AnalysisResult, video: VideoFile | null) => void;
+}
+
+export const StoryboardImporter: React.FC<StoryboardImporterProps> = ({ onImport }) => {
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [video, setVideo] = useState<VideoFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+
+  const handleJsonChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setResult(parseStoryboardJson(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setResult(null);
+      setError(err.message || "Could not read storyboard file.");
+    }
+  };
+
+  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setVideo({ file, previewUrl: URL.createObjectURL(file), mimeType: file.type });
+  };
+
+  const reset = () => {
+    setResult(null);
+    setVideo(null);
+    setError(null);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-6">
+      {!result ? (
+        <button
+          onClick={() => jsonInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-3 border border-gray-700 hover:border-brand-500 rounded-xl text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <FileJson className="w-4 h-4" />
+          Or open a storyboard JSON exported earlier
+        </button>
+      ) : (
+        <div className="bg-dark-card border border-brand-500/50 rounded-xl p-4 space-y-4 animate-in fade-in duration-300">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="text-white font-medium">{result.title}</div>
+              <div className="text-xs text-gray-500">{result.scenes.length} scenes</div>
+            </div>
+            <button onClick={reset} className="p-1.5 text-gray-400 hover:text-white rounded" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <button
+            onClick={() => videoInputRef.current?.click()}
+            className="w-full flex items-center gap-2 px-3 py-2 border border-dashed border-gray-600 hover:bg-white/5 rounded-lg text-xs text-gray-400 transition-colors"
+          >
+            <FileVideo className="w-4 h-4" />
+            {video ? video.file.name : "Attach reference video (optional)"}
+          </button>
+
+          <button
+            onClick={() => onImport(result, video)}
+            className="w-full py-2.5 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-lg flex items-center justify-center gap-2 transition-colors"
+          >
+            Open Storyboard <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 flex items-center gap-2">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <input ref={jsonInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleJsonChange} />
+      <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={handleVideoChange} />
+    </div>
+  );
+};
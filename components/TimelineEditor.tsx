@@ -0,0 +1,174 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Scissors, Combine, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { StoryboardScene } from '../types';
+import { resolveSceneTimings, formatTimestamp, formatTimeRange } from '../services/timeRange';
+import { splitScene, mergeWithNext, deleteScene, insertSceneAfter, moveBoundary } from '../services/storyboardEdits';
+
+interface TimelineEditorProps {
+  scenes: StoryboardScene[];
+  nextSceneId: number; // id for a scene created by split or insert
+  duration: number;
+  currentTime: number;
+  selectedSceneId: number | null;
+  onSelectScene: (sceneId: number) => void;
+  onSeek: (time: number) => void;
+  onChange: (scenes: StoryboardScene[], label: string) => void;
+}
+
+/**
+ * Full-width editor for scene boundaries. Drag a handle to retime a cut,
+ * or use the toolbar to split, merge, insert or delete around the selected scene.
+ */
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  scenes, nextSceneId, duration, currentTime, selectedSceneId, onSelectScene, onSeek, onChange,
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ boundaryIndex: number; time: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // While dragging, render the would-be result so the cut follows the pointer
+  const previewScenes = useMemo(
+    () => (drag ? moveBoundary(scenes, drag.boundaryIndex, drag.time, duration || undefined) : scenes),
+    [scenes, drag, duration]
+  );
+  const timings = resolveSceneTimings(previewScenes, duration || undefined);
+  const total = duration || Math.max(0, ...timings.map(t => t.end));
+  if (total <= 0) return null;
+
+  const toPercent = (seconds: number) => `${Math.min(100, (seconds / total) * 100)}%`;
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.min(total, Math.max(0, ((clientX - rect.left) / rect.width) * total));
+  };
+
+  const apply = (label: string, edit: () => StoryboardScene[]) => {
+    try {
+      onChange(edit(), label);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Boundary i sits at the start of scene i, or the end of the last scene for i === N
+  const boundaries = [...timings.map(t => t.start), timings[timings.length - 1].end];
+  const selected = selectedSceneId ?? timings.find(t => currentTime >= t.start && currentTime < t.end)?.sceneId ?? null;
+
+  const handlePointerDown = (boundaryIndex: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ boundaryIndex, time: boundaries[boundaryIndex] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag({ ...drag, time: timeFromPointer(e.clientX) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    // A click on a handle without dragging changes nothing and shouldn't become an undo step
+    const moved = moveBoundary(scenes, drag.boundaryIndex, drag.time, duration || undefined);
+    if (moved.every((scene, i) => scene.timeRange === scenes[i].timeRange)) return;
+    apply('Move scene boundary', () => moved);
+  };
+
+  const toolbarButton = 'flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg border border-gray-700 bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="bg-dark-card border border-gray-700 rounded-xl p-4 mb-8 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="text-xs text-gray-400 font-mono">
+          Playhead {formatTimestamp(currentTime)}
+          {selected !== null && <span className="ml-3 text-brand-neon">Scene {selected} selected</span>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            className={toolbarButton}
+            disabled={selected === null}
+            onClick={() => apply(`Split scene ${selected}`, () => splitScene(scenes, selected!, currentTime, nextSceneId))}
+            title="Split the selected scene at the playhead"
+          >
+            <Scissors className="w-3 h-3" /> Split at Playhead
+          </button>
+          <button
+            className={toolbarButton}
+            disabled={selected === null}
+            onClick={() => apply(`Merge scene ${selected} with next`, () => mergeWithNext(scenes, selected!))}
+            title="Merge the selected scene with the next one"
+          >
+            <Combine className="w-3 h-3" /> Merge with Next
+          </button>
+          <button
+            className={toolbarButton}
+            disabled={selected === null}
+            onClick={() => apply(`Insert scene after ${selected}`, () => insertSceneAfter(scenes, selected!, nextSceneId, duration || undefined))}
+            title="Insert a blank scene after the selected one"
+          >
+            <Plus className="w-3 h-3" /> Insert After
+          </button>
+          <button
+            className={`${toolbarButton} hover:text-red-400`}
+            disabled={selected === null}
+            onClick={() => apply(`Delete scene ${selected}`, () => deleteScene(scenes, selected!))}
+            title="Delete the selected scene"
+          >
+            <Trash2 className="w-3 h-3" /> Delete
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={barRef}
+        className="relative h-14 bg-gray-900 rounded-lg border border-gray-800 select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onClick={e => onSeek(timeFromPointer(e.clientX))}
+      >
+        {timings.map(timing => (
+          <div
+            key={timing.sceneId}
+            onClick={e => {
+              e.stopPropagation();
+              onSelectScene(timing.sceneId);
+              onSeek(timeFromPointer(e.clientX));
+            }}
+            title={`Scene ${timing.sceneId}: ${formatTimeRange(timing.start, timing.end)}`}
+            className={`absolute top-1 bottom-1 rounded flex items-center justify-center text-xs font-mono cursor-pointer transition-colors
+              ${timing.sceneId === selected ? 'bg-brand-500/60 text-white ring-1 ring-brand-neon' : 'bg-brand-900/50 text-gray-300 hover:bg-brand-900/80'}`}
+            style={{ left: toPercent(timing.start), width: `calc(${toPercent(timing.end)} - ${toPercent(timing.start)})` }}
+          >
+            {timing.sceneId}
+          </div>
+        ))}
+
+        {boundaries.map((time, i) => (
+          <div
+            key={i}
+            onPointerDown={handlePointerDown(i)}
+            onClick={e => e.stopPropagation()}
+            className={`absolute top-0 bottom-0 w-2 -ml-1 cursor-ew-resize z-10 group/handle`}
+            style={{ left: toPercent(time) }}
+            title={formatTimestamp(time)}
+          >
+            <div className={`mx-auto h-full w-0.5 ${drag?.boundaryIndex === i ? 'bg-brand-neon' : 'bg-gray-500 group-hover/handle:bg-white'}`} />
+          </div>
+        ))}
+
+        <div className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none z-20" style={{ left: toPercent(currentTime) }} />
+      </div>
+
+      {drag && (
+        <div className="text-xs text-brand-neon font-mono mt-2">Cut at {formatTimestamp(drag.time)}</div>
+      )}
+      {error && (
+        <div className="mt-3 text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 flex items-center gap-2">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Dices } from 'lucide-react';
+import { VideoGenerationSettings, VideoModelVariant, VideoResolution } from '../types';
+import { VIDEO_MODELS, VIDEO_RESOLUTIONS, VIDEO_DURATIONS, MAX_VIDEOS_PER_REQUEST } from '../services/videoSettings';
+
+interface VideoSettingsPanelProps {
+  settings: VideoGenerationSettings;
+  onChange: (settings: VideoGenerationSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50';
+
+/**
+ * Model variant, resolution, length, seed and the rest of the advanced Veo parameters.
+ */
+export const VideoSettingsPanel: React.FC<VideoSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<VideoGenerationSettings>) => onChange({ ...settings, ...patch });
+  const is1080p = settings.resolution === '1080p';
+
+  const handleSeedChange = (value: string) => {
+    if (value.trim() === '') {
+      update({ seed: null });
+      return;
+    }
+    const seed = Number(value);
+    // Keep the last valid seed rather than storing NaN or Infinity
+    if (!Number.isFinite(seed)) return;
+    update({ seed: Math.max(0, Math.floor(seed)) });
+  };
+
+  return (
+    <div className="bg-black/30 rounded-lg p-3 border border-gray-800 space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded border border-gray-700 overflow-hidden">
+          {(Object.keys(VIDEO_MODELS) as VideoModelVariant[]).map(variant => (
+            <button
+              key={variant}
+              onClick={() => update({ model: variant })}
+              disabled={disabled}
+              title={VIDEO_MODELS[variant].description}
+              className={`px-3 py-1.5 transition-colors ${settings.model === variant ? 'bg-brand-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              {VIDEO_MODELS[variant].label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-gray-400">
+          Resolution
+          <select
+            value={settings.resolution}
+            onChange={e => {
+              const resolution = e.target.value as VideoResolution;
+              // Veo only renders 1080p as 8-second clips
+              update(resolution === '1080p' ? { resolution, durationSeconds: 8 } : { resolution });
+            }}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {VIDEO_RESOLUTIONS.map(resolution => <option key={resolution} value={resolution}>{resolution}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400" title={is1080p ? '1080p clips are always 8 seconds' : undefined}>
+          Length
+          <select
+            value={settings.durationSeconds}
+            onChange={e => update({ durationSeconds: Number(e.target.value) })}
+            disabled={disabled || is1080p}
+            className={selectClass}
+          >
+            {VIDEO_DURATIONS.map(seconds => <option key={seconds} value={seconds}>{seconds}s</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400" title="Each video becomes its own take">
+          Videos
+          <select
+            value={settings.numberOfVideos}
+            onChange={e => update({ numberOfVideos: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {Array.from({ length: MAX_VIDEOS_PER_REQUEST }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-gray-400">
+          Seed
+          <input
+            type="number" min={0} step={1}
+            value={settings.seed ?? ''}
+            placeholder="Random"
+            onChange={e => handleSeedChange(e.target.value)}
+            disabled={disabled}
+            className="w-28 bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+          />
+          <button
+            onClick={() => update({ seed: Math.floor(Math.random() * 2 ** 32) })}
+            disabled={disabled}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-800"
+            title="Pick a seed, so this take can be reproduced"
+          >
+            <Dices className="w-3.5 h-3.5" />
+          </button>
+        </label>
+        <label className="flex flex-1 min-w-[12rem] items-center gap-2 text-gray-400">
+          Avoid
+          <input
+            type="text"
+            value={settings.negativePrompt}
+            placeholder="Negative prompt, e.g. text, watermarks, extra fingers"
+            onChange={e => update({ negativePrompt: e.target.value })}
+            disabled={disabled}
+            className="flex-1 bg-black/50 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
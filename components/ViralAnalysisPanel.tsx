@@ -0,0 +1,100 @@
+import React from 'react';
+import { Zap, Gauge, Activity, Heart, MousePointerClick, Music, LayoutTemplate } from 'lucide-react';
+import { ViralAnalysis, SceneTiming } from '../types';
+import { computePacing, describePacing } from '../services/viralAnalysis';
+import { parseTimestamp } from '../services/timeRange';
+
+interface ViralAnalysisPanelProps {
+  analysis?: ViralAnalysis;
+  timings: SceneTiming[];
+  onSeek?: (time: number) => void; // set when a reference video is loaded
+}
+
+const Card: React.FC<{ icon: React.ElementType; title: string; className?: string; children: React.ReactNode }> = ({ icon: Icon, title, className = '', children }) => (
+  <div className={`bg-dark-card border border-gray-700/50 rounded-lg p-4 ${className}`}>
+    <div className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+      <Icon className="w-4 h-4 text-brand-500" /> {title}
+    </div>
+    <div className="text-sm text-gray-300 leading-relaxed">{children}</div>
+  </div>
+);
+
+/**
+ * The "success formula" at a glance: hook, pacing, pattern interrupts, emotional
+ * arc, CTA, audio and format. Pacing is measured from the storyboard, so it
+ * follows timeline edits; everything else comes from the model.
+ */
+export const ViralAnalysisPanel: React.FC<ViralAnalysisPanelProps> = ({ analysis, timings, onSeek }) => {
+  const pacing = computePacing(timings);
+  if (!analysis && !pacing) return null;
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-xl font-semibold text-white flex items-center gap-2 mb-4">
+        <span className="w-2 h-8 bg-brand-500 rounded-full"></span>
+        Hook & Retention
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {analysis && (
+          <Card icon={Zap} title="Hook (First 3 Seconds)" className="md:col-span-2">
+            <span className="inline-block text-xs bg-brand-500/20 text-brand-300 px-2 py-0.5 rounded-full mb-2">{analysis.hookType || 'Unclassified'}</span>
+            <p>{analysis.hookBreakdown}</p>
+          </Card>
+        )}
+        {pacing && (
+          <Card icon={Gauge} title="Pacing">
+            <div className="text-lg font-bold text-white">{describePacing(pacing)}</div>
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1 mt-2 text-xs">
+              <dt className="text-gray-500">Avg. shot</dt>
+              <dd className="font-mono">{pacing.averageShotSeconds.toFixed(1)}s</dd>
+              <dt className="text-gray-500">Cuts / sec</dt>
+              <dd className="font-mono">{pacing.cutsPerSecond.toFixed(2)}</dd>
+              <dt className="text-gray-500">Shortest / longest</dt>
+              <dd className="font-mono">{pacing.shortestShotSeconds.toFixed(1)}s / {pacing.longestShotSeconds.toFixed(1)}s</dd>
+              <dt className="text-gray-500">Scenes</dt>
+              <dd className="font-mono">{pacing.sceneCount} over {pacing.totalSeconds.toFixed(1)}s</dd>
+            </dl>
+          </Card>
+        )}
+        {analysis && (
+          <>
+            <Card icon={Activity} title="Pattern Interrupts">
+              {analysis.patternInterrupts.length === 0 ? (
+                <p className="text-gray-500">None identified.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {analysis.patternInterrupts.map((interrupt, i) => {
+                    const time = parseTimestamp(interrupt.time);
+                    return (
+                      <li key={i} className="flex gap-2">
+                        {onSeek && time !== null ? (
+                          <button
+                            onClick={() => onSeek(time)}
+                            className="font-mono text-xs text-brand-neon hover:underline shrink-0"
+                            title="Jump to this moment"
+                          >
+                            {interrupt.time}
+                          </button>
+                        ) : (
+                          <span className="font-mono text-xs text-gray-500 shrink-0">{interrupt.time}</span>
+                        )}
+                        <span>{interrupt.description}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </Card>
+            <Card icon={Heart} title="Emotional Arc">{analysis.emotionalArc}</Card>
+            <Card icon={MousePointerClick} title="Call to Action">{analysis.ctaPlacement}</Card>
+            <Card icon={Music} title="Audio">{analysis.audioNotes}</Card>
+            <Card icon={LayoutTemplate} title="Format" className="md:col-span-2">{analysis.formatNotes}</Card>
+          </>
+        )}
+      </div>
+      {!analysis && (
+        <p className="text-xs text-gray-500 mt-3">No hook and retention notes for this storyboard. Re-analyze the video to get them.</p>
+      )}
+    </div>
+  );
+};
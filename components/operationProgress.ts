@@ -0,0 +1,36 @@
+import type { OperationProgress } from '../services/providers';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * One-line, human-readable description of a provider progress report.
+ */
+export const describeProgress = (progress: OperationProgress): string => {
+  switch (progress.stage) {
+    case 'hashing':
+      return 'Fingerprinting video';
+    case 'uploading':
+      return `Uploading ${Math.floor((getProgressFraction(progress) ?? 0) * 100)}% (${formatMegabytes(progress.loadedBytes)} of ${formatMegabytes(progress.totalBytes)})`;
+    case 'processing':
+      return progress.state === 'ACTIVE' ? 'Video processed' : `Processing video (${progress.state?.toLowerCase() ?? 'pending'})`;
+    case 'analyzing':
+      return 'Decomposing scenes & identifying camera angles';
+    case 'generating':
+      return `Rendering${progress.state ? ` (${progress.state.toLowerCase()})` : ''} · ${formatElapsed(progress.elapsedMs)}`;
+    case 'downloading':
+      return 'Downloading clip';
+  }
+};
+
+/**
+ * Completed fraction in [0, 1] when the stage has a measurable size, otherwise null.
+ */
+export const getProgressFraction = (progress: OperationProgress): number | null =>
+  progress.stage === 'uploading' && progress.totalBytes > 0
+    ? Math.min(1, progress.loadedBytes / progress.totalBytes)
+    : null;
@@ -0,0 +1,10 @@
+import { SceneTextField } from '../types';
+
+// Display order and labels for the model-written text of a scene
+export const SCENE_TEXT_FIELDS: { key: SceneTextField; label: string }[] = [
+  { key: 'visualDescription', label: 'Visual Action' },
+  { key: 'cameraMovement', label: 'Camera' },
+  { key: 'aiImagePrompt', label: 'Image Prompt' },
+  { key: 'aiVideoPrompt', label: 'Video Prompt' },
+  { key: 'voiceoverScript', label: 'Script' },
+];
@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryEntry<T> {
+  label: string;
+  state: T;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+/**
+ * Snapshot-based undo/redo. Every `commit` records the new state under a short
+ * label ("Edit scene 2") so the UI can say what undo/redo will do.
+ */
+export const useEditHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: { label: 'Initial', state: initial },
+    future: [],
+  });
+
+  const commit = useCallback((label: string, update: T | ((prev: T) => T)) => {
+    setHistory(prev => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(prev.present.state) : update;
+      if (next === prev.present.state) return prev;
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: { label, state: next },
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Drops all history, e.g. when a different storyboard is loaded
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], present: { label: 'Initial', state }, future: [] });
+  }, []);
+
+  return {
+    state: history.present.state,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    // The step undo would revert, and the step redo would re-apply
+    undoLabel: history.past.length > 0 ? history.present.label : null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+};
@@ -0,0 +1,165 @@
+// Local stand-in for the Gemini File API resumable upload endpoints, for
+// exercising chunked uploads, resume and retry without a network or API key.
+//
+//   npm run upload-standin -- [--port 8787] [--fail-every N] [--drop-after BYTES]
+//
+// Then set GEMINI_API_BASE_URL=http://localhost:8787 in .env.local and upload
+// a video larger than 10 MB. Options:
+//   --fail-every N     answer every Nth chunk with a 503 (nothing is stored)
+//   --drop-after BYTES on the first chunk that crosses BYTES, keep the bytes up to
+//                      that point and then kill the connection, like a flaky network
+//
+// Files are kept in memory and reported as ACTIVE straight away.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] !== undefined ? Number(args[index + 1]) : fallback;
+};
+
+const port = option('port', 8787);
+const failEvery = option('fail-every', 0);
+let dropAfter = option('drop-after', 0);
+
+const sessions = new Map(); // id -> { name, size, mimeType, received, chunks: Buffer[], final }
+const files = new Map(); // id -> file resource
+let chunkCount = 0;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'X-Goog-Upload-URL, X-Goog-Upload-Status, X-Goog-Upload-Size-Received',
+};
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, ...headers });
+  res.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const parts = [];
+    req.on('data', part => parts.push(part));
+    req.on('end', () => resolve(Buffer.concat(parts)));
+    req.on('error', reject);
+  });
+
+const handleStart = async (req, res) => {
+  const body = JSON.parse((await readBody(req)).toString() || '{}');
+  const id = randomUUID().slice(0, 12);
+  sessions.set(id, {
+    name: body.file?.display_name ?? id,
+    size: Number(req.headers['x-goog-upload-header-content-length'] ?? 0),
+    mimeType: req.headers['x-goog-upload-header-content-type'] ?? 'application/octet-stream',
+    received: 0,
+    chunks: [],
+    final: false,
+  });
+  console.log(`[start] session ${id} for ${body.file?.display_name} (${req.headers['x-goog-upload-header-content-length']} bytes)`);
+  send(res, 200, {
+    'X-Goog-Upload-URL': `http://localhost:${port}/upload/session/${id}`,
+    'X-Goog-Upload-Status': 'active',
+  });
+};
+
+const handleSession = async (req, res, id) => {
+  const session = sessions.get(id);
+  if (!session) return send(res, 404, {}, { error: { message: 'Unknown upload session' } });
+
+  const command = String(req.headers['x-goog-upload-command'] ?? '');
+  if (command === 'query') {
+    console.log(`[query] ${id}: ${session.received} bytes received`);
+    return send(res, 200, {
+      'X-Goog-Upload-Status': session.final ? 'final' : 'active',
+      'X-Goog-Upload-Size-Received': String(session.received),
+    });
+  }
+
+  const offset = Number(req.headers['x-goog-upload-offset']);
+  const chunkNumber = ++chunkCount;
+
+  if (failEvery && chunkNumber % failEvery === 0) {
+    await readBody(req);
+    console.log(`[upload] ${id}: injected 503 on chunk #${chunkNumber}`);
+    return send(res, 503, {}, { error: { message: 'Injected failure' } });
+  }
+
+  const length = Number(req.headers['content-length'] ?? 0);
+  if (dropAfter && offset === session.received && offset < dropAfter && offset + length > dropAfter) {
+    // Keep what arrived up to the threshold, then drop the socket mid-request
+    const keep = dropAfter - session.received;
+    let kept = 0;
+    req.on('data', part => {
+      if (kept >= keep) return;
+      const slice = part.subarray(0, keep - kept);
+      session.chunks.push(slice);
+      session.received += slice.length;
+      kept += slice.length;
+      if (kept >= keep) {
+        console.log(`[upload] ${id}: dropping connection at ${session.received} bytes`);
+        dropAfter = 0;
+        req.socket.destroy();
+      }
+    });
+    return;
+  }
+
+  const body = await readBody(req);
+  if (offset !== session.received) {
+    console.log(`[upload] ${id}: offset ${offset} does not match ${session.received}`);
+    return send(res, 400, {}, { error: { message: `Offset mismatch: expected ${session.received}, got ${offset}` } });
+  }
+
+  session.chunks.push(body);
+  session.received += body.length;
+  console.log(`[upload] ${id}: chunk #${chunkNumber} ${offset}-${session.received} (${command})`);
+
+  if (!command.includes('finalize')) {
+    return send(res, 200, { 'X-Goog-Upload-Status': 'active' });
+  }
+
+  if (session.received !== session.size) {
+    return send(res, 400, {}, { error: { message: `Size mismatch: declared ${session.size}, received ${session.received}` } });
+  }
+  session.final = true;
+  const file = {
+    name: `files/${id}`,
+    displayName: session.name,
+    mimeType: session.mimeType,
+    sizeBytes: String(session.received),
+    uri: `http://localhost:${port}/v1beta/files/${id}`,
+    state: 'ACTIVE',
+  };
+  files.set(id, file);
+  console.log(`[finalize] ${id}: ${session.received} bytes`);
+  send(res, 200, { 'X-Goog-Upload-Status': 'final', 'Content-Type': 'application/json' }, { file });
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const { pathname } = new URL(req.url ?? '/', `http://localhost:${port}`);
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'POST' && pathname === '/upload/v1beta/files') return await handleStart(req, res);
+
+    const sessionMatch = pathname.match(/^\/upload\/session\/([\w-]+)$/);
+    if (sessionMatch) return await handleSession(req, res, sessionMatch[1]);
+
+    const fileMatch = pathname.match(/^\/v1beta\/files\/([\w-]+)$/);
+    if (req.method === 'GET' && fileMatch) {
+      const file = files.get(fileMatch[1]);
+      return file ? send(res, 200, { 'Content-Type': 'application/json' }, file) : send(res, 404, {}, { error: { message: 'File not found' } });
+    }
+
+    send(res, 404, {}, { error: { message: `No stand-in for ${req.method} ${pathname}` } });
+  } catch (err) {
+    console.error(err);
+    send(res, 500, {}, { error: { message: String(err) } });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Resumable upload stand-in listening on http://localhost:${port}`);
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { AnalysisPreset } from '../types';
+import { renderPromptTemplate, buildAnalysisPrompt, getPresetVersion, createPresetDraft, DEFAULT_PRESET } from './analysisPresets';
+
+const preset = (changes: Partial<AnalysisPreset> = {}): AnalysisPreset => ({
+  ...DEFAULT_PRESET,
+  promptTemplate: 'Split into {{sceneGuidance}} ({{sceneCount}}, {{granularity}}) in {{language}}.',
+  builtIn: false,
+  ...changes,
+});
+
+describe('renderPromptTemplate', () => {
+  it('fills known placeholders, tolerating spaces inside the braces', () => {
+    expect(renderPromptTemplate('Hi {{name}}, {{ name }}!', { name: 'Ada' })).toBe('Hi Ada, Ada!');
+  });
+
+  it('leaves unknown placeholders as written so typos stay visible', () => {
+    expect(renderPromptTemplate('Use {{langauge}}', { language: 'French' })).toBe('Use {{langauge}}');
+  });
+});
+
+describe('buildAnalysisPrompt', () => {
+  it('describes the scene split from the granularity', () => {
+    expect(buildAnalysisPrompt(preset({ granularity: 'fine', targetSceneCount: null, outputLanguage: 'German' })))
+      .toBe('Split into fine-grained storyboard scenes, one per shot or cut (as many as needed, fine) in German.');
+  });
+
+  it('prefers a target scene count and falls back to English for a blank language', () => {
+    expect(buildAnalysisPrompt(preset({ granularity: 'coarse', targetSceneCount: 6, outputLanguage: '  ' })))
+      .toBe('Split into about 6 storyboard scenes (6, coarse) in English.');
+  });
+
+  it('leaves no placeholders in the built-in presets', () => {
+    expect(buildAnalysisPrompt(DEFAULT_PRESET)).not.toMatch(/\{\{/);
+  });
+});
+
+describe('getPresetVersion', () => {
+  it('is stable for the same settings and prefixed with the preset id', () => {
+    expect(getPresetVersion(preset())).toBe(getPresetVersion(preset()));
+    expect(getPresetVersion(preset())).toMatch(new RegExp(`^${DEFAULT_PRESET.id}@`));
+  });
+
+  it('changes with anything that affects the output, but not with the name', () => {
+    const base = getPresetVersion(preset());
+    expect(getPresetVersion(preset({ promptTemplate: 'Other' }))).not.toBe(base);
+    expect(getPresetVersion(preset({ model: 'gemini-2.5-pro' }))).not.toBe(base);
+    expect(getPresetVersion(preset({ temperature: 0.2 }))).not.toBe(base);
+    expect(getPresetVersion(preset({ outputLanguage: 'Spanish' }))).not.toBe(base);
+    expect(getPresetVersion(preset({ name: 'Renamed', description: 'New' }))).toBe(base);
+  });
+});
+
+describe('createPresetDraft', () => {
+  it('copies a built-in preset as a new editable one', () => {
+    const draft = createPresetDraft(DEFAULT_PRESET);
+    expect(draft.id).not.toBe(DEFAULT_PRESET.id);
+    expect(draft).toMatchObject({ name: `${DEFAULT_PRESET.name} (Custom)`, builtIn: false, model: DEFAULT_PRESET.model });
+    expect(createPresetDraft(preset({ name: 'Mine' })).name).toBe('Mine (Copy)');
+  });
+});
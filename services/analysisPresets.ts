@@ -0,0 +1,165 @@
+import { AnalysisPreset, SceneGranularity } from "../types";
+
+export const ANALYSIS_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+export const DEFAULT_PRESET_ID = 'director';
+
+// Shown next to the template editor so users know what they can reference
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'sceneGuidance', description: 'How finely to split the video, from granularity or target scene count' },
+  { name: 'sceneCount', description: 'The target scene count, or "as many as needed"' },
+  { name: 'granularity', description: 'coarse, balanced or fine' },
+  { name: 'language', description: 'Language every text field should be written in' },
+];
+
+const SCENE_FIELDS_INSTRUCTIONS = `For each scene, provide:
+1. A precise visual description.
+2. Camera movement analysis.
+3. A high-quality AI Image Generation prompt (optimized for photorealism or the specific style of the video).
+4. A high-quality AI Video Generation prompt (optimized for motion dynamics).
+5. Any spoken voiceover, word for word.
+6. Every piece of on-screen text: the exact text, when it appears and disappears (seconds from the scene start), its position, font style, weight, colour and entry animation (pop-in, typewriter, ...).
+7. The audio: music mood and estimated BPM, sound effect cues, whether the cuts land on the beat, who is speaking, or deliberate silence.
+8. Variants of the image and video prompts in the syntax of each target tool (Midjourney, Stable Diffusion, Runway, Luma, Veo).`;
+
+const OUTPUT_INSTRUCTIONS = `Also fill in viralAnalysis: the hook type and what happens in the first 3 seconds, every pattern interrupt
+with its timestamp, the emotional arc, where the call to action lands, the audio (trending sound, music, voice) and format notes.
+
+Write every description, prompt and script in {{language}}.
+Return the result in JSON format matching the schema provided.`;
+
+export const BUILT_IN_PRESETS: AnalysisPreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: 'Director (General)',
+    description: 'All-round breakdown of style, camera work and hook.',
+    promptTemplate: `You are an expert video director and AI content strategist.
+Analyze the uploaded video file to reverse-engineer its success formula.
+
+Break down the video into {{sceneGuidance}}. ${SCENE_FIELDS_INSTRUCTIONS}
+
+${OUTPUT_INSTRUCTIONS}`,
+    model: 'gemini-2.5-flash',
+    temperature: 0.4,
+    granularity: 'balanced',
+    targetSceneCount: null,
+    outputLanguage: 'English',
+    builtIn: true,
+  },
+  {
+    id: 'product-ad',
+    name: 'Product Ad',
+    description: 'Hero shots, product reveals, lighting and the call to action.',
+    promptTemplate: `You are a commercial director who specialises in short-form product advertising.
+Analyze the uploaded ad and reverse-engineer how it sells the product.
+
+Break the video into {{sceneGuidance}}. Pay close attention to how the product is revealed and framed,
+the lighting and surfaces it sits on, macro and hero shots, packaging, on-screen claims and the final call to action.
+${SCENE_FIELDS_INSTRUCTIONS}
+Image and video prompts should describe the product generically so it can be swapped for another one.
+
+${OUTPUT_INSTRUCTIONS}`,
+    model: 'gemini-2.5-flash',
+    temperature: 0.4,
+    granularity: 'fine',
+    targetSceneCount: null,
+    outputLanguage: 'English',
+    builtIn: true,
+  },
+  {
+    id: 'talking-head',
+    name: 'Talking-Head Short',
+    description: 'Framing, cutaways, captions and the spoken script.',
+    promptTemplate: `You are an editor for creator-led talking-head shorts.
+Analyze the uploaded video and reverse-engineer what keeps viewers watching.
+
+Break the video into {{sceneGuidance}}, starting a new scene at every cut, zoom punch-in or B-roll cutaway.
+Capture the speaker's framing, background and delivery, and transcribe the spoken words and on-screen captions faithfully.
+${SCENE_FIELDS_INSTRUCTIONS}
+
+${OUTPUT_INSTRUCTIONS}`,
+    model: 'gemini-2.5-flash',
+    temperature: 0.3,
+    granularity: 'balanced',
+    targetSceneCount: null,
+    outputLanguage: 'English',
+    builtIn: true,
+  },
+  {
+    id: 'dance-trend',
+    name: 'Dance Trend',
+    description: 'Choreography beats, moves and music-synced camera work.',
+    promptTemplate: `You are a choreographer and music-video director.
+Analyze the uploaded dance video and reverse-engineer the trend so it can be recreated.
+
+Break the video into {{sceneGuidance}}, aligned to the beats and phrases of the music.
+Describe each move precisely (body parts, direction, tempo), the dancers' formation and outfits,
+and how the camera moves with the music.
+${SCENE_FIELDS_INSTRUCTIONS}
+Video prompts should focus on the exact motion of the dancers.
+
+${OUTPUT_INSTRUCTIONS}`,
+    model: 'gemini-2.5-flash',
+    temperature: 0.5,
+    granularity: 'fine',
+    targetSceneCount: null,
+    outputLanguage: 'English',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PRESET = BUILT_IN_PRESETS[0];
+
+const GRANULARITY_GUIDANCE: Record<SceneGranularity, string> = {
+  coarse: 'a few broad storyboard scenes, one per major beat of the video',
+  balanced: 'key storyboard scenes',
+  fine: 'fine-grained storyboard scenes, one per shot or cut',
+};
+
+/**
+ * Replaces `{{name}}` placeholders. Unknown names are left as written so a
+ * typo is visible in the prompt rather than silently dropped.
+ */
+export const renderPromptTemplate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+
+/**
+ * The final analysis prompt for a preset, with all of its settings filled in.
+ */
+export const buildAnalysisPrompt = (preset: AnalysisPreset): string => {
+  const count = preset.targetSceneCount;
+  return renderPromptTemplate(preset.promptTemplate, {
+    sceneGuidance: count ? `about ${count} storyboard scenes` : GRANULARITY_GUIDANCE[preset.granularity],
+    sceneCount: count ? String(count) : 'as many as needed',
+    granularity: preset.granularity,
+    language: preset.outputLanguage.trim() || 'English',
+  });
+};
+
+/**
+ * Stable fingerprint of everything that affects a preset's output, so cached
+ * analyses are ignored once a custom preset is edited.
+ */
+export const getPresetVersion = (preset: AnalysisPreset): string => {
+  const content = JSON.stringify([
+    preset.promptTemplate, preset.model, preset.temperature, preset.granularity, preset.targetSceneCount, preset.outputLanguage,
+  ]);
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    hash = (hash * 31 + content.charCodeAt(i)) | 0;
+  }
+  return `${preset.id}@${(hash >>> 0).toString(36)}`;
+};
+
+/**
+ * A fresh editable preset, optionally seeded from an existing one.
+ */
+export const createPresetDraft = (base: AnalysisPreset = DEFAULT_PRESET): AnalysisPreset => ({
+  ...base,
+  id: typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  name: base.builtIn ? `${base.name} (Custom)` : `${base.name} (Copy)`,
+  builtIn: false,
+  updatedAt: Date.now(),
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { parseLenientJson, normalizeAnalysisResult, parseAnalysisText } from './analysisRepair';
+import { InvalidResponseError } from './errors';
+
+const rawScene = (id: number, timeRange: string, text = `Scene ${id}`) => ({
+  id, timeRange, visualDescription: text, cameraMovement: 'Static', aiImagePrompt: text, aiVideoPrompt: text,
+});
+
+describe('parseLenientJson', () => {
+  it('strips code fences', () => {
+    expect(parseLenientJson('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 }, repaired: false });
+  });
+
+  it('closes off output that was cut off mid-string', () => {
+    expect(parseLenientJson('{"scenes": [{"id": 1, "text": "hal')).toEqual({
+      value: { scenes: [{ id: 1, text: 'hal' }] },
+      repaired: true,
+    });
+  });
+
+  it('cuts back to the last complete element when closing is not enough', () => {
+    expect(parseLenientJson('{"scenes": [1, 2, {"id": 3, "text":')).toEqual({
+      value: { scenes: [1, 2, { id: 3 }] },
+      repaired: true,
+    });
+  });
+
+  it('gives up on text that is broken rather than truncated', () => {
+    expect(parseLenientJson('{"a": 1}}')).toBeNull();
+  });
+});
+
+describe('normalizeAnalysisResult', () => {
+  it('fills empty prompts and drops scenes without any text', () => {
+    const { result, warnings } = normalizeAnalysisResult({
+      title: 'T',
+      summary: 'S',
+      scenes: [
+        { ...rawScene(1, '00:00 - 00:02'), aiImagePrompt: '' },
+        { id: 2, timeRange: '00:02 - 00:04' },
+      ],
+    });
+    expect(result.scenes).toHaveLength(1);
+    expect(result.scenes[0].aiImagePrompt).toBe('Scene 1');
+    expect(warnings).toEqual(expect.arrayContaining([
+      expect.stringMatching(/Scene 1 had an empty image prompt/),
+      expect.stringMatching(/Scene 2 had no description/),
+    ]));
+  });
+
+  it('sorts scenes by start time and renumbers ids', () => {
+    const { result, warnings } = normalizeAnalysisResult({
+      title: 'T',
+      summary: 'S',
+      scenes: [rawScene(7, '00:03 - 00:06', 'later'), rawScene(7, '00:00 - 00:03', 'first')],
+    });
+    expect(result.scenes.map(s => [s.id, s.visualDescription])).toEqual([[1, 'first'], [2, 'later']]);
+    expect(warnings).toEqual(expect.arrayContaining([
+      expect.stringMatching(/reordered/),
+      expect.stringMatching(/renumbered/),
+    ]));
+  });
+
+  it('starts a scene that runs past its predecessor where that one ends', () => {
+    const { result } = normalizeAnalysisResult({
+      title: 'T',
+      summary: 'S',
+      scenes: [rawScene(1, '00:00 - 00:04'), rawScene(2, '00:03 - 00:06')],
+    });
+    expect(result.scenes.map(s => s.timeRange)).toEqual(['00:00 - 00:04', '00:04 - 00:06']);
+  });
+
+  it('cuts a predecessor short when a scene is nested inside it', () => {
+    const { result } = normalizeAnalysisResult({
+      title: 'T',
+      summary: 'S',
+      scenes: [rawScene(1, '00:00 - 00:06'), rawScene(2, '00:02 - 00:04')],
+    });
+    expect(result.scenes.map(s => s.timeRange)).toEqual(['00:00 - 00:02', '00:02 - 00:04']);
+  });
+
+  it('folds a scene sharing its predecessor start into it instead of moving it', () => {
+    const { result, warnings } = normalizeAnalysisResult({
+      title: 'T',
+      summary: 'S',
+      scenes: [
+        { ...rawScene(1, '00:00 - 00:04'), voiceoverScript: 'Hello.' },
+        { ...rawScene(2, '00:00 - 00:02'), voiceoverScript: 'World.' },
+        rawScene(3, '00:04 - 00:06'),
+      ],
+    });
+    expect(result.scenes.map(s => [s.id, s.timeRange])).toEqual([[1, '00:00 - 00:04'], [2, '00:04 - 00:06']]);
+    expect(result.scenes[0].voiceoverScript).toBe('Hello. World.');
+    expect(warnings).toEqual(expect.arrayContaining([expect.stringMatching(/Scene 2 repeated the footage of scene 1/)]));
+  });
+
+  it('throws when there is nothing to salvage', () => {
+    expect(() => normalizeAnalysisResult([])).toThrow(InvalidResponseError);
+    expect(() => normalizeAnalysisResult({ title: 'T' })).toThrow(InvalidResponseError);
+    expect(() => normalizeAnalysisResult({ title: 'T', scenes: [{ id: 1 }] })).toThrow(InvalidResponseError);
+  });
+});
+
+describe('parseAnalysisText', () => {
+  it('lists the truncation first among the warnings', () => {
+    const text = JSON.stringify({ title: 'T', summary: 'S', scenes: [rawScene(1, '00:00 - 00:02')] });
+    const result = parseAnalysisText(text.slice(0, -3));
+    expect(result.warnings?.[0]).toMatch(/cut off/);
+  });
+
+  it('throws InvalidResponseError for unrecoverable text', () => {
+    expect(() => parseAnalysisText('not json')).toThrow(InvalidResponseError);
+  });
+});
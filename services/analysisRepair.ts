@@ -0,0 +1,222 @@
+import { AnalysisResult, StoryboardScene } from "../types";
+import { analysisSchema, validateAgainstSchema } from "./analysisSchema";
+import { parseTimeRange, formatTimeRange, formatTimestamp } from "./timeRange";
+import { InvalidResponseError } from "./errors";
+import { readPromptVariants } from "./promptDialects";
+import { readViralAnalysis } from "./viralAnalysis";
+import { readSceneAudio } from "./sceneAudio";
+import { readTextOverlays } from "./textOverlays";
+
+// How many cut points (commas) to try when closing off truncated JSON
+const MAX_REPAIR_ATTEMPTS = 200;
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const closersFor = (stack: string[]) => stack.map(open => CLOSERS[open]).reverse().join('');
+
+const tryParse = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses model output as JSON, tolerating markdown code fences and output that
+ * was cut off mid-way (e.g. on the token limit). Truncated text is closed off
+ * as-is first, then cut back one element at a time until it parses.
+ * Returns null when nothing usable can be recovered.
+ */
+export const parseLenientJson = (raw: string): { value: unknown; repaired: boolean } | null => {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const direct = tryParse(text);
+  if (direct) return { value: direct.value, repaired: false };
+
+  // Track open containers and every comma outside a string; each comma is a
+  // point where the value before it is complete
+  const stack: string[] = [];
+  const cuts: { index: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch);
+    else if (ch === '}' || ch === ']') stack.pop();
+    else if (ch === ',') cuts.push({ index: i, closers: closersFor(stack) });
+  }
+  if (stack.length === 0 && !inString) return null; // Not truncated, just broken
+
+  let tail = text;
+  if (inString) tail = (escaped ? tail.slice(0, -1) : tail) + '"';
+  const candidates = [tail.replace(/[\s,:]*$/, '') + closersFor(stack)];
+  cuts.slice(-MAX_REPAIR_ATTEMPTS).reverse().forEach(cut => candidates.push(text.slice(0, cut.index) + cut.closers));
+
+  for (const candidate of candidates) {
+    const parsed = tryParse(candidate);
+    if (parsed) return { value: parsed.value, repaired: true };
+  }
+  return null;
+};
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+interface DraftScene {
+  scene: StoryboardScene;
+  position: number; // 1-based position in the model's output, for warnings
+  range: { start: number; end: number } | null;
+}
+
+/**
+ * Brings an analysis that roughly follows `analysisSchema` into shape:
+ * coerces field types, fills empty prompts from the scene's other text, drops
+ * scenes with no text at all, sorts scenes by start time, removes overlaps and
+ * renumbers ids 1..n. Every change is reported in `warnings`. Throws
+ * InvalidResponseError when there is no usable storyboard to salvage.
+ */
+export const normalizeAnalysisResult = (value: unknown): { result: AnalysisResult; warnings: string[] } => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidResponseError("The model's response is not a storyboard object.");
+  }
+  const record = value as Record<string, unknown>;
+  if (!Array.isArray(record.scenes)) {
+    throw new InvalidResponseError("The model's response has no list of scenes.");
+  }
+
+  const warnings: string[] = [];
+  let title = asText(record.title);
+  if (!title) {
+    title = 'Untitled Analysis';
+    warnings.push("The model returned no title.");
+  }
+  const summary = asText(record.summary);
+  if (!summary) warnings.push("The model returned no summary.");
+
+  const drafts: DraftScene[] = [];
+  record.scenes.forEach((raw, i) => {
+    const position = i + 1;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      warnings.push(`Scene ${position} was not an object and was dropped.`);
+      return;
+    }
+    const fields = raw as Record<string, unknown>;
+    const visualDescription = asText(fields.visualDescription);
+    const aiImagePrompt = asText(fields.aiImagePrompt);
+    const aiVideoPrompt = asText(fields.aiVideoPrompt);
+    if (!visualDescription && !aiImagePrompt && !aiVideoPrompt) {
+      warnings.push(`Scene ${position} had no description or prompts and was dropped.`);
+      return;
+    }
+    if (!aiImagePrompt) warnings.push(`Scene ${position} had an empty image prompt; it was filled from the scene's other text.`);
+    if (!aiVideoPrompt) warnings.push(`Scene ${position} had an empty video prompt; it was filled from the scene's other text.`);
+
+    const timeRange = asText(fields.timeRange);
+    const voiceoverScript = asText(fields.voiceoverScript);
+    const finalImagePrompt = aiImagePrompt || visualDescription || aiVideoPrompt;
+    const finalVideoPrompt = aiVideoPrompt || visualDescription || aiImagePrompt;
+    const textOverlays = readTextOverlays(fields.textOverlays);
+    const audio = readSceneAudio(fields.audio);
+    const promptVariants = readPromptVariants(fields.promptVariants, finalImagePrompt, finalVideoPrompt);
+    drafts.push({
+      position,
+      range: parseTimeRange(timeRange),
+      scene: {
+        id: typeof fields.id === 'number' ? fields.id : NaN,
+        timeRange,
+        visualDescription: visualDescription || aiVideoPrompt || aiImagePrompt,
+        cameraMovement: asText(fields.cameraMovement),
+        aiImagePrompt: finalImagePrompt,
+        aiVideoPrompt: finalVideoPrompt,
+        ...(voiceoverScript ? { voiceoverScript } : {}),
+        ...(textOverlays ? { textOverlays } : {}),
+        ...(audio ? { audio } : {}),
+        ...(promptVariants ? { promptVariants } : {}),
+      },
+    });
+  });
+
+  if (drafts.length === 0) {
+    throw new InvalidResponseError("The model's response contains no usable scenes.");
+  }
+
+  // Sort by start time; scenes with unreadable ranges stay right after their predecessor
+  let lastStart = 0;
+  const sortKeys = drafts.map(draft => (lastStart = draft.range?.start ?? lastStart));
+  const sorted = drafts
+    .map((draft, i) => ({ draft, key: sortKeys[i], i }))
+    .sort((a, b) => a.key - b.key || a.i - b.i)
+    .map(entry => entry.draft);
+  if (sorted.some((draft, i) => draft !== drafts[i])) {
+    warnings.push("Scenes were reordered to follow the video timeline.");
+  }
+
+  // Overlaps are resolved without dropping anyone's footage: a scene running past its
+  // predecessor starts where that one ends; one nested inside a predecessor that started
+  // earlier cuts it short instead; one sharing its predecessor's start and ending within it
+  // adds nothing, so it is folded into that scene.
+  const kept: DraftScene[] = [];
+  let previous: DraftScene | null = null;
+  for (const draft of sorted) {
+    const range = draft.range;
+    const prevRange = previous?.range;
+    if (range && previous && prevRange && range.start < prevRange.end) {
+      if (range.end > prevRange.end) {
+        draft.range = { start: prevRange.end, end: range.end };
+        draft.scene.timeRange = formatTimeRange(prevRange.end, range.end);
+        warnings.push(`Scene ${draft.position} overlapped the scene before it; it now starts at ${formatTimestamp(prevRange.end)}.`);
+      } else if (range.start > prevRange.start) {
+        previous.range = { start: prevRange.start, end: range.start };
+        previous.scene.timeRange = formatTimeRange(prevRange.start, range.start);
+        warnings.push(`Scene ${previous.position} overlapped the scene after it; it now ends at ${formatTimestamp(range.start)}.`);
+      } else {
+        const voiceover = [previous.scene.voiceoverScript, draft.scene.voiceoverScript].filter(Boolean).join(' ');
+        if (voiceover) previous.scene.voiceoverScript = voiceover;
+        warnings.push(`Scene ${draft.position} repeated the footage of scene ${previous.position} and was merged into it.`);
+        continue;
+      }
+    }
+    kept.push(draft);
+    if (range) previous = draft;
+  }
+
+  const scenes = kept.map((draft, i) => ({ ...draft.scene, id: i + 1 }));
+  if (kept.some((draft, i) => draft.scene.id !== i + 1)) {
+    warnings.push(`Scene ids were renumbered 1-${scenes.length} (the model returned duplicate, missing or out-of-order ids).`);
+  }
+
+  const viralAnalysis = readViralAnalysis(record.viralAnalysis);
+  if (!viralAnalysis) warnings.push("The model returned no hook and retention analysis.");
+
+  const result: AnalysisResult = { title, summary, scenes, ...(viralAnalysis ? { viralAnalysis } : {}) };
+  const violations = validateAgainstSchema(result, analysisSchema);
+  if (violations.length > 0) {
+    throw new InvalidResponseError(`The storyboard still breaks the schema after repair: ${violations.slice(0, 3).join('; ')}`);
+  }
+  return { result, warnings };
+};
+
+/**
+ * Turns raw model text into a validated AnalysisResult, repairing what it can.
+ * Repairs are listed on `result.warnings`. Throws InvalidResponseError when the
+ * text can't be salvaged, so the caller can ask the model to fix it.
+ */
+export const parseAnalysisText = (text: string): AnalysisResult => {
+  const parsed = parseLenientJson(text);
+  if (!parsed) {
+    throw new InvalidResponseError("Gemini returned malformed JSON that could not be repaired.");
+  }
+
+  const { result, warnings } = normalizeAnalysisResult(parsed.value);
+  if (parsed.repaired) {
+    warnings.unshift("The response was cut off and has been repaired; the last scenes may be missing or incomplete.");
+  }
+  return warnings.length > 0 ? { ...result, warnings } : result;
+};
@@ -0,0 +1,181 @@
+import { Type, Schema } from "@google/genai";
+import { AnalysisResult } from "../types";
+
+const sceneProperties: Record<string, Schema> = {
+  visualDescription: { type: Type.STRING, description: "Detailed visual description of the scene." },
+  cameraMovement: { type: Type.STRING, description: "Camera angle, movement, and lens choice." },
+  aiImagePrompt: { type: Type.STRING, description: "Prompt for AI Image generator (Midjourney/Flux). Include style, lighting, composition." },
+  aiVideoPrompt: { type: Type.STRING, description: "Prompt for AI Video generator (Runway/Luma/Veo). Focus on motion and physics." },
+  voiceoverScript: { type: Type.STRING, description: "The spoken words in this segment. On-screen text goes in textOverlays instead." },
+  textOverlays: {
+    type: Type.ARRAY,
+    description: "Every caption, title or other text shown on screen during this scene, in order of appearance.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: "The exact text as shown, including emoji and line breaks." },
+        start: { type: Type.NUMBER, description: "Seconds from the start of the scene when the text appears." },
+        end: { type: Type.NUMBER, description: "Seconds from the start of the scene when the text disappears. Omit if it stays until the cut." },
+        position: { type: Type.STRING, enum: ["top", "center", "bottom"] },
+        font: { type: Type.STRING, enum: ["sans", "serif", "display", "handwritten", "mono"], description: "Closest font style." },
+        fontWeight: { type: Type.STRING, enum: ["normal", "bold"] },
+        color: { type: Type.STRING, description: "Text colour as a hex code, e.g. #FFFFFF." },
+        backgroundColor: { type: Type.STRING, description: "Colour of the box behind the text as a hex code, if there is one." },
+        animation: { type: Type.STRING, enum: ["none", "pop-in", "fade", "typewriter", "slide-up"], description: "How the text enters." },
+      },
+      required: ["text", "start", "position", "animation"],
+    },
+  },
+  audio: {
+    type: Type.OBJECT,
+    description: "What the scene sounds like. Leave out anything you cannot hear.",
+    properties: {
+      musicMood: { type: Type.STRING, description: "Mood and genre of the music, e.g. 'upbeat lo-fi'." },
+      bpm: { type: Type.INTEGER, description: "Estimated tempo of the music in beats per minute." },
+      sfx: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Sound effect cues, e.g. 'whoosh on the cut', 'cash register ding'." },
+      cutsOnBeat: { type: Type.BOOLEAN, description: "True if the cuts in this scene land on the music's beats." },
+      speaker: { type: Type.STRING, description: "Who delivers the voiceover, e.g. 'female narrator, off-screen'." },
+      isSilent: { type: Type.BOOLEAN, description: "True if the scene is deliberately silent or nearly silent." },
+    },
+  },
+  promptVariants: {
+    type: Type.OBJECT,
+    description: "The image and video prompts rewritten in each target tool's own syntax.",
+    properties: {
+      midjourney: { type: Type.STRING, description: "Midjourney prompt: comma-separated descriptors followed by parameters such as --style raw --stylize 250. Do not include --ar." },
+      stableDiffusion: { type: Type.STRING, description: "Stable Diffusion / SDXL prompt with weighted tokens, e.g. (red sports car:1.3), comma-separated." },
+      stableDiffusionNegative: { type: Type.STRING, description: "Stable Diffusion negative prompt listing what to avoid." },
+      runway: { type: Type.STRING, description: "Runway prompt in the form '[camera movement]: [scene]. [details]', motion first." },
+      luma: { type: Type.STRING, description: "Luma Dream Machine prompt: one or two natural sentences describing subject motion and camera." },
+      veo: { type: Type.STRING, description: "Veo prompt: shot, subject motion and camera, plus audio cues (ambient sound, sound effects, dialogue in quotes)." },
+    },
+  },
+};
+
+const scenePromptRequired = ["visualDescription", "cameraMovement", "aiImagePrompt", "aiVideoPrompt"];
+
+// Define the response schema for structured output
+export const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: "A catchy title for the viral video analysis.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A brief summary of the video's content, style, and viral hook.",
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          timeRange: { type: Type.STRING, description: "e.g., 00:00 - 00:05" },
+          ...sceneProperties,
+        },
+        required: ["id", "timeRange", ...scenePromptRequired],
+      },
+    },
+    viralAnalysis: {
+      type: Type.OBJECT,
+      description: "Structured breakdown of why the video performs.",
+      properties: {
+        hookType: { type: Type.STRING, description: "The kind of hook, e.g. bold claim, visual shock, question, transformation tease." },
+        hookBreakdown: { type: Type.STRING, description: "What happens in the first 3 seconds and why it stops the scroll." },
+        patternInterrupts: {
+          type: Type.ARRAY,
+          description: "Moments that reset attention: sudden cuts, zooms, sound hits, text pops, angle changes.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: { type: Type.STRING, description: "e.g., 00:04" },
+              description: { type: Type.STRING },
+            },
+            required: ["time", "description"],
+          },
+        },
+        emotionalArc: { type: Type.STRING, description: "How the viewer's emotion moves from start to finish." },
+        ctaPlacement: { type: Type.STRING, description: "Where and how the call to action appears, or 'None'." },
+        audioNotes: { type: Type.STRING, description: "Trending sound or music, sound design and voice style." },
+        formatNotes: { type: Type.STRING, description: "Format, length and platform conventions the video follows." },
+      },
+      required: ["hookType", "hookBreakdown", "patternInterrupts", "emotionalArc", "ctaPlacement", "audioNotes", "formatNotes"],
+    },
+  },
+  required: ["title", "summary", "scenes"],
+};
+
+// Response schema for regenerating a single scene's text; id and timing are owned by the caller
+export const scenePromptSchema: Schema = {
+  type: Type.OBJECT,
+  properties: sceneProperties,
+  required: scenePromptRequired,
+};
+
+/**
+ * Walks `value` against a Gemini response schema and collects every mismatch
+ * as a human-readable path message. Only the subset of the schema vocabulary
+ * we actually use (object/array/string/integer/number/boolean, required) is checked.
+ */
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = 'root'): string[] => {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} should be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required ?? []).forEach(key => {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      });
+      Object.entries(schema.properties ?? {}).forEach(([key, propSchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateAgainstSchema(record[key], propSchema, `${path}.${key}`));
+        }
+      });
+      break;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        errors.push(`${path} should be an array`);
+        break;
+      }
+      if (schema.items) {
+        value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+      }
+      break;
+    case Type.STRING:
+      if (typeof value !== 'string') errors.push(`${path} should be a string`);
+      break;
+    case Type.INTEGER:
+      if (typeof value !== 'number' || !Number.isInteger(value)) errors.push(`${path} should be an integer`);
+      break;
+    case Type.NUMBER:
+      if (typeof value !== 'number') errors.push(`${path} should be a number`);
+      break;
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') errors.push(`${path} should be a boolean`);
+      break;
+  }
+
+  return errors;
+};
+
+/**
+ * Narrows unknown JSON to an AnalysisResult, throwing with the first few schema violations.
+ */
+export const assertAnalysisResult = (value: unknown): AnalysisResult => {
+  const errors = validateAgainstSchema(value, analysisSchema);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 5).join('; ');
+    const more = errors.length > 5 ? ` (+${errors.length - 5} more)` : '';
+    throw new Error(`Invalid storyboard: ${shown}${more}`);
+  }
+  return value as AnalysisResult;
+};
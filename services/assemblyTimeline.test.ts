@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ClipAssemblyConfig } from '../types';
+import { createClipConfig, planAssembly, getFrameLayers, getSegmentSpans } from './assemblyTimeline';
+
+const config = (patch: Partial<ClipAssemblyConfig> = {}): ClipAssemblyConfig => ({ ...createClipConfig(), ...patch });
+
+describe('planAssembly', () => {
+  it('lays cuts end to end', () => {
+    const plan = planAssembly([
+      { clipDuration: 4, sceneDuration: 3, config: config() },
+      { clipDuration: 5, sceneDuration: 3, config: config() },
+    ], false);
+    expect(plan.segments.map(s => [s.start, s.duration])).toEqual([[0, 4], [4, 5]]);
+    expect(plan.duration).toBe(9);
+  });
+
+  it('applies manual trims and speed', () => {
+    const plan = planAssembly([{ clipDuration: 8, sceneDuration: 3, config: config({ trimStart: 1, trimEnd: 5, speed: 2 }) }], false);
+    expect(plan.segments[0]).toMatchObject({ trimStart: 1, duration: 2, speed: 2 });
+  });
+
+  it('overlaps clips by the transition length', () => {
+    const plan = planAssembly([
+      { clipDuration: 4, sceneDuration: 3, config: config({ transition: 'crossfade', transitionDuration: 0.5 }) },
+      { clipDuration: 4, sceneDuration: 3, config: config() },
+    ], false);
+    expect(plan.segments[1].start).toBe(3.5);
+    expect(plan.segments[1].transitionIn).toEqual({ type: 'crossfade', duration: 0.5 });
+    expect(plan.duration).toBe(7.5);
+  });
+
+  it('never lets a transition take more than half of a clip', () => {
+    const plan = planAssembly([
+      { clipDuration: 1, sceneDuration: 1, config: config({ transition: 'crossfade', transitionDuration: 2 }) },
+      { clipDuration: 4, sceneDuration: 4, config: config() },
+    ], false);
+    expect(plan.segments[0].transitionOut?.duration).toBe(0.5);
+  });
+
+  it('matches reference timing, slowing clips that are too short', () => {
+    const plan = planAssembly([
+      { clipDuration: 8, sceneDuration: 3, config: config() },
+      { clipDuration: 2, sceneDuration: 4, config: config() },
+    ], true);
+    expect(plan.segments.map(s => [s.start, s.duration, s.speed])).toEqual([[0, 3, 1], [3, 4, 0.5]]);
+  });
+});
+
+describe('getFrameLayers', () => {
+  const plan = planAssembly([
+    { clipDuration: 4, sceneDuration: 4, config: config({ transition: 'dip-to-black', transitionDuration: 1 }) },
+    { clipDuration: 4, sceneDuration: 4, config: config() },
+  ], false);
+
+  it('maps output time to source time', () => {
+    expect(getFrameLayers(plan, 1)).toEqual([{ index: 0, sourceTime: 1, sceneTime: expect.any(Number), alpha: 1, offsetX: 0, blur: 0, dim: 0 }]);
+  });
+
+  it('is fully black in the middle of a dip', () => {
+    const layers = getFrameLayers(plan, 3.5);
+    expect(layers.every(layer => layer.alpha === 0 || layer.dim === 1)).toBe(true);
+  });
+
+  it('shows only the incoming clip after the transition', () => {
+    expect(getFrameLayers(plan, 4.5).map(layer => layer.index)).toEqual([1]);
+  });
+});
+
+describe('getSegmentSpans', () => {
+  it('ends each span where the next clip starts coming in', () => {
+    const plan = planAssembly([
+      { clipDuration: 4, sceneDuration: 4, config: config({ transition: 'crossfade', transitionDuration: 1 }) },
+      { clipDuration: 2, sceneDuration: 2, config: config() },
+    ], false);
+    expect(getSegmentSpans(plan)).toEqual([{ start: 0, end: 3 }, { start: 3, end: 5 }]);
+  });
+});
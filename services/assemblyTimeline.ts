@@ -0,0 +1,195 @@
+import { ClipAssemblyConfig, ClipTransition } from "../types";
+
+export const TRANSITIONS: { id: ClipTransition; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'dip-to-black', label: 'Dip to black' },
+  { id: 'whip', label: 'Whip pan' },
+];
+
+export const DEFAULT_TRANSITION_SECONDS: Record<ClipTransition, number> = {
+  cut: 0,
+  crossfade: 0.5,
+  'dip-to-black': 0.6,
+  whip: 0.25,
+};
+
+export const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4;
+const MIN_CLIP_SECONDS = 0.1;
+const MAX_TRANSITION_SECONDS = 2;
+
+export const createClipConfig = (): ClipAssemblyConfig => ({
+  trimStart: 0,
+  trimEnd: null,
+  speed: 1,
+  transition: 'cut',
+  transitionDuration: DEFAULT_TRANSITION_SECONDS.crossfade,
+});
+
+export interface PlanInput {
+  clipDuration: number; // length of the generated clip
+  sceneDuration: number; // length of the reference scene
+  config: ClipAssemblyConfig;
+}
+
+export interface PlannedTransition {
+  type: ClipTransition;
+  duration: number; // output seconds, shared by both clips
+}
+
+export interface PlannedSegment {
+  index: number;
+  start: number; // output seconds
+  duration: number; // output seconds, including the outgoing transition
+  trimStart: number; // seconds into the generated clip
+  speed: number;
+  sceneDuration: number;
+  transitionIn: PlannedTransition | null;
+  transitionOut: PlannedTransition | null;
+}
+
+export interface AssemblyPlan {
+  segments: PlannedSegment[];
+  duration: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Lays the clips out on the output timeline. Every transition overlaps the end
+ * of one clip with the start of the next. With `matchReferenceTiming`, each
+ * clip is trimmed (or slowed down, if it is too short) so the next clip starts
+ * exactly where its scene starts in the reference; the outgoing transition is
+ * taken from the extra footage after that point.
+ */
+export const planAssembly = (inputs: PlanInput[], matchReferenceTiming: boolean): AssemblyPlan => {
+  const drafts = inputs.map(({ clipDuration, sceneDuration, config }, i) => {
+    const isLast = i === inputs.length - 1;
+    const transition = isLast || config.transition === 'cut'
+      ? 0
+      : clamp(config.transitionDuration, MIN_CLIP_SECONDS, MAX_TRANSITION_SECONDS);
+    const trimStart = clamp(config.trimStart, 0, Math.max(0, clipDuration - MIN_CLIP_SECONDS));
+    let speed = clamp(config.speed, MIN_SPEED, MAX_SPEED);
+    let duration: number;
+
+    if (matchReferenceTiming && sceneDuration > 0) {
+      const target = sceneDuration + transition;
+      const available = clipDuration - trimStart;
+      if (available / speed < target) speed = Math.max(MIN_SPEED, available / target);
+      duration = Math.min(target, available / speed);
+    } else {
+      const trimEnd = clamp(config.trimEnd ?? clipDuration, trimStart + MIN_CLIP_SECONDS, clipDuration);
+      duration = (trimEnd - trimStart) / speed;
+    }
+    return { trimStart, speed, duration, sceneDuration, transition, type: config.transition };
+  });
+
+  // A transition can never take more than half of either clip it joins
+  drafts.forEach((draft, i) => {
+    const next = drafts[i + 1];
+    if (next) draft.transition = Math.min(draft.transition, draft.duration / 2, next.duration / 2);
+  });
+
+  let cursor = 0;
+  const segments = drafts.map((draft, i): PlannedSegment => {
+    const previous = drafts[i - 1];
+    const segment: PlannedSegment = {
+      index: i,
+      start: cursor,
+      duration: draft.duration,
+      trimStart: draft.trimStart,
+      speed: draft.speed,
+      sceneDuration: draft.sceneDuration,
+      transitionIn: previous && previous.transition > 0 ? { type: previous.type, duration: previous.transition } : null,
+      transitionOut: draft.transition > 0 ? { type: draft.type, duration: draft.transition } : null,
+    };
+    cursor += draft.duration - draft.transition;
+    return segment;
+  });
+
+  const last = segments[segments.length - 1];
+  return { segments, duration: last ? last.start + last.duration : 0 };
+};
+
+export interface FrameLayer {
+  index: number;
+  sourceTime: number; // seconds into the generated clip
+  sceneTime: number; // seconds into the reference scene, for text overlays
+  alpha: number;
+  offsetX: number; // fraction of the frame width
+  blur: number; // 0..1 motion blur strength
+  dim: number; // 0..1 black over the layer
+}
+
+const easeInOut = (p: number) => (p < 0.5 ? 2 * p * p : 1 - Math.pow(-2 * p + 2, 2) / 2);
+
+/**
+ * The layers that make up the output frame at `time`, bottom first. Pure, so
+ * the same plan always renders the same frames.
+ */
+export const getFrameLayers = (plan: AssemblyPlan, time: number): FrameLayer[] => {
+  const layers: FrameLayer[] = [];
+  plan.segments.forEach((segment, i) => {
+    const isLast = i === plan.segments.length - 1;
+    const local = time - segment.start;
+    if (local < 0 || local > segment.duration || (local === segment.duration && !isLast)) return;
+
+    const mainDuration = segment.duration - (segment.transitionOut?.duration ?? 0);
+    const layer: FrameLayer = {
+      index: segment.index,
+      sourceTime: segment.trimStart + local * segment.speed,
+      sceneTime: mainDuration > 0 ? (local / mainDuration) * segment.sceneDuration : 0,
+      alpha: 1,
+      offsetX: 0,
+      blur: 0,
+      dim: 0,
+    };
+
+    const applyTransition = (transition: PlannedTransition, p: number, incoming: boolean) => {
+      switch (transition.type) {
+        case 'crossfade':
+          // The incoming clip is drawn on top and fades in over the outgoing one
+          if (incoming) layer.alpha = p;
+          break;
+        case 'dip-to-black':
+          if (incoming) {
+            if (p < 0.5) layer.alpha = 0;
+            else layer.dim = 2 * (1 - p);
+          } else if (p < 0.5) {
+            layer.dim = 2 * p;
+          } else {
+            layer.alpha = 0;
+          }
+          break;
+        case 'whip': {
+          const eased = easeInOut(p);
+          layer.offsetX = incoming ? 1 - eased : -eased;
+          layer.blur = Math.sin(p * Math.PI);
+          break;
+        }
+      }
+    };
+
+    if (segment.transitionOut && local >= mainDuration) {
+      applyTransition(segment.transitionOut, (local - mainDuration) / segment.transitionOut.duration, false);
+    }
+    if (segment.transitionIn && local < segment.transitionIn.duration) {
+      applyTransition(segment.transitionIn, local / segment.transitionIn.duration, true);
+    }
+    if (layer.alpha > 0) layers.push(layer);
+  });
+  return layers;
+};
+
+/**
+ * Where each clip sits in the finished cut, from its first frame to the point
+ * where the next clip starts coming in. With auto-match these equal the reference spans.
+ */
+export const getSegmentSpans = (plan: AssemblyPlan): { start: number; end: number }[] =>
+  plan.segments.map((segment, i) => {
+    const next = plan.segments[i + 1];
+    return { start: segment.start, end: next ? next.start : segment.start + segment.duration };
+  });
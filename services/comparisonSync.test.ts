@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { SceneTiming } from '../types';
+import { computeSceneDrift, mapToReplicaTime } from './comparisonSync';
+
+const timing = (sceneId: number, start: number, end: number): SceneTiming => ({ sceneId, start, end, isEstimated: false });
+
+const reference = [timing(1, 0, 2), timing(2, 2, 6), timing(3, 6, 8)];
+const replica = [timing(1, 0, 3), timing(2, 3, 5)];
+
+describe('computeSceneDrift', () => {
+  it('reports start and length drift, and scenes missing from the cut', () => {
+    expect(computeSceneDrift(reference, replica)).toEqual([
+      { sceneId: 1, referenceStart: 0, referenceDuration: 2, replicaStart: 0, replicaDuration: 3, startDrift: 0, durationDrift: 1 },
+      { sceneId: 2, referenceStart: 2, referenceDuration: 4, replicaStart: 3, replicaDuration: 2, startDrift: 1, durationDrift: -2 },
+      { sceneId: 3, referenceStart: 6, referenceDuration: 2, replicaStart: null, replicaDuration: null, startDrift: null, durationDrift: null },
+    ]);
+  });
+});
+
+describe('mapToReplicaTime', () => {
+  it('stretches each scene onto its counterpart when aligning', () => {
+    expect(mapToReplicaTime(1, reference, replica, true)).toEqual({ time: 1.5, rate: 1.5 });
+    expect(mapToReplicaTime(4, reference, replica, true)).toEqual({ time: 4, rate: 0.5 });
+  });
+
+  it('puts a shared boundary in the later scene', () => {
+    expect(mapToReplicaTime(2, reference, replica, true)).toEqual({ time: 3, rate: 0.5 });
+  });
+
+  it('returns null where the replica has no footage', () => {
+    expect(mapToReplicaTime(7, reference, replica, true)).toBeNull();
+    expect(mapToReplicaTime(8, reference, replica, true)).toBeNull();
+    expect(mapToReplicaTime(5.5, reference, replica, false)).toBeNull();
+  });
+
+  it('runs both on one clock when not aligning', () => {
+    expect(mapToReplicaTime(4.2, reference, replica, false)).toEqual({ time: 4.2, rate: 1 });
+    expect(mapToReplicaTime(5, reference, replica, false)).toEqual({ time: 5, rate: 1 });
+  });
+
+  it('holds on the start of a zero-length scene', () => {
+    expect(mapToReplicaTime(0, [timing(1, 0, 0), timing(2, 0, 2)], [timing(2, 1, 3)], true)).toEqual({ time: 1, rate: 1 });
+  });
+});
@@ -0,0 +1,58 @@
+import { SceneTiming } from "../types";
+import { findSceneAtTime } from "./timeRange";
+
+export interface SceneDrift {
+  sceneId: number;
+  referenceStart: number;
+  referenceDuration: number;
+  replicaStart: number | null; // null when the scene has no clip in the cut
+  replicaDuration: number | null;
+  startDrift: number | null; // replica start minus reference start
+  durationDrift: number | null; // replica length minus reference length
+}
+
+/**
+ * Per-scene comparison of the reference against the assembled replica.
+ */
+export const computeSceneDrift = (reference: SceneTiming[], replica: SceneTiming[]): SceneDrift[] =>
+  reference.map(ref => {
+    const rep = replica.find(t => t.sceneId === ref.sceneId);
+    const referenceDuration = ref.end - ref.start;
+    const replicaDuration = rep ? rep.end - rep.start : null;
+    return {
+      sceneId: ref.sceneId,
+      referenceStart: ref.start,
+      referenceDuration,
+      replicaStart: rep ? rep.start : null,
+      replicaDuration,
+      startDrift: rep ? rep.start - ref.start : null,
+      durationDrift: replicaDuration !== null ? replicaDuration - referenceDuration : null,
+    };
+  });
+
+/**
+ * The replica time that shows the same moment as `time` in the reference, and
+ * the playback rate that keeps the two in step. With `alignScenes`, each scene
+ * is stretched onto its counterpart so cuts line up even when lengths differ;
+ * otherwise both run on the same clock. Returns null when the replica has no
+ * footage for that moment.
+ */
+export const mapToReplicaTime = (
+  time: number,
+  reference: SceneTiming[],
+  replica: SceneTiming[],
+  alignScenes: boolean
+): { time: number; rate: number } | null => {
+  if (!alignScenes) {
+    const end = Math.max(0, ...replica.map(t => t.end));
+    return time <= end ? { time, rate: 1 } : null;
+  }
+  const ref = findSceneAtTime(reference, time);
+  const rep = ref && replica.find(t => t.sceneId === ref.sceneId);
+  if (!ref || !rep) return null;
+  const referenceDuration = ref.end - ref.start;
+  const replicaDuration = rep.end - rep.start;
+  if (referenceDuration <= 0) return { time: rep.start, rate: 1 };
+  const progress = (time - ref.start) / referenceDuration;
+  return { time: rep.start + progress * replicaDuration, rate: replicaDuration / referenceDuration };
+};
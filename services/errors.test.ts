@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toServiceError, ServiceError, AuthError, QuotaError, PayloadTooLargeError, SafetyBlockedError,
+  ProcessingFailedError, NetworkError, InvalidResponseError, StorageFullError,
+} from './errors';
+
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('toServiceError', () => {
+  it('maps HTTP statuses and keeps the status', () => {
+    expect(toServiceError(httpError(401))).toBeInstanceOf(AuthError);
+    expect(toServiceError(httpError(403))).toBeInstanceOf(AuthError);
+    expect(toServiceError(httpError(413))).toBeInstanceOf(PayloadTooLargeError);
+    expect(toServiceError(httpError(503))).toBeInstanceOf(ProcessingFailedError);
+    const quota = toServiceError(httpError(429));
+    expect(quota).toBeInstanceOf(QuotaError);
+    expect(quota.status).toBe(429);
+  });
+
+  it('recognises Gemini SDK messages without a status', () => {
+    expect(toServiceError(new Error('API key not valid. Please pass a valid API key.'))).toBeInstanceOf(AuthError);
+    expect(toServiceError(new Error('{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBeInstanceOf(QuotaError);
+    expect(toServiceError(new Error('Request payload size exceeds the limit'))).toBeInstanceOf(PayloadTooLargeError);
+    expect(toServiceError(new Error('Response was blocked due to SAFETY'))).toBeInstanceOf(SafetyBlockedError);
+    expect(toServiceError(new Error('Rpc failed due to xhr error'))).toBeInstanceOf(NetworkError);
+  });
+
+  it('maps fetch failures and unparseable JSON', () => {
+    expect(toServiceError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    expect(toServiceError(new SyntaxError('Unexpected token < in JSON'))).toBeInstanceOf(InvalidResponseError);
+  });
+
+  it('reports a full local disk as storage, not as an API quota', () => {
+    const error = toServiceError(new DOMException('The quota has been exceeded.', 'QuotaExceededError'));
+    expect(error).toBeInstanceOf(StorageFullError);
+    expect(error.actions).not.toContain('select-key');
+    expect(toServiceError(new DOMException('Storage limit reached', 'NS_ERROR_DOM_QUOTA_REACHED'))).toBeInstanceOf(StorageFullError);
+  });
+
+  it('leaves other DOMExceptions to the generic rules', () => {
+    expect(toServiceError(new DOMException('Not found', 'NotFoundError')).kind).toBe('unknown');
+  });
+
+  it('passes ServiceErrors through and wraps anything else', () => {
+    const original = new QuotaError('429');
+    expect(toServiceError(original)).toBe(original);
+    const wrapped = toServiceError('boom');
+    expect(wrapped).toBeInstanceOf(ServiceError);
+    expect(wrapped).toMatchObject({ kind: 'unknown', message: 'boom', cause: 'boom' });
+  });
+
+  it('marks only errors that could succeed on a later attempt as retryable', () => {
+    expect(toServiceError(httpError(429)).retryable).toBe(true);
+    expect(toServiceError(httpError(503)).retryable).toBe(true);
+    expect(toServiceError(new TypeError('Failed to fetch')).retryable).toBe(true);
+    expect(toServiceError(httpError(401)).retryable).toBe(false);
+    expect(toServiceError(httpError(413)).retryable).toBe(false);
+    expect(toServiceError(new Error('blocked by safety filters')).retryable).toBe(false);
+    expect(toServiceError(new DOMException('Full', 'QuotaExceededError')).retryable).toBe(false);
+  });
+});
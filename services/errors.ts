@@ -0,0 +1,162 @@
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'payload-too-large'
+  | 'safety-blocked'
+  | 'processing-failed'
+  | 'network'
+  | 'timeout'
+  | 'invalid-response'
+  | 'storage-full'
+  | 'unknown';
+
+/**
+ * What the user can do about an error. The UI maps each to a recovery button.
+ *  - retry:       run the same request again
+ *  - select-key:  pick a different (paid) API key, then retry
+ *  - use-upload:  resend the video through the File API instead of inline
+ *  - trim-video:  start over with a shorter clip
+ *  - edit-prompt: change the prompt or start image before retrying
+ */
+export type RecoveryAction = 'retry' | 'select-key' | 'use-upload' | 'trim-video' | 'edit-prompt';
+
+interface ServiceErrorOptions {
+  cause?: unknown;
+  status?: number;
+}
+
+/**
+ * Base class for every failure the service layer reports. `title` and
+ * `suggestion` are written for the end user; `message` keeps the detail.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind = 'unknown';
+  readonly title: string = 'Something went wrong';
+  readonly suggestion: string = 'Please try again.';
+  readonly retryable: boolean = true; // whether the same request can succeed on a later attempt
+  readonly actions: RecoveryAction[] = ['retry'];
+  readonly status?: number;
+
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ServiceError';
+    this.status = options.status;
+  }
+}
+
+export class AuthError extends ServiceError {
+  readonly kind = 'auth';
+  readonly title = 'API key rejected';
+  readonly suggestion = 'Make sure the key is valid and has access to this model. Paid models like Veo need a billing-enabled key.';
+  readonly retryable = false;
+  readonly actions: RecoveryAction[] = ['select-key'];
+}
+
+export class QuotaError extends ServiceError {
+  readonly kind = 'quota';
+  readonly title = 'Quota exceeded';
+  readonly suggestion = 'The rate or usage limit was reached. Wait a minute and retry, or switch to a key with more quota.';
+  readonly actions: RecoveryAction[] = ['retry', 'select-key'];
+}
+
+export class PayloadTooLargeError extends ServiceError {
+  readonly kind = 'payload-too-large';
+  readonly title = 'Video too large for this request';
+  readonly suggestion = 'Send the video through the upload API instead, or use a shorter clip.';
+  readonly retryable = false;
+  readonly actions: RecoveryAction[] = ['use-upload', 'trim-video'];
+}
+
+export class SafetyBlockedError extends ServiceError {
+  readonly kind = 'safety-blocked';
+  readonly title = 'Blocked by safety filters';
+  readonly suggestion = 'Rephrase the prompt or use a different start image, then try again.';
+  readonly retryable = false;
+  readonly actions: RecoveryAction[] = ['edit-prompt'];
+}
+
+export class ProcessingFailedError extends ServiceError {
+  readonly kind = 'processing-failed';
+  readonly title = 'Processing failed';
+  readonly suggestion = 'The server could not process this request. Retry, or try a shorter or re-encoded clip.';
+  readonly actions: RecoveryAction[] = ['retry', 'trim-video'];
+}
+
+export class NetworkError extends ServiceError {
+  readonly kind = 'network';
+  readonly title = 'Network error';
+  readonly suggestion = 'Check your connection and retry.';
+  readonly actions: RecoveryAction[] = ['retry'];
+}
+
+export class TimeoutError extends ServiceError {
+  readonly kind = 'timeout';
+  readonly title = 'Took too long';
+  readonly suggestion = 'The request ran past its time limit. Retry, or use a shorter clip.';
+  readonly actions: RecoveryAction[] = ['retry', 'trim-video'];
+}
+
+export class InvalidResponseError extends ServiceError {
+  readonly kind = 'invalid-response';
+  readonly title = 'Unexpected response from the model';
+  readonly suggestion = 'The model returned data in the wrong shape. Retrying usually fixes it.';
+  readonly actions: RecoveryAction[] = ['retry'];
+}
+
+export class StorageFullError extends ServiceError {
+  readonly kind = 'storage-full';
+  readonly title = 'Browser storage is full';
+  readonly suggestion = 'Free up disk space or delete old projects you no longer need, then retry.';
+  readonly retryable = false;
+  readonly actions: RecoveryAction[] = ['retry'];
+}
+
+// Chrome and Safari use the standard name; older Firefox reports its own
+const STORAGE_FULL_NAMES = ['QuotaExceededError', 'NS_ERROR_DOM_QUOTA_REACHED'];
+
+const includesAny = (text: string, needles: string[]) => needles.some(needle => text.includes(needle));
+
+/**
+ * Maps anything thrown by fetch, the Gemini SDK or our own code onto the
+ * hierarchy above. ServiceErrors pass through unchanged. Abort errors are not
+ * failures and should be filtered out with `isAbortError` before calling this.
+ */
+export const toServiceError = (err: unknown): ServiceError => {
+  if (err instanceof ServiceError) return err;
+
+  const isObject = typeof err === 'object' && err !== null;
+  const status = isObject && 'status' in err && typeof err.status === 'number' ? err.status : undefined;
+  const message = isObject && 'message' in err && err.message ? String(err.message) : String(err ?? 'Unknown error');
+  const lower = message.toLowerCase();
+  const options = { cause: err, status };
+
+  // Local storage running out says "quota" too, but switching API keys won't help with it
+  if (err instanceof DOMException && STORAGE_FULL_NAMES.includes(err.name)) {
+    return new StorageFullError(message, options);
+  }
+  if (status === 401 || status === 403 || includesAny(lower, ['api key not valid', 'api_key_invalid', 'permission denied', 'permission_denied', 'unauthenticated'])) {
+    return new AuthError(message, options);
+  }
+  if (status === 429 || includesAny(lower, ['resource exhausted', 'resource_exhausted', 'quota', 'rate limit', '429'])) {
+    return new QuotaError(message, options);
+  }
+  if (status === 413 || includesAny(lower, ['payload size', 'too large', 'request entity'])) {
+    return new PayloadTooLargeError(message, options);
+  }
+  if (includesAny(lower, ['safety', 'blocked', 'responsible ai', 'prohibited'])) {
+    return new SafetyBlockedError(message, options);
+  }
+  if (err instanceof SyntaxError) {
+    return new InvalidResponseError(message, options);
+  }
+  if (err instanceof TypeError && includesAny(lower, ['fetch', 'network', 'load failed'])) {
+    return new NetworkError(message, options);
+  }
+  if (includesAny(lower, ['rpc failed', 'xhr error', 'network error', 'failed to fetch', 'econnreset'])) {
+    return new NetworkError(message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ProcessingFailedError(message, options);
+  }
+  return new ServiceError(message, options);
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { AnalysisResult, StoryboardScene } from '../types';
+import { exportToCsv, exportToMarkdown, exportToHtml, exportToJson, parseStoryboardJson, toFileSlug, STORYBOARD_SCHEMA_VERSION } from './exportService';
+
+const scene = (id: number, fields: Partial<StoryboardScene> = {}): StoryboardScene => ({
+  id, timeRange: '00:00 - 00:02', visualDescription: `Scene ${id}`, cameraMovement: 'Static',
+  aiImagePrompt: 'image', aiVideoPrompt: 'video', ...fields,
+});
+
+const storyboard = (scenes: StoryboardScene[]): AnalysisResult => ({ title: 'My Video', summary: 'A summary', scenes });
+
+describe('exportToCsv', () => {
+  it('writes a header and one CRLF-separated row per scene', () => {
+    const lines = exportToCsv(storyboard([scene(1), scene(2)])).split('\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^Scene,Time Range,Visual Description/);
+    expect(lines[1]).toBe('1,00:00 - 00:02,Scene 1,Static,image,video,,,');
+  });
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const [, row] = exportToCsv(storyboard([
+      scene(1, { visualDescription: 'Wide, slow', cameraMovement: 'Say "cut"', voiceoverScript: 'Line one\nLine two' }),
+    ])).split('\r\n');
+    expect(row).toBe('1,00:00 - 00:02,"Wide, slow","Say ""cut""",image,video,"Line one\nLine two",,');
+  });
+});
+
+describe('exportToMarkdown', () => {
+  it('lists every scene under the title', () => {
+    const markdown = exportToMarkdown(storyboard([scene(1), scene(2)]));
+    expect(markdown.startsWith('# My Video')).toBe(true);
+    expect(markdown).toContain('Scene 1');
+    expect(markdown).toContain('Scene 2');
+  });
+});
+
+describe('exportToHtml', () => {
+  it('escapes model text so it cannot inject markup', () => {
+    const html = exportToHtml(storyboard([scene(1, { visualDescription: '<script>alert("x")</script>' })]));
+    expect(html).not.toContain('<script>alert');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  });
+});
+
+describe('toFileSlug', () => {
+  it('keeps word characters and falls back when nothing is left', () => {
+    expect(toFileSlug('  My Video: Take #2! ')).toBe('My_Video_Take_2');
+    expect(toFileSlug('???')).toBe('storyboard');
+  });
+});
+
+describe('parseStoryboardJson', () => {
+  const result = storyboard([scene(1), scene(2, { voiceoverScript: 'Hi' })]);
+
+  it('reads back what exportToJson wrote', () => {
+    expect(parseStoryboardJson(exportToJson(result))).toEqual(result);
+  });
+
+  it('accepts a bare storyboard without the export wrapper', () => {
+    expect(parseStoryboardJson(JSON.stringify(result))).toEqual(result);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseStoryboardJson('{ nope')).toThrow(/not valid JSON/);
+  });
+
+  it('rejects files from a newer app version', () => {
+    const text = JSON.stringify({ schemaVersion: STORYBOARD_SCHEMA_VERSION + 1, result });
+    expect(() => parseStoryboardJson(text)).toThrow(/Unsupported storyboard schema version/);
+  });
+
+  it('lists what is wrong with a malformed storyboard', () => {
+    const text = JSON.stringify({ title: 'T', summary: 'S', scenes: [{ id: 'one' }] });
+    expect(() => parseStoryboardJson(text)).toThrow(/^Invalid storyboard: /);
+  });
+});
@@ -0,0 +1,244 @@
+import { AnalysisResult, StoryboardExport, PacingStats } from "../types";
+import { assertAnalysisResult } from "./analysisSchema";
+import { resolveSceneTimings } from "./timeRange";
+import { computePacing, describePacing } from "./viralAnalysis";
+import { summarizeSceneAudio } from "./sceneAudio";
+import { describeTextOverlay } from "./textOverlays";
+
+export const STORYBOARD_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'html';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Quotes a CSV cell per RFC 4180: wrap in quotes and double any embedded quotes.
+ */
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toFileSlug = (title: string) => title.replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '') || 'storyboard';
+
+const formatPacing = (pacing: PacingStats) =>
+  `${describePacing(pacing)}: ${pacing.sceneCount} scenes over ${pacing.totalSeconds.toFixed(1)}s, ` +
+  `average shot ${pacing.averageShotSeconds.toFixed(1)}s, ${pacing.cutsPerSecond.toFixed(2)} cuts/sec ` +
+  `(shortest ${pacing.shortestShotSeconds.toFixed(1)}s, longest ${pacing.longestShotSeconds.toFixed(1)}s)`;
+
+/**
+ * Label/value rows of the hook and retention analysis, shared by the text exports.
+ * Pacing is measured from the scene list, so it is included even without model notes.
+ */
+const getViralRows = (result: AnalysisResult): { label: string; value: string }[] => {
+  const rows: { label: string; value: string }[] = [];
+  const viral = result.viralAnalysis;
+  if (viral) {
+    rows.push({ label: 'Hook', value: `${viral.hookType}: ${viral.hookBreakdown}` });
+  }
+  const pacing = computePacing(resolveSceneTimings(result.scenes));
+  if (pacing) rows.push({ label: 'Pacing', value: formatPacing(pacing) });
+  if (viral) {
+    if (viral.patternInterrupts.length > 0) {
+      rows.push({
+        label: 'Pattern Interrupts',
+        value: viral.patternInterrupts.map(p => `${p.time} ${p.description.replace(/\.$/, '')}`).join('; '),
+      });
+    }
+    rows.push({ label: 'Emotional Arc', value: viral.emotionalArc });
+    rows.push({ label: 'Call to Action', value: viral.ctaPlacement });
+    rows.push({ label: 'Audio', value: viral.audioNotes });
+    rows.push({ label: 'Format', value: viral.formatNotes });
+  }
+  return rows.filter(row => row.value);
+};
+
+// --- Serializers ---
+
+export const exportToMarkdown = (result: AnalysisResult): string => {
+  const lines: string[] = [
+    `# ${result.title}`,
+    '',
+    result.summary,
+    '',
+  ];
+
+  const viralRows = getViralRows(result);
+  if (viralRows.length > 0) {
+    lines.push('## Hook & Retention', '');
+    viralRows.forEach(row => lines.push(`- **${row.label}:** ${row.value}`));
+    lines.push('');
+  }
+  lines.push('## Shot List', '');
+
+  result.scenes.forEach(scene => {
+    lines.push(`### Scene ${scene.id} (${scene.timeRange})`);
+    lines.push('');
+    lines.push(`**Visual:** ${scene.visualDescription}`);
+    lines.push('');
+    lines.push(`**Camera:** ${scene.cameraMovement}`);
+    lines.push('');
+    lines.push('**Image Prompt:**');
+    lines.push('```');
+    lines.push(scene.aiImagePrompt);
+    lines.push('```');
+    lines.push('');
+    lines.push('**Video Prompt:**');
+    lines.push('```');
+    lines.push(scene.aiVideoPrompt);
+    lines.push('```');
+    if (scene.voiceoverScript) {
+      lines.push('');
+      lines.push(`**Voiceover:** "${scene.voiceoverScript}"`);
+    }
+    if (scene.textOverlays) {
+      lines.push('');
+      lines.push('**On-screen Text:**');
+      scene.textOverlays.forEach(overlay => lines.push(`- ${describeTextOverlay(overlay)}`));
+    }
+    if (scene.audio) {
+      lines.push('');
+      lines.push(`**Audio:** ${summarizeSceneAudio(scene.audio)}`);
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+export const exportToJson = (result: AnalysisResult): string => {
+  const payload: StoryboardExport = {
+    schemaVersion: STORYBOARD_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    result,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const exportToCsv = (result: AnalysisResult): string => {
+  const header = ['Scene', 'Time Range', 'Visual Description', 'Camera Movement', 'Image Prompt', 'Video Prompt', 'Voiceover', 'On-screen Text', 'Audio'];
+  const rows = result.scenes.map(scene => [
+    scene.id,
+    scene.timeRange,
+    scene.visualDescription,
+    scene.cameraMovement,
+    scene.aiImagePrompt,
+    scene.aiVideoPrompt,
+    scene.voiceoverScript,
+    (scene.textOverlays ?? []).map(describeTextOverlay).join('\n'),
+    summarizeSceneAudio(scene.audio),
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+/**
+ * Self-contained, print-friendly storyboard. `thumbnails` maps scene id to an image data URL.
+ */
+export const exportToHtml = (result: AnalysisResult, thumbnails: Record<number, string> = {}): string => {
+  const sceneBlocks = result.scenes.map(scene => {
+    const thumb = thumbnails[scene.id]
+      ? `<img src="${thumbnails[scene.id]}" alt="Scene ${scene.id} keyframe" />`
+      : `<div class="placeholder">No keyframe</div>`;
+    return `
+    <section class="scene">
+      <div class="thumb">${thumb}</div>
+      <div class="details">
+        <h2>Scene ${scene.id} <span class="time">${escapeHtml(scene.timeRange)}</span></h2>
+        <p><strong>Visual:</strong> ${escapeHtml(scene.visualDescription)}</p>
+        <p><strong>Camera:</strong> ${escapeHtml(scene.cameraMovement)}</p>
+        <p><strong>Image Prompt:</strong></p>
+        <pre>${escapeHtml(scene.aiImagePrompt)}</pre>
+        <p><strong>Video Prompt:</strong></p>
+        <pre>${escapeHtml(scene.aiVideoPrompt)}</pre>
+        ${scene.voiceoverScript ? `<p><strong>Voiceover:</strong> <em>"${escapeHtml(scene.voiceoverScript)}"</em></p>` : ''}
+        ${scene.textOverlays ? `<p><strong>On-screen Text:</strong></p><ul>${scene.textOverlays.map(overlay => `<li>${escapeHtml(describeTextOverlay(overlay))}</li>`).join('')}</ul>` : ''}
+        ${scene.audio ? `<p><strong>Audio:</strong> ${escapeHtml(summarizeSceneAudio(scene.audio))}</p>` : ''}
+      </div>
+    </section>`;
+  }).join('\n');
+
+  const viralRows = getViralRows(result);
+  const viralBlock = viralRows.length > 0
+    ? `<section class="viral">
+    <h2>Hook &amp; Retention</h2>
+    <dl>${viralRows.map(row => `<dt>${escapeHtml(row.label)}</dt><dd>${escapeHtml(row.value)}</dd>`).join('')}</dl>
+  </section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(result.title)} - Storyboard</title>
+  <style>
+    body { font-family: Inter, system-ui, sans-serif; color: #0f172a; margin: 32px; }
+    h1 { margin-bottom: 4px; }
+    .summary { color: #475569; max-width: 800px; }
+    .scene { display: flex; gap: 24px; padding: 16px 0; border-top: 1px solid #e2e8f0; page-break-inside: avoid; }
+    .thumb { flex: 0 0 240px; }
+    .thumb img { width: 100%; border-radius: 6px; border: 1px solid #cbd5e1; }
+    .placeholder { height: 135px; display: flex; align-items: center; justify-content: center; background: #f1f5f9; color: #94a3b8; border-radius: 6px; }
+    .details { flex: 1; }
+    .details h2 { font-size: 16px; margin: 0 0 8px; }
+    .time { font-family: monospace; color: #64748b; font-weight: normal; margin-left: 8px; }
+    .details p { margin: 4px 0; font-size: 13px; }
+    pre { white-space: pre-wrap; background: #f8fafc; border: 1px solid #e2e8f0; padding: 8px; font-size: 12px; border-radius: 4px; }
+    .viral { max-width: 800px; margin: 16px 0 24px; }
+    .viral h2 { font-size: 16px; margin: 0 0 8px; }
+    .viral dl { display: grid; grid-template-columns: 160px 1fr; gap: 4px 16px; font-size: 13px; margin: 0; }
+    .viral dt { font-weight: 600; color: #334155; }
+    .viral dd { margin: 0; color: #475569; }
+    @media print { body { margin: 12mm; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(result.title)}</h1>
+  <p class="summary">${escapeHtml(result.summary)}</p>
+  ${viralBlock}
+  ${sceneBlocks}
+</body>
+</html>`;
+};
+
+// --- Import ---
+
+/**
+ * Reads a storyboard previously written by `exportToJson`. A bare AnalysisResult
+ * (e.g. a raw model response saved by hand) is accepted as well.
+ */
+export const parseStoryboardJson = (text: string): AnalysisResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  if (data && typeof data === 'object' && 'schemaVersion' in data) {
+    const wrapper = data as Partial<StoryboardExport>;
+    if (typeof wrapper.schemaVersion !== 'number' || wrapper.schemaVersion > STORYBOARD_SCHEMA_VERSION) {
+      throw new Error(`Unsupported storyboard schema version: ${wrapper.schemaVersion}. Please update the app.`);
+    }
+    return assertAnalysisResult(wrapper.result);
+  }
+
+  return assertAnalysisResult(data);
+};
+
+// --- Download ---
+
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
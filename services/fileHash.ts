@@ -0,0 +1,18 @@
+// Hashing a large video takes a moment, so remember the digest per File object
+const digests = new WeakMap<Blob, Promise<string>>();
+
+/**
+ * Hex-encoded SHA-256 of the blob's bytes, via WebCrypto.
+ */
+export const hashFile = (blob: Blob): Promise<string> => {
+  let digest = digests.get(blob);
+  if (!digest) {
+    digest = blob.arrayBuffer()
+      .then(buffer => crypto.subtle.digest('SHA-256', buffer))
+      .then(hash => Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join(''));
+    // A failed hash shouldn't be remembered
+    digest.catch(() => digests.delete(blob));
+    digests.set(blob, digest);
+  }
+  return digest;
+};
@@ -0,0 +1,134 @@
+import { throwIfAborted, isAbortError } from "./polling";
+
+// A load or seek that has not finished by then is stuck (e.g. a truncated clip), not slow
+const LOAD_TIMEOUT_MS = 30000;
+export const SEEK_TIMEOUT_MS = 10000;
+
+/**
+ * Runs `start` and waits for `event` on the video, rejecting on a media error,
+ * after `timeoutMs`, or as soon as `signal` aborts.
+ */
+const waitForVideoEvent = (
+  video: HTMLVideoElement,
+  event: 'loadeddata' | 'seeked',
+  start: () => void,
+  failure: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    return;
+  }
+  const settle = (error?: unknown) => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    video.removeEventListener(event, onDone);
+    video.removeEventListener('error', onError);
+    if (error) reject(error);
+    else resolve();
+  };
+  const onDone = () => settle();
+  const onError = () => settle(new Error(`${failure} failed`));
+  const onAbort = () => settle(signal!.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+  const timer = setTimeout(() => settle(new Error(`${failure} timed out`)), timeoutMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  video.addEventListener(event, onDone);
+  video.addEventListener('error', onError);
+  start();
+});
+
+/**
+ * A muted, offscreen <video> with its first frame decoded.
+ */
+export const loadVideo = async (url: string, signal?: AbortSignal): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.preload = 'auto';
+  try {
+    await waitForVideoEvent(video, 'loadeddata', () => { video.src = url; }, "Loading the video", LOAD_TIMEOUT_MS, signal);
+  } catch (err) {
+    releaseVideo(video);
+    throw err;
+  }
+  return video;
+};
+
+/**
+ * Drops the element's hold on its source so the decoder and buffers are freed.
+ */
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+/**
+ * Seeks and waits for the frame, bounded by SEEK_TIMEOUT_MS and `signal`.
+ */
+export const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  // Stay just inside the clip; seeking exactly to `duration` yields a black frame in some browsers
+  const target = Math.max(0, Math.min(time, video.duration - 0.05));
+  if (Math.abs(video.currentTime - target) < 0.001 && video.readyState >= 2) {
+    return Promise.resolve();
+  }
+  return waitForVideoEvent(video, 'seeked', () => { video.currentTime = target; }, `Seek to ${target.toFixed(2)}s`, SEEK_TIMEOUT_MS, signal);
+};
+
+/**
+ * Grabs still frames from a video URL using an offscreen <video> and a canvas.
+ * Returns data URLs in the same order as `times`; a frame that fails to
+ * seek comes back as null rather than failing the whole batch.
+ */
+export const captureFrames = async (
+  videoUrl: string,
+  times: number[],
+  maxWidth = 480,
+  mimeType: 'image/jpeg' | 'image/png' = 'image/jpeg',
+  signal?: AbortSignal
+): Promise<(string | null)[]> => {
+  const video = await loadVideo(videoUrl, signal);
+  try {
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context");
+
+    const frames: (string | null)[] = [];
+    for (const time of times) {
+      throwIfAborted(signal);
+      try {
+        await seekTo(video, time, signal);
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        frames.push(canvas.toDataURL(mimeType, 0.8));
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.error("Frame capture failed", err);
+        frames.push(null);
+      }
+    }
+    return frames;
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+/**
+ * Sample points inside a scene: just after the cut, the middle, and just before the next cut.
+ * Staying 10% away from the boundaries avoids grabbing transition frames.
+ */
+export const getKeyframeTimes = (start: number, end: number): number[] => {
+  const span = end - start;
+  return [start + span * 0.1, start + span * 0.5, start + span * 0.9];
+};
+
+/**
+ * Full-resolution PNG of a single frame, suitable as a Veo start image.
+ */
+export const captureStartFrame = async (videoUrl: string, time: number): Promise<string> => {
+  const [frame] = await captureFrames(videoUrl, [time], Infinity, 'image/png');
+  if (!frame) throw new Error("Could not capture frame from reference video");
+  return frame;
+};
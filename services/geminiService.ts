@@ -1,41 +1,91 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { AnalysisResult, ScenePromptFields, VideoGenerationSettings } from "../types";
+import { analysisSchema, scenePromptSchema } from "./analysisSchema";
+import { parseAnalysisText } from "./analysisRepair";
+import { buildAnalysisPrompt, DEFAULT_PRESET } from "./analysisPresets";
+import { readPromptVariants } from "./promptDialects";
+import { readSceneAudio } from "./sceneAudio";
+import { readTextOverlays } from "./textOverlays";
+import { VIDEO_MODELS, DEFAULT_VIDEO_SETTINGS, normalizeVideoSettings } from "./videoSettings";
+import { pollUntil, withDeadline, isAbortError } from "./polling";
+import {
+  toServiceError, ServiceError, InvalidResponseError, SafetyBlockedError, ProcessingFailedError,
+  PayloadTooLargeError, NetworkError,
+} from "./errors";
+import { startResumableUpload, uploadChunks, UploadedFile } from "./resumableUpload";
+import { hashFile } from "./fileHash";
+import { getCachedUpload, saveCachedUpload, deleteCachedUpload } from "./projectStore";
+import type {
+  AnalysisProvider, VideoGenerationProvider, VeoAspectRatio, StartImage, SceneRegenerationRequest,
+  OperationOptions, AnalysisOptions, OperationProgress,
+} from "./providers";
 
 // Initialize Gemini Client
 const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// Overridable so uploads can be pointed at a local stand-in (see scripts/upload-standin.mjs)
+const API_BASE_URL = (process.env.GEMINI_API_BASE_URL || 'https://generativelanguage.googleapis.com').replace(/\/$/, '');
+
 const INLINE_SIZE_LIMIT = 10 * 1024 * 1024; // 10 MB
 
-// Define the response schema for structured output
-const analysisSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    title: {
-      type: Type.STRING,
-      description: "A catchy title for the viral video analysis.",
-    },
-    summary: {
-      type: Type.STRING,
-      description: "A brief summary of the video's content, style, and viral hook.",
-    },
-    scenes: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.INTEGER },
-          timeRange: { type: Type.STRING, description: "e.g., 00:00 - 00:05" },
-          visualDescription: { type: Type.STRING, description: "Detailed visual description of the scene." },
-          cameraMovement: { type: Type.STRING, description: "Camera angle, movement, and lens choice." },
-          aiImagePrompt: { type: Type.STRING, description: "Prompt for AI Image generator (Midjourney/Flux). Include style, lighting, composition." },
-          aiVideoPrompt: { type: Type.STRING, description: "Prompt for AI Video generator (Runway/Luma/Veo). Focus on motion and physics." },
-          voiceoverScript: { type: Type.STRING, description: "The spoken script or text overlay for this segment." },
-        },
-        required: ["id", "timeRange", "visualDescription", "cameraMovement", "aiImagePrompt", "aiVideoPrompt"],
-      },
-    },
-  },
-  required: ["title", "summary", "scenes"],
+// Don't reuse an upload this close to its expiry; analysis could outlive it
+const UPLOAD_EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+const DEFAULT_UPLOAD_LIFETIME_MS = 47 * 60 * 60 * 1000;
+
+// Overall budgets, covering upload, processing and generation together
+const ANALYSIS_DEADLINE_MS = 15 * 60 * 1000;
+const REGENERATION_DEADLINE_MS = 10 * 60 * 1000;
+const VEO_DEADLINE_MS = 10 * 60 * 1000;
+
+type ProgressCallback = (progress: OperationProgress) => void;
+
+/**
+ * Extracts the text of a response, turning safety blocks and empty output into typed errors.
+ */
+function getResponseText(response: GenerateContentResponse): string {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Request blocked by Gemini: ${response.promptFeedback?.blockReasonMessage || blockReason}`);
+  }
+  if (response.candidates?.[0]?.finishReason === 'SAFETY') {
+    throw new SafetyBlockedError("Gemini stopped the response for safety reasons.");
+  }
+
+  const text = response.text;
+  if (!text) {
+    throw new InvalidResponseError("No response text received from Gemini.");
+  }
+  return text;
+}
+
+/**
+ * Extracts the JSON body of a structured-output response as a typed error on failure.
+ */
+function parseJsonResponse<T>(response: GenerateContentResponse): T {
+  const text = getResponseText(response);
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    throw new InvalidResponseError("Gemini returned malformed JSON.", { cause: err });
+  }
+}
+
+/**
+ * Cancels pass through untouched; everything else becomes a ServiceError.
+ */
+const toThrowable = (error: unknown) => (isAbortError(error) ? error : toServiceError(error));
+
+// A dropped RPC on an inline request is almost always the payload being too big for the transport
+const toInlineVideoError = (error: unknown) => {
+  if (isAbortError(error)) return error;
+  const serviceError = toServiceError(error);
+  if (serviceError instanceof NetworkError || serviceError instanceof PayloadTooLargeError) {
+    return new PayloadTooLargeError(
+      "The video was too large to send inline. Retry through the upload API, or try a smaller clip.",
+      { cause: error }
+    );
+  }
+  return serviceError;
 };
 
 // --- Helper Functions for File Upload ---
@@ -43,124 +93,83 @@ const analysisSchema: Schema = {
 /**
  * Uploads a file to the Gemini File API using resumable upload protocol.
  * We implement this manually via fetch to work reliably in browser environments without Node streams.
+ * The bytes go up in chunks, so a dropped connection resumes from the last persisted offset.
  */
-async function uploadFileToGemini(file: File): Promise<string> {
+async function uploadFileToGemini(
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<UploadedFile> {
   const apiKey = process.env.API_KEY;
-  const uploadUrl = `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${apiKey}`;
+  const uploadUrl = `${API_BASE_URL}/upload/v1beta/files?key=${apiKey}`;
   const mimeType = file.type || 'application/octet-stream';
-  const fileSize = file.size.toString();
 
   console.log(`Starting upload: ${file.name} (${file.size} bytes, ${mimeType})`);
 
-  // 1. Initial Resumable Request
-  // We strictly define the headers to match the subsequent body
-  const startResponse = await fetch(uploadUrl, {
-    method: 'POST',
-    headers: {
-      'X-Goog-Upload-Protocol': 'resumable',
-      'X-Goog-Upload-Command': 'start',
-      'X-Goog-Upload-Header-Content-Length': fileSize,
-      'X-Goog-Upload-Header-Content-Type': mimeType,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ file: { display_name: file.name } }),
-  });
-
-  if (!startResponse.ok) {
-    const errText = await startResponse.text();
-    throw new Error(`Failed to initiate upload: ${startResponse.status} ${startResponse.statusText} - ${errText}`);
-  }
-
-  let actualUploadUrl = startResponse.headers.get('x-goog-upload-url');
-  if (!actualUploadUrl) {
-    throw new Error("No upload URL returned from Gemini API");
-  }
+  // Create a Blob with the specific type we promised in the handshake,
+  // so the start request and the chunks agree on the content type.
+  const fileBlob = new Blob([file], { type: mimeType });
+  let sessionUrl = await startResumableUpload(uploadUrl, fileBlob, file.name, signal);
 
   // Ensure the upload URL has the key if it's missing (rare but possible cause of 404s)
-  if (!actualUploadUrl.includes('key=') && apiKey) {
-    actualUploadUrl += actualUploadUrl.includes('?') ? `&key=${apiKey}` : `?key=${apiKey}`;
+  if (!sessionUrl.includes('key=') && apiKey) {
+    sessionUrl += sessionUrl.includes('?') ? `&key=${apiKey}` : `?key=${apiKey}`;
   }
 
   console.log("Upload URL obtained, starting transfer...");
 
-  // 2. Upload actual bytes
-  // Create a Blob with the specific type we promised in the handshake. 
-  // This ensures the browser sends the correct Content-Type header automatically.
-  const fileBlob = new Blob([file], { type: mimeType });
-
-  const uploadResponse = await fetch(actualUploadUrl, {
-    method: 'PUT',
-    headers: {
-      // Do NOT set Content-Type manually here. 
-      // Fetch will automatically use the Blob's type, preventing mismatches.
-      'Content-Length': fileSize, 
-      'X-Goog-Upload-Offset': '0',
-      'X-Goog-Upload-Command': 'upload, finalize',
-    },
-    body: fileBlob, 
+  const uploadResult = await uploadChunks(sessionUrl, fileBlob, {
+    signal,
+    onProgress: (loaded, total) => onProgress?.({ stage: 'uploading', loadedBytes: loaded, totalBytes: total }),
   });
-
-  if (!uploadResponse.ok) {
-    const errText = await uploadResponse.text();
-    console.error(`Upload failed details: ${errText}`);
-    throw new Error(`Failed to upload file bytes: ${uploadResponse.status} ${uploadResponse.statusText} - ${errText}`);
-  }
-
-  const uploadResult = await uploadResponse.json();
   console.log("Upload successful:", uploadResult);
-  return uploadResult.file.uri;
+  return uploadResult.file;
 }
 
 /**
- * Polls the file status until it is ACTIVE or fails.
+ * Fetches the File API state of an uploaded file (PROCESSING, ACTIVE or FAILED),
+ * or null if the file no longer exists.
  */
-async function waitForFileActive(fileUri: string): Promise<void> {
+async function getFileState(fileUri: string, signal?: AbortSignal): Promise<string | null> {
   const apiKey = process.env.API_KEY;
-  
-  // Robust extraction: handle both full URI and short name
-  let fileName = fileUri;
-  if (fileUri.startsWith('https://')) {
-      const parts = fileUri.split('/files/');
-      if (parts.length > 1) {
-          fileName = 'files/' + parts[1];
-      }
-  }
 
-  // If we just have the raw name (e.g. 'abc-123'), prepend 'files/'
-  if (!fileName.startsWith('files/') && !fileName.startsWith('https')) {
-      fileName = `files/${fileName}`;
-  }
+  // Robust extraction: the API may hand back a full URI or just the resource name ('files/abc-123' or 'abc-123')
+  const match = fileUri.match(/files\/([^/?#]+)/);
+  const fileName = `files/${match ? match[1] : fileUri}`;
+  const response = await fetch(`${API_BASE_URL}/v1beta/${fileName}?key=${apiKey}`, { signal });
 
-  // If it's a full URL, we can likely just use it if we append the key
-  let getUrl;
-  if (fileName.startsWith('https://')) {
-       getUrl = `${fileName}?key=${apiKey}`;
-  } else {
-       getUrl = `https://generativelanguage.googleapis.com/v1beta/${fileName}?key=${apiKey}`;
+  if (response.status === 404 || response.status === 403) {
+    return null;
   }
+  if (!response.ok) {
+      const err = await response.text();
+      throw toServiceError({ status: response.status, message: `Failed to check file status: ${err}` });
+  }
+  const data = await response.json();
+  return data.state;
+}
 
-  console.log("Polling file status:", fileName);
+/**
+ * Polls the file status, backing off between checks, until it is ACTIVE or fails.
+ */
+async function waitForFileActive(fileUri: string, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<void> {
+  console.log("Polling file status:", fileUri);
 
-  while (true) {
-    const response = await fetch(getUrl);
-    if (!response.ok) {
-        const err = await response.text();
-        throw new Error(`Failed to check file status: ${err}`);
+  await pollUntil(async () => {
+    const state = await getFileState(fileUri, signal);
+    if (state === null) {
+      throw new ProcessingFailedError("Uploaded video is no longer available on Gemini servers.");
     }
-    
-    const data = await response.json();
-    const state = data.state;
     console.log(`File state: ${state}`);
+    onProgress?.({ stage: 'processing', state });
 
     if (state === "ACTIVE") {
-      return;
+      return true;
     } else if (state === "FAILED") {
-      throw new Error("Video processing failed on Gemini servers.");
+      throw new ProcessingFailedError("Video processing failed on Gemini servers.");
     }
-
-    // Wait 5 seconds before next poll
-    await new Promise(resolve => setTimeout(resolve, 5000));
-  }
+    return undefined;
+  }, { signal });
 }
 
 /**
@@ -178,161 +187,368 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Builds the video part for a request: inline base64 for small files,
+ * File API upload (then wait for ACTIVE) for anything larger.
+ */
+async function prepareVideoPart(
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback,
+  forceUpload = false
+): Promise<Part> {
+  // Logic Branching based on file size
+  if (file.size < INLINE_SIZE_LIMIT && !forceUpload) {
+    // SMALL FILE: Use Inline Data (Faster, no upload delay)
+    const base64Data = await fileToBase64(file);
+    return {
+      inlineData: {
+        mimeType: file.type || 'video/mp4',
+        data: base64Data,
+      },
+    };
+  }
+
+  // LARGE FILE: Use File API (Upload -> Poll -> Generate), unless the same bytes are already up there
+  const fileUri = (await findReusableUpload(file, signal)) ?? (await uploadAndRemember(file, signal, onProgress));
+  
+  console.log("Waiting for file processing to complete...");
+  await waitForFileActive(fileUri, signal, onProgress);
+  console.log("File is ACTIVE.");
+
+  return {
+    fileData: {
+      mimeType: file.type || 'video/mp4',
+      fileUri: fileUri
+    }
+  };
+}
+
+/**
+ * Looks up a previous upload of identical bytes. It is only reused if it has not
+ * expired and the File API still knows it; stale entries are dropped.
+ * Cache trouble is never fatal: we just fall back to uploading.
+ */
+async function findReusableUpload(file: File, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const hash = await hashFile(file);
+    const cached = await getCachedUpload(hash);
+    if (!cached) return null;
+
+    if (cached.expiresAt - UPLOAD_EXPIRY_MARGIN_MS > Date.now()) {
+      const state = await getFileState(cached.fileUri, signal);
+      if (state === 'ACTIVE' || state === 'PROCESSING') {
+        console.log("Reusing previous upload:", cached.fileUri);
+        return cached.fileUri;
+      }
+    }
+    await deleteCachedUpload(hash);
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    console.warn("Upload cache lookup failed", err);
+  }
+  return null;
+}
+
+async function uploadAndRemember(file: File, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<string> {
+  console.log("Initiating Resumable Upload...");
+  const uploaded = await uploadFileToGemini(file, signal, onProgress);
+  console.log("File uploaded. URI:", uploaded.uri);
+
+  try {
+    const expiresAt = uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : NaN;
+    await saveCachedUpload({
+      hash: await hashFile(file),
+      fileUri: uploaded.uri,
+      mimeType: file.type,
+      expiresAt: Number.isNaN(expiresAt) ? Date.now() + DEFAULT_UPLOAD_LIFETIME_MS : expiresAt,
+    });
+  } catch (err) {
+    console.warn("Failed to remember upload", err);
+  }
+  return uploaded.uri;
+}
+
 // --- Main Analysis Service ---
 
-export const analyzeVideoScript = async (file: File): Promise<AnalysisResult> => {
+export const analyzeVideoScript = async (file: File, options: AnalysisOptions = {}): Promise<AnalysisResult> => {
+  const { onProgress, forceUpload, preset = DEFAULT_PRESET } = options;
+  const { signal, dispose } = withDeadline("Video analysis", options.deadlineMs ?? ANALYSIS_DEADLINE_MS, options.signal);
   try {
     const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-    let parts: any[] = [];
-
-    // Logic Branching based on file size
-    if (file.size < INLINE_SIZE_LIMIT) {
-      // SMALL FILE: Use Inline Data (Faster, no upload delay)
-      const base64Data = await fileToBase64(file);
-      parts = [
-        {
-          inlineData: {
-            mimeType: file.type || 'video/mp4',
-            data: base64Data,
-          },
-        }
-      ];
-    } else {
-      // LARGE FILE: Use File API (Upload -> Poll -> Generate)
-      console.log("File > 10MB detected. Initiating Resumable Upload...");
-      const fileUri = await uploadFileToGemini(file);
-      console.log("File uploaded. URI:", fileUri);
-      
-      console.log("Waiting for file processing to complete...");
-      await waitForFileActive(fileUri);
-      console.log("File is ACTIVE.");
-
-      parts = [
-        {
-          fileData: {
-            mimeType: file.type || 'video/mp4',
-            fileUri: fileUri
-          }
-        }
-      ];
+    const model = preset.model;
+    const videoPart = await prepareVideoPart(file, signal, onProgress, forceUpload);
+    const parts: Part[] = [videoPart];
+
+    parts.push({ text: buildAnalysisPrompt(preset) });
+
+    onProgress?.({ stage: 'analyzing' });
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema,
+          temperature: preset.temperature,
+          abortSignal: signal,
+        },
+      });
+    } catch (error) {
+      throw videoPart.inlineData ? toInlineVideoError(error) : error;
     }
 
-    // Append the prompt to parts
+    const result = await parseAnalysisResponse(ai, model, response, signal);
+    return { ...result, presetId: preset.id };
+
+  } catch (error: any) {
+    console.error("Gemini Analysis Error:", error);
+    throw toThrowable(error);
+  } finally {
+    dispose();
+  }
+};
+
+/**
+ * Validates and repairs the analysis JSON. When it can't be salvaged locally the
+ * model gets exactly one follow-up call asking it to fix its own output.
+ */
+async function parseAnalysisResponse(
+  ai: GoogleGenAI,
+  model: string,
+  response: GenerateContentResponse,
+  signal: AbortSignal
+): Promise<AnalysisResult> {
+  const text = getResponseText(response);
+  let problem: string;
+  try {
+    return parseAnalysisText(text);
+  } catch (err) {
+    if (!(err instanceof InvalidResponseError)) throw err;
+    problem = err.message;
+  }
+
+  console.warn("Analysis response failed validation, asking Gemini to fix it:", problem);
+  const fixResponse = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [{
+        text: `
+        The following storyboard JSON is invalid: ${problem}
+        Fix it so it is complete, valid JSON matching the schema provided. Keep all of the
+        original content; only repair the structure, fill missing required fields and finish
+        any scene that was cut off.
+
+        ${text}
+        `,
+      }],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: analysisSchema,
+      temperature: 0,
+      abortSignal: signal,
+    },
+  });
+
+  const fixed = parseAnalysisText(getResponseText(fixResponse));
+  return {
+    ...fixed,
+    warnings: ["The model's first response was invalid and was corrected by a follow-up request.", ...(fixed.warnings ?? [])],
+  };
+}
+
+/**
+ * Re-analyses a single scene. The model only sees that scene's slice of the
+ * video (via videoMetadata offsets, reinforced in the prompt) plus the rest of
+ * the storyboard as text, so the new prompts stay consistent with their neighbours.
+ */
+export const regenerateScenePrompts = async (
+  file: File | null,
+  request: SceneRegenerationRequest,
+  options: AnalysisOptions = {}
+): Promise<ScenePromptFields> => {
+  const { scene, start, end, storyboard, hint } = request;
+  const { onProgress, preset = DEFAULT_PRESET } = options;
+  const { signal, dispose } = withDeadline("Scene regeneration", options.deadlineMs ?? REGENERATION_DEADLINE_MS, options.signal);
+  try {
+    const ai = getAiClient();
+    const model = preset.model;
+    // Without a known preset, keep the language the storyboard is already written in
+    const language = options.preset ? preset.outputLanguage.trim() || 'English' : 'the same language as the existing storyboard';
+    const parts: Part[] = [];
+
+    if (file) {
+      const videoPart = await prepareVideoPart(file, signal, onProgress, options.forceUpload);
+      parts.push({
+        ...videoPart,
+        videoMetadata: { startOffset: `${start}s`, endOffset: `${end}s` },
+      });
+    }
+
+    const context = storyboard.scenes
+      .map(s => `Scene ${s.id} (${s.timeRange})${s.id === scene.id ? ' [TARGET]' : ''}: ${s.visualDescription}`)
+      .join('\n');
+
     parts.push({
       text: `
-      You are an expert video director and AI content strategist. 
-      Analyze the uploaded video file to reverse-engineer its success formula.
-      
-      Break down the video into key storyboard scenes. For each scene, provide:
-      1. A precise visual description.
-      2. Camera movement analysis.
-      3. A high-quality AI Image Generation prompt (optimized for photorealism or the specific style of the video).
-      4. A high-quality AI Video Generation prompt (optimized for motion dynamics).
-      5. Any voiceover or text overlay script present.
-      
-      Return the result in JSON format matching the schema provided.
-      `,
+        You are an expert video director and AI content strategist.
+        We are refining one scene of a storyboard for the video "${storyboard.title}".
+        Video summary: ${storyboard.summary}
+
+        Full storyboard for context:
+        ${context}
+
+        ${file
+          ? `Only analyse the video between ${start.toFixed(1)}s and ${end.toFixed(1)}s (scene ${scene.id}). Ignore everything outside that window.`
+          : `No video is attached. Improve scene ${scene.id} using its current description and the surrounding scenes.`}
+
+        Current version of scene ${scene.id}:
+        ${JSON.stringify({
+          visualDescription: scene.visualDescription,
+          cameraMovement: scene.cameraMovement,
+          aiImagePrompt: scene.aiImagePrompt,
+          aiVideoPrompt: scene.aiVideoPrompt,
+          voiceoverScript: scene.voiceoverScript,
+          textOverlays: scene.textOverlays,
+          audio: scene.audio,
+        })}
+
+        Write a fresh, stronger version of this scene: a precise visual description, camera movement,
+        a high-quality AI Image Generation prompt, a high-quality AI Video Generation prompt, any spoken voiceover,
+        every piece of on-screen text with its timing (seconds from the scene start), position, font, colour and animation,
+        the scene's audio (music mood, tempo, sound effects, whether cuts land on the beat, who is speaking),
+        and variants of both prompts in the syntax of each target tool (Midjourney, Stable Diffusion, Runway, Luma, Veo).
+        Keep the style continuous with the neighbouring scenes, and write every description, prompt and script in ${language}.
+        ${hint ? `Additional direction from the user: ${hint}` : ''}
+
+        Return the result in JSON format matching the schema provided.
+        `,
     });
 
     const response = await ai.models.generateContent({
-      model: model,
+      model,
       contents: { parts },
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        temperature: 0.4,
+        responseSchema: scenePromptSchema,
+        temperature: preset.temperature,
+        abortSignal: signal,
       },
     });
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("No response text received from Gemini.");
-    }
-
-    const result = JSON.parse(text) as AnalysisResult;
-    return result;
-
-  } catch (error: any) {
-    console.error("Gemini Analysis Error:", error);
-    
-    // Check for specific RPC/XHR errors related to payload size (fallback check)
-    const errorMessage = error.message || "";
-    if (errorMessage.includes("Rpc failed") || errorMessage.includes("xhr error") || errorMessage.includes("code: 6")) {
-      throw new Error("Network error during analysis. If the file is large, please ensure your internet connection is stable or try a smaller clip.");
-    }
-
-    throw error;
+    const fields = parseJsonResponse<ScenePromptFields>(response);
+    return {
+      ...fields,
+      textOverlays: readTextOverlays(fields.textOverlays),
+      audio: readSceneAudio(fields.audio),
+      promptVariants: readPromptVariants(fields.promptVariants, fields.aiImagePrompt, fields.aiVideoPrompt),
+    };
+  } catch (error) {
+    throw toThrowable(error);
+  } finally {
+    dispose();
   }
 };
 
 export const generateVeoVideo = async (
   prompt: string,
-  imageBase64: string | undefined,
-  aspectRatio: '16:9' | '9:16'
-): Promise<string> => {
+  startImage: StartImage | undefined,
+  aspectRatio: VeoAspectRatio,
+  settings: VideoGenerationSettings = DEFAULT_VIDEO_SETTINGS,
+  options: OperationOptions = {}
+): Promise<string[]> => {
   const ai = getAiClient();
-  const model = 'veo-3.1-fast-generate-preview';
+  const { model, resolution, durationSeconds, negativePrompt, seed, numberOfVideos } = normalizeVideoSettings(settings);
+  const { onProgress } = options;
+  const { signal, dispose } = withDeadline("Veo generation", options.deadlineMs ?? VEO_DEADLINE_MS, options.signal);
+  const startedAt = Date.now();
 
   try {
-    // Construct the request
-    let operation;
-    
-    if (imageBase64) {
-      operation = await ai.models.generateVideos({
-        model,
-        prompt: prompt,
-        image: {
-          imageBytes: imageBase64,
-          mimeType: 'image/png', // Assuming PNG or standard image format, the API is flexible but mimeType is required
-        },
-        config: {
-          numberOfVideos: 1,
-          resolution: '720p', // veo-3.1-fast supports 720p well
-          aspectRatio: aspectRatio,
-        }
-      });
-    } else {
-      operation = await ai.models.generateVideos({
-        model,
-        prompt: prompt,
-        config: {
-          numberOfVideos: 1,
-          resolution: '720p',
-          aspectRatio: aspectRatio,
-        }
-      });
-    }
+    let operation = await ai.models.generateVideos({
+      model: VIDEO_MODELS[model].id,
+      prompt: prompt,
+      image: startImage,
+      config: {
+        numberOfVideos,
+        resolution,
+        durationSeconds,
+        aspectRatio: aspectRatio,
+        negativePrompt: negativePrompt || undefined,
+        seed: seed ?? undefined,
+        abortSignal: signal,
+      }
+    });
 
-    // Polling loop
+    // Polling loop. Aborting only stops us waiting; the server-side operation runs to completion.
     console.log("Veo generation started...", operation);
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-      operation = await ai.operations.getVideosOperation({ operation: operation });
+    onProgress?.({ stage: 'generating', state: operation.metadata?.state as string | undefined, elapsedMs: 0 });
+    operation = await pollUntil(async () => {
+      if (operation.done) return operation;
+      operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
       console.log("Veo polling status:", operation.metadata?.state);
-    }
+      onProgress?.({ stage: 'generating', state: operation.metadata?.state as string | undefined, elapsedMs: Date.now() - startedAt });
+      return operation.done ? operation : undefined;
+    }, { signal, initialDelayMs: 5000, maxDelayMs: 20000 });
 
     if (operation.error) {
-      throw new Error(`Veo generation failed: ${operation.error.message}`);
+      const failure = toServiceError({ message: String(operation.error.message ?? 'Unknown error') });
+      // Only keep the classification if it says something more specific than "it failed"
+      throw failure.constructor === ServiceError
+        ? new ProcessingFailedError(`Veo generation failed: ${failure.message}`, { cause: operation.error })
+        : failure;
+    }
+
+    const filtered = operation.response?.raiMediaFilteredReasons;
+    if (filtered && filtered.length > 0) {
+      throw new SafetyBlockedError(`Veo filtered the output: ${filtered.join(' ')}`);
     }
 
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
-      throw new Error("No video URI returned from Veo.");
+    const downloadLinks = (operation.response?.generatedVideos ?? [])
+      .map(generated => generated.video?.uri)
+      .filter((uri): uri is string => !!uri);
+    if (downloadLinks.length === 0) {
+      throw new InvalidResponseError("No video URI returned from Veo.");
     }
 
     // Fetch the actual video bytes using the API key
     // We must append the key manually as per instructions
-    const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    if (!videoResponse.ok) {
-      throw new Error(`Failed to download generated video: ${videoResponse.statusText}`);
+    onProgress?.({ stage: 'downloading' });
+    const urls: string[] = [];
+    try {
+      for (const downloadLink of downloadLinks) {
+        const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`, { signal });
+        if (!videoResponse.ok) {
+          throw toServiceError({ status: videoResponse.status, message: `Failed to download generated video: ${videoResponse.statusText}` });
+        }
+        urls.push(URL.createObjectURL(await videoResponse.blob()));
+      }
+    } catch (error) {
+      // The caller never sees a partial set, so nobody else would release these
+      urls.forEach(url => URL.revokeObjectURL(url));
+      throw error;
     }
-
-    const videoBlob = await videoResponse.blob();
-    return URL.createObjectURL(videoBlob);
+    return urls;
 
   } catch (error) {
     console.error("Veo Generation Error:", error);
-    throw error;
+    throw toThrowable(error);
+  } finally {
+    dispose();
   }
-};
\ No newline at end of file
+};
+
+export const geminiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5',
+  promptVersion: 'presets/v2', // model and prompt come from the preset, which is versioned separately
+  analyzeVideo: analyzeVideoScript,
+  regenerateScene: regenerateScenePrompts,
+};
+
+export const geminiVideoProvider: VideoGenerationProvider = {
+  id: 'gemini',
+  label: 'Veo 3.1',
+  generateVideo: generateVeoVideo,
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VideoGenerationSettings } from '../types';
+import type { VideoGenerationProvider } from './providers';
+import { runGenerationQueue, GenerationJob, GenerationJobState, GenerationQueueOptions } from './generationQueue';
+import { DEFAULT_VIDEO_SETTINGS } from './videoSettings';
+import { QuotaError, SafetyBlockedError } from './errors';
+
+const jobs = (count: number): GenerationJob[] =>
+  Array.from({ length: count }, (_, i) => ({ sceneId: i + 1, prompt: `Scene ${i + 1}` }));
+
+const run = (provider: VideoGenerationProvider, jobList: GenerationJob[], options: Partial<GenerationQueueOptions> = {}) => {
+  const states: Record<number, GenerationJobState[]> = {};
+  const done: [number, string[]][] = [];
+  const promise = runGenerationQueue(jobList, {
+    provider,
+    aspectRatio: '16:9',
+    settings: DEFAULT_VIDEO_SETTINGS,
+    concurrency: 2,
+    baseBackoffMs: 1,
+    onJobUpdate: (sceneId, state) => (states[sceneId] ??= []).push(state),
+    onJobDone: (job, urls) => done.push([job.sceneId, urls]),
+    ...options,
+  });
+  return { promise, states, done };
+};
+
+const provider = (generateVideo: VideoGenerationProvider['generateVideo']): VideoGenerationProvider =>
+  ({ id: 'test', label: 'Test', generateVideo });
+
+describe('runGenerationQueue', () => {
+  it('runs every job with at most `concurrency` in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const { promise, done } = run(provider(async prompt => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return [`${prompt}.mp4`];
+    }), jobs(5));
+    await promise;
+    expect(peak).toBe(2);
+    expect(done.map(([sceneId]) => sceneId).sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('retries quota errors with backoff', async () => {
+    const generate = vi.fn()
+      .mockRejectedValueOnce(new QuotaError('429'))
+      .mockResolvedValueOnce(['clip.mp4']);
+    const { promise, states, done } = run(provider(generate), jobs(1));
+    await promise;
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(states[1].map(s => s.status)).toEqual(['queued', 'running', 'retrying', 'running', 'done']);
+    expect(done).toEqual([[1, ['clip.mp4']]]);
+  });
+
+  it('picks one seed per job, keeps it across retries and reports it', async () => {
+    const generate = vi.fn()
+      .mockRejectedValueOnce(new QuotaError('429'))
+      .mockResolvedValueOnce(['clip.mp4']);
+    const reported: VideoGenerationSettings[] = [];
+    const { promise } = run(provider(generate), jobs(1), { onJobDone: (_job, _urls, settings) => reported.push(settings) });
+    await promise;
+    const [first, second] = generate.mock.calls.map(call => call[3] as VideoGenerationSettings);
+    expect(first.seed).toEqual(expect.any(Number));
+    expect(second.seed).toBe(first.seed);
+    expect(reported).toEqual([first]);
+  });
+
+  it('gives up after the retry budget or on errors that would fail again', async () => {
+    const { promise, states } = run(provider(async prompt => {
+      throw prompt === 'Scene 1' ? new QuotaError('429') : new SafetyBlockedError('blocked');
+    }), jobs(2), { maxRetries: 1 });
+    await promise;
+    expect(states[1].at(-1)).toMatchObject({ status: 'failed', attempt: 2 });
+    expect(states[2].at(-1)).toMatchObject({ status: 'failed', attempt: 1 });
+  });
+
+  it('cancels queued jobs when aborted', async () => {
+    const controller = new AbortController();
+    const { promise, states } = run(provider(async (_prompt, _image, _ratio, _settings, options) => {
+      controller.abort();
+      throw options?.signal?.reason;
+    }), jobs(3), { concurrency: 1, signal: controller.signal });
+    await promise;
+    expect(Object.values(states).map(s => s.at(-1)?.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+});
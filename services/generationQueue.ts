@@ -0,0 +1,111 @@
+import { VideoGenerationSettings } from "../types";
+import type { VideoGenerationProvider, VeoAspectRatio, OperationProgress } from "./providers";
+import { abortableDelay, isAbortError } from "./polling";
+import { toServiceError, ServiceError } from "./errors";
+import { toStartImage } from "./startImage";
+import { withResolvedSeed } from "./videoSettings";
+
+export type GenerationJobStatus = 'queued' | 'running' | 'retrying' | 'failed' | 'done' | 'cancelled';
+
+export interface GenerationJob {
+  sceneId: number;
+  prompt: string;
+  startImage?: string; // data URL, kept with the finished take
+}
+
+export interface GenerationJobState {
+  status: GenerationJobStatus;
+  attempt: number; // 1-based; bumps on every retry
+  error?: ServiceError;
+  retryAt?: number; // epoch ms, only while status is 'retrying'
+  progress?: OperationProgress; // latest provider report, only while status is 'running'
+}
+
+export interface GenerationQueueOptions {
+  provider: VideoGenerationProvider;
+  aspectRatio: VeoAspectRatio;
+  settings: VideoGenerationSettings;
+  concurrency: number;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+  signal?: AbortSignal;
+  onJobUpdate: (sceneId: number, state: GenerationJobState) => void;
+  onJobDone: (job: GenerationJob, urls: string[], settings: VideoGenerationSettings) => void; // settings as sent, seed included
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_BACKOFF_MS = 15000;
+
+/**
+ * Runs every job through the video provider with at most `concurrency` in flight.
+ * Retryable errors (quota, network, server) back off exponentially (with jitter)
+ * before the job is retried; the rest (safety, permissions, payload size) would
+ * fail the same way again.
+ *
+ * Aborting cancels queued jobs, pending retries and the wait on running ones.
+ */
+export const runGenerationQueue = async (jobs: GenerationJob[], options: GenerationQueueOptions): Promise<void> => {
+  const {
+    provider, aspectRatio, settings, signal, onJobUpdate, onJobDone,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseBackoffMs = DEFAULT_BASE_BACKOFF_MS,
+  } = options;
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+
+  jobs.forEach(job => onJobUpdate(job.sceneId, { status: 'queued', attempt: 0 }));
+
+  let next = 0;
+  const runJob = async (job: GenerationJob) => {
+    // One seed per job, kept across retries
+    const jobSettings = withResolvedSeed(settings);
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        onJobUpdate(job.sceneId, { status: 'cancelled', attempt: attempt - 1 });
+        return;
+      }
+      onJobUpdate(job.sceneId, { status: 'running', attempt });
+      try {
+        const startImage = job.startImage ? await toStartImage(job.startImage) : undefined;
+        const urls = await provider.generateVideo(job.prompt, startImage, aspectRatio, jobSettings, {
+          signal,
+          onProgress: progress => onJobUpdate(job.sceneId, { status: 'running', attempt, progress }),
+        });
+        onJobUpdate(job.sceneId, { status: 'done', attempt });
+        onJobDone(job, urls, jobSettings);
+        return;
+      } catch (err: any) {
+        if (isAbortError(err)) {
+          onJobUpdate(job.sceneId, { status: 'cancelled', attempt });
+          return;
+        }
+        console.error(`Batch generation failed for scene ${job.sceneId}`, err);
+        const error = toServiceError(err);
+        if (!error.retryable || attempt > maxRetries) {
+          onJobUpdate(job.sceneId, { status: 'failed', attempt, error });
+          return;
+        }
+        const backoff = baseBackoffMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+        onJobUpdate(job.sceneId, { status: 'retrying', attempt, error, retryAt: Date.now() + backoff });
+        try {
+          await abortableDelay(backoff, signal);
+        } catch {
+          onJobUpdate(job.sceneId, { status: 'cancelled', attempt, error });
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+      if (signal?.aborted) {
+        onJobUpdate(job.sceneId, { status: 'cancelled', attempt: 0 });
+        continue;
+      }
+      await runJob(job);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+};
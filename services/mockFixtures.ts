@@ -0,0 +1,67 @@
+import { AnalysisResult } from "../types";
+
+/**
+ * Canned storyboard returned by the mock analysis provider.
+ * Shaped exactly like a real Gemini response so the UI can be developed offline.
+ */
+export const MOCK_ANALYSIS_RESULT: AnalysisResult = {
+  title: "Morning Coffee Ritual: The 15-Second Hook",
+  summary: "A cozy lifestyle short built around a slow-motion pour. The hook is the extreme macro shot in the first second, followed by quick beat-synced cuts and a warm reveal of the finished cup with a text CTA.",
+  scenes: [
+    {
+      id: 1,
+      timeRange: "00:00 - 00:03",
+      visualDescription: "Extreme close-up of coffee beans tumbling into a grinder, backlit by morning sun.",
+      cameraMovement: "Static macro shot, 100mm lens, shallow depth of field.",
+      aiImagePrompt: "Extreme macro photograph of roasted coffee beans falling into a burr grinder, golden hour backlight, dust particles in the air, shallow depth of field, photorealistic, 8k",
+      aiVideoPrompt: "Slow-motion macro shot of coffee beans tumbling into a grinder, warm sunlight streaming from behind, particles floating, static camera",
+      voiceoverScript: "Your mornings deserve better.",
+      audio: { musicMood: "Lo-fi acoustic", bpm: 84, sfx: ["grinder whir", "beans rattling"], speaker: "Soft female narrator" },
+    },
+    {
+      id: 2,
+      timeRange: "00:03 - 00:07",
+      visualDescription: "Hot water spirals from a gooseneck kettle into a pour-over dripper, steam rising.",
+      cameraMovement: "Slow push-in from a 45-degree high angle.",
+      aiImagePrompt: "Gooseneck kettle pouring water into a ceramic pour-over dripper, steam rising, minimalist kitchen, soft natural light, editorial food photography",
+      aiVideoPrompt: "Camera slowly pushes in as a thin stream of hot water spirals into a pour-over dripper, steam curling upward, soft window light",
+      audio: { musicMood: "Lo-fi acoustic", bpm: 84, sfx: ["kettle pour"], cutsOnBeat: true },
+    },
+    {
+      id: 3,
+      timeRange: "00:07 - 00:11",
+      visualDescription: "Coffee drips into a glass carafe; quick cut to hands wrapping around a mug.",
+      cameraMovement: "Rack focus from carafe to background, then handheld close-up.",
+      aiImagePrompt: "Glass carafe filling with dark coffee, hands holding a speckled ceramic mug in the background, cozy atmosphere, warm tones, film grain",
+      aiVideoPrompt: "Rack focus from dripping coffee in a glass carafe to hands cradling a mug, subtle handheld sway, warm cozy mood",
+      voiceoverScript: "Slow down. Pour with intention.",
+      audio: { musicMood: "Lo-fi acoustic", bpm: 84, sfx: ["coffee drip"], cutsOnBeat: true, speaker: "Soft female narrator" },
+    },
+    {
+      id: 4,
+      timeRange: "00:11 - 00:15",
+      visualDescription: "Person sips by the window, city skyline behind them, on-screen text 'Save this for tomorrow'.",
+      cameraMovement: "Gentle orbit around the subject at eye level.",
+      aiImagePrompt: "Young person sipping coffee by a large window overlooking a city skyline at sunrise, cinematic lighting, candid lifestyle portrait, 35mm",
+      aiVideoPrompt: "Smooth orbit around a person sipping coffee by a sunlit window, city skyline in the background, golden hour glow",
+      voiceoverScript: "Save this for tomorrow.",
+      textOverlays: [
+        { text: "Save this for tomorrow ☕", start: 1.5, position: "bottom", font: "sans", fontWeight: "bold", color: "#FFFFFF", backgroundColor: "#000000B3", animation: "pop-in" },
+      ],
+      audio: { musicMood: "Lo-fi acoustic, resolving", bpm: 84, sfx: ["sip"], speaker: "Soft female narrator" },
+    },
+  ],
+  viralAnalysis: {
+    hookType: "Visual ASMR macro",
+    hookBreakdown: "The first second is an extreme macro of beans falling in backlight with a crisp grinder sound; the unusual scale and texture stop the scroll before any context is given.",
+    patternInterrupts: [
+      { time: "00:03", description: "Hard cut from macro to the kettle pour on the beat." },
+      { time: "00:07", description: "Rack focus pulls attention from the carafe to the hands." },
+      { time: "00:11", description: "Wide window shot opens the frame up after three tight shots." },
+    ],
+    emotionalArc: "Curiosity (what is this texture?) to calm (slow pour) to aspiration (serene morning view).",
+    ctaPlacement: "On-screen text and voiceover in the last 4 seconds: 'Save this for tomorrow'.",
+    audioNotes: "Lo-fi acoustic track with amplified foley (grinder, pour, sip); soft, close-mic voiceover.",
+    formatNotes: "15-second vertical short, no face until the final scene, text overlay only on the CTA.",
+  },
+};
@@ -0,0 +1,173 @@
+import { AnalysisResult, ScenePromptFields, VideoGenerationSettings } from "../types";
+import type { AnalysisProvider, VideoGenerationProvider, VeoAspectRatio, StartImage, SceneRegenerationRequest, OperationOptions, AnalysisOptions } from "./providers";
+import { MOCK_ANALYSIS_RESULT } from "./mockFixtures";
+import { DEFAULT_PRESET } from "./analysisPresets";
+import { abortableDelay, throwIfAborted } from "./polling";
+import { DEFAULT_VIDEO_SETTINGS, normalizeVideoSettings } from "./videoSettings";
+
+const MOCK_ANALYSIS_DELAY_MS = 1500;
+const MOCK_CLIP_DURATION_MS = 2000;
+const MOCK_CLIP_FPS = 24;
+
+/**
+ * Stable 32-bit hash so the same prompt always yields the same placeholder colour.
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export const mockAnalyzeVideo = async (file: File, options: AnalysisOptions = {}): Promise<AnalysisResult> => {
+  const { signal, onProgress, preset = DEFAULT_PRESET } = options;
+  console.log(`[mock] Analyzing ${file.name} (${file.size} bytes) with preset "${preset.name}"`);
+  // Pretend to upload in a few steps so the progress UI can be exercised offline
+  for (let step = 1; step <= 4; step++) {
+    await abortableDelay(MOCK_ANALYSIS_DELAY_MS / 8, signal);
+    onProgress?.({ stage: 'uploading', loadedBytes: (file.size * step) / 4, totalBytes: file.size });
+  }
+  onProgress?.({ stage: 'analyzing' });
+  await abortableDelay(MOCK_ANALYSIS_DELAY_MS / 2, signal);
+  // Deep copy so callers can mutate the result freely
+  const result: AnalysisResult = JSON.parse(JSON.stringify(MOCK_ANALYSIS_RESULT));
+  return { ...result, presetId: preset.id };
+};
+
+/**
+ * Returns a predictable rewrite of the scene so the compare/accept flow can be exercised offline.
+ */
+export const mockRegenerateScene = async (
+  file: File | null,
+  request: SceneRegenerationRequest,
+  options: AnalysisOptions = {}
+): Promise<ScenePromptFields> => {
+  const { scene, hint } = request;
+  options.onProgress?.({ stage: 'analyzing' });
+  await abortableDelay(MOCK_ANALYSIS_DELAY_MS, options.signal);
+  const suffix = hint ? `, ${hint}` : ', refined';
+  return {
+    visualDescription: `${scene.visualDescription} (regenerated)`,
+    cameraMovement: scene.cameraMovement,
+    aiImagePrompt: `${scene.aiImagePrompt}${suffix}`,
+    aiVideoPrompt: `${scene.aiVideoPrompt}${suffix}`,
+    voiceoverScript: scene.voiceoverScript,
+    textOverlays: scene.textOverlays,
+    audio: scene.audio,
+  };
+};
+
+// Renders one placeholder clip in real time
+const recordMockClip = async (
+  prompt: string,
+  title: string,
+  hue: number,
+  startImage: HTMLImageElement | null,
+  aspectRatio: VeoAspectRatio,
+  options: OperationOptions
+): Promise<string> => {
+  const { signal, onProgress } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = aspectRatio === '16:9' ? 640 : 360;
+  canvas.height = aspectRatio === '16:9' ? 360 : 640;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  const label = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+  const totalFrames = Math.round((MOCK_CLIP_DURATION_MS / 1000) * MOCK_CLIP_FPS);
+
+  const drawFrame = (frame: number) => {
+    const t = frame / totalFrames;
+    if (startImage) {
+      ctx.drawImage(startImage, 0, 0, canvas.width, canvas.height);
+    } else {
+      const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+      gradient.addColorStop(0, `hsl(${hue}, 60%, 25%)`);
+      gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 45%)`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    // Progress bar so playback is visibly "moving"
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.fillRect(0, canvas.height - 8, canvas.width * t, 8);
+    ctx.font = 'bold 20px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(title, canvas.width / 2, canvas.height / 2 - 12);
+    ctx.font = '12px sans-serif';
+    ctx.fillText(label, canvas.width / 2, canvas.height / 2 + 14);
+  };
+
+  const stream = canvas.captureStream(MOCK_CLIP_FPS);
+  const chunks: Blob[] = [];
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const startedAt = Date.now();
+  recorder.start();
+  try {
+    for (let frame = 0; frame <= totalFrames; frame++) {
+      drawFrame(frame);
+      if (frame % MOCK_CLIP_FPS === 0) {
+        onProgress?.({ stage: 'generating', state: 'RENDERING', elapsedMs: Date.now() - startedAt });
+      }
+      await abortableDelay(1000 / MOCK_CLIP_FPS, signal);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+
+  return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+/**
+ * Records short animated placeholder clips on a canvas, one after another. The
+ * frame content only depends on the prompt, aspect ratio, seed and clip number,
+ * so repeated runs look identical.
+ */
+export const mockGenerateVideo = async (
+  prompt: string,
+  startImageData: StartImage | undefined,
+  aspectRatio: VeoAspectRatio,
+  settings: VideoGenerationSettings = DEFAULT_VIDEO_SETTINGS,
+  options: OperationOptions = {}
+): Promise<string[]> => {
+  const { signal } = options;
+  const { seed, numberOfVideos } = normalizeVideoSettings(settings);
+  throwIfAborted(signal);
+
+  let startImage: HTMLImageElement | null = null;
+  if (startImageData) {
+    startImage = new Image();
+    startImage.src = `data:${startImageData.mimeType};base64,${startImageData.imageBytes}`;
+    await startImage.decode().catch(() => { startImage = null; });
+  }
+
+  const urls: string[] = [];
+  for (let index = 0; index < numberOfVideos; index++) {
+    const hue = (hashString(prompt) + (seed ?? 0) + index * 47) % 360;
+    const title = numberOfVideos > 1 ? `MOCK CLIP ${index + 1}/${numberOfVideos}` : 'MOCK CLIP';
+    urls.push(await recordMockClip(prompt, title, hue, startImage, aspectRatio, options));
+  }
+  return urls;
+};
+
+export const mockAnalysisProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  promptVersion: 'fixture/v1',
+  analyzeVideo: mockAnalyzeVideo,
+  regenerateScene: mockRegenerateScene,
+};
+
+export const mockVideoProvider: VideoGenerationProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateVideo: mockGenerateVideo,
+};
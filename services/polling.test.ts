@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { withDeadline, pollUntil, abortableDelay, isAbortError } from './polling';
+import { TimeoutError } from './errors';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withDeadline', () => {
+  it('aborts with a TimeoutError naming the operation once the deadline passes', () => {
+    vi.useFakeTimers();
+    const { signal } = withDeadline('Upload', 120000);
+    vi.advanceTimersByTime(119999);
+    expect(signal.aborted).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(signal.reason).toBeInstanceOf(TimeoutError);
+    expect(signal.reason.message).toBe('Upload timed out after 2 min.');
+    expect(isAbortError(signal.reason)).toBe(false);
+  });
+
+  it('forwards a caller abort with its reason', () => {
+    const controller = new AbortController();
+    const { signal, dispose } = withDeadline('Upload', 60000, controller.signal);
+    controller.abort();
+    expect(signal.aborted).toBe(true);
+    expect(isAbortError(signal.reason)).toBe(true);
+    dispose();
+  });
+
+  it('starts aborted when the caller already cancelled', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(withDeadline('Upload', 60000, controller.signal).signal.aborted).toBe(true);
+  });
+
+  it('stops both the deadline and forwarding after dispose', () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const { signal, dispose } = withDeadline('Upload', 1000, controller.signal);
+    dispose();
+    vi.advanceTimersByTime(5000);
+    controller.abort();
+    expect(signal.aborted).toBe(false);
+  });
+});
+
+describe('pollUntil', () => {
+  it('polls with capped exponential backoff until a value arrives', async () => {
+    vi.useFakeTimers();
+    const check = vi.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce('ready');
+    const promise = pollUntil(check, { initialDelayMs: 100, factor: 2, maxDelayMs: 150 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(check).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(check).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(149);
+    expect(check).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(check).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(150);
+    await expect(promise).resolves.toBe('ready');
+    expect(check).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects as soon as the signal aborts while waiting', async () => {
+    const controller = new AbortController();
+    const check = vi.fn().mockResolvedValue(undefined);
+    const promise = pollUntil(check, { signal: controller.signal, initialDelayMs: 60000 });
+    await abortableDelay(0);
+    controller.abort();
+    await expect(promise).rejects.toSatisfy(isAbortError);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not call check once already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const check = vi.fn();
+    await expect(pollUntil(check, { signal: controller.signal })).rejects.toSatisfy(isAbortError);
+    expect(check).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { TimeoutError } from "./errors";
+
+export interface PollOptions {
+  signal?: AbortSignal;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+const DEFAULT_FACTOR = 1.5;
+
+/**
+ * True for the rejection produced by a user cancel, as opposed to a deadline or
+ * a real failure. Callers use it to skip error messages for cancelled work.
+ */
+export const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+/**
+ * Rejects with the signal's reason if it has already fired.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+  }
+};
+
+/**
+ * Waits `ms`, rejecting straight away if the signal aborts in the meantime.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Derives a signal that fires when the caller aborts or when `deadlineMs` runs
+ * out, whichever comes first. A deadline aborts with a TimeoutError naming the
+ * operation, so it surfaces as a failure rather than a silent cancel.
+ * Call `dispose` once the operation settles to clear the timer.
+ */
+export const withDeadline = (
+  label: string,
+  deadlineMs: number | undefined,
+  signal?: AbortSignal
+): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = deadlineMs !== undefined
+    ? setTimeout(() => {
+        const minutes = Math.round(deadlineMs / 60000);
+        controller.abort(new TimeoutError(`${label} timed out after ${minutes > 0 ? `${minutes} min` : `${Math.ceil(deadlineMs / 1000)} s`}.`));
+      }, deadlineMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+/**
+ * Calls `check` until it returns a non-undefined value, waiting between calls
+ * with exponential backoff (2 s, 3 s, 4.5 s, ... capped at 15 s by default).
+ */
+export const pollUntil = async <T>(
+  check: () => Promise<T | undefined>,
+  options: PollOptions = {}
+): Promise<T> => {
+  const {
+    signal,
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    factor = DEFAULT_FACTOR,
+  } = options;
+
+  let delayMs = initialDelayMs;
+  while (true) {
+    throwIfAborted(signal);
+    const result = await check();
+    if (result !== undefined) return result;
+    await abortableDelay(delayMs, signal);
+    delayMs = Math.min(maxDelayMs, delayMs * factor);
+  }
+};
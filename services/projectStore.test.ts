@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalysisResult } from '../types';
+
+const DB_NAME = 'viral-replicator';
+
+const result = (title: string, sceneCount = 2): AnalysisResult => ({
+  title,
+  summary: '',
+  scenes: Array.from({ length: sceneCount }, (_, i) => ({
+    id: i + 1, timeRange: '', visualDescription: '', cameraMovement: '', aiImagePrompt: '', aiVideoPrompt: '',
+  })),
+});
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Creates the database as version 1 of the app left it: projects with their
+ * video inline, and one clip per scene.
+ */
+const seedVersion1 = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore('projects', { keyPath: 'id' });
+    db.createObjectStore('clips', { keyPath: ['projectId', 'sceneId'] }).createIndex('byProject', 'projectId');
+    const tx = request.transaction!;
+    tx.objectStore('projects').put({
+      id: 'p1', name: 'Old', createdAt: 1, updatedAt: 1,
+      videoBlob: new Blob(['video']), videoName: 'ref.mp4', videoMimeType: 'video/mp4', result: result('Old'),
+    });
+    tx.objectStore('clips').put({ projectId: 'p1', sceneId: 2, blob: new Blob(['clip']), createdAt: 5 });
+  };
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const readRawProject = async (id: string) => {
+  const db = await requestToPromise(indexedDB.open(DB_NAME));
+  const project = await requestToPromise(db.transaction('projects').objectStore('projects').get(id));
+  db.close();
+  return project;
+};
+
+// Every test gets an empty browser database and a store module without a cached connection
+const loadStore = () => import('./projectStore');
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.resetModules();
+});
+
+describe('projectStore', () => {
+  it('keeps the reference video out of the project list but returns it with the project', async () => {
+    const store = await loadStore();
+    const video = new File(['video'], 'ref.mp4', { type: 'video/mp4' });
+    const project = await store.createProject(video, result('New', 3));
+
+    expect(await store.listProjects()).toEqual([
+      { id: project.id, name: 'New', createdAt: project.createdAt, updatedAt: project.updatedAt, sceneCount: 3, videoName: 'ref.mp4' },
+    ]);
+    expect(await readRawProject(project.id)).not.toHaveProperty('videoBlob');
+    expect(await (await store.getProject(project.id))!.videoBlob!.text()).toBe('video');
+  });
+
+  it('migrates a version 1 database: clips become takes and videos move to their own store', async () => {
+    await seedVersion1();
+    const store = await loadStore();
+
+    const project = await store.getProject('p1');
+    expect(project).toMatchObject({ name: 'Old', videoName: 'ref.mp4' });
+    expect(await project!.videoBlob!.text()).toBe('video');
+    expect(await readRawProject('p1')).not.toHaveProperty('videoBlob');
+
+    const takes = await store.getTakes('p1');
+    expect(takes).toHaveLength(1);
+    expect(takes[0]).toMatchObject({ projectId: 'p1', sceneId: 2, createdAt: 5, starred: false });
+    expect(await takes[0].blob.text()).toBe('clip');
+  });
+
+  it('copies the video and takes when duplicating and removes both when deleting', async () => {
+    const store = await loadStore();
+    const { id } = await store.createProject(new File(['video'], 'ref.mp4'), result('Source'));
+    await store.saveTake(id, { id: 't1', sceneId: 1, url: 'blob:x', createdAt: 1, starred: true }, new Blob(['clip']));
+
+    const copy = await store.duplicateProject(id);
+    expect(copy.name).toBe('Source (Copy)');
+    expect(await (await store.getProject(copy.id))!.videoBlob!.text()).toBe('video');
+    expect((await store.getTakes(copy.id)).map(take => take.id)).toEqual(['t1']);
+
+    await store.deleteProject(id);
+    expect(await store.getProject(id)).toBeUndefined();
+    expect(await store.getTakes(id)).toEqual([]);
+    expect(await store.getTakes(copy.id)).toHaveLength(1);
+  });
+
+  it('finds the latest project saved from an analysis, ignoring other videos and prompts', async () => {
+    const store = await loadStore();
+    const analysis = { videoHash: 'abc', promptVersion: 'gemini:v1' };
+    const first = await store.createProject(new File(['video'], 'ref.mp4'), result('First'), analysis);
+    await store.createProject(new File(['video'], 'ref.mp4'), result('Other prompt'), { ...analysis, promptVersion: 'gemini:v2' });
+    await store.createProject(null, result('Imported'));
+    expect((await store.findProjectByAnalysis('abc', 'gemini:v1'))?.id).toBe(first.id);
+
+    await new Promise(resolve => setTimeout(resolve, 2));
+    const copy = await store.duplicateProject(first.id);
+    expect((await store.findProjectByAnalysis('abc', 'gemini:v1'))?.id).toBe(copy.id);
+    expect(await store.findProjectByAnalysis('def', 'gemini:v1')).toBeUndefined();
+  });
+
+  it('reports edits to a project that no longer exists', async () => {
+    const store = await loadStore();
+    await expect(store.renameProject('missing', 'Name')).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,428 @@
+import { AnalysisResult, AnalysisPreset, ProjectRecord, ProjectSummary, SceneTake } from "../types";
+
+const DB_NAME = 'viral-replicator';
+const DB_VERSION = 6;
+const PROJECTS_STORE = 'projects';
+const VIDEOS_STORE = 'videos'; // reference videos, kept apart so listing projects never reads them
+const LEGACY_CLIPS_STORE = 'clips'; // one clip per scene, replaced by takes in version 4
+const TAKES_STORE = 'takes';
+const UPLOADS_STORE = 'uploads';
+const ANALYSES_STORE = 'analyses';
+const PRESETS_STORE = 'presets';
+
+// A clip as stored before version 4; only read by the migration
+interface ClipRecord {
+  projectId: string;
+  sceneId: number;
+  blob: Blob;
+  createdAt: number;
+}
+
+// A project row as stored since version 5; the reference video lives in VIDEOS_STORE
+type StoredProject = Omit<ProjectRecord, 'videoBlob'>;
+
+interface VideoRecord {
+  projectId: string;
+  blob: Blob;
+}
+
+/**
+ * A stored take: the clip itself plus everything in `SceneTake` except its object URL.
+ */
+export interface TakeRecord extends Omit<SceneTake, 'url'> {
+  projectId: string;
+  blob: Blob;
+}
+
+/**
+ * A video already sitting in the Gemini File API, keyed by the SHA-256 of its bytes.
+ */
+export interface CachedUpload {
+  hash: string;
+  fileUri: string;
+  mimeType: string;
+  expiresAt: number; // epoch ms; the File API deletes uploads after ~48 h
+}
+
+/**
+ * The most recent analysis of a video for one provider + prompt version.
+ */
+export interface CachedAnalysis {
+  hash: string;
+  promptVersion: string;
+  result: AnalysisResult;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Turns every clip saved before version 4 into an unstarred take, then drops
+ * the old store. Runs inside the upgrade transaction, so it is all or nothing.
+ */
+const migrateClipsToTakes = (db: IDBDatabase, tx: IDBTransaction) => {
+  const takes = tx.objectStore(TAKES_STORE);
+  const request = tx.objectStore(LEGACY_CLIPS_STORE).getAll() as IDBRequest<ClipRecord[]>;
+  request.onsuccess = () => {
+    request.result.forEach(clip => {
+      const take: TakeRecord = {
+        id: generateId(),
+        projectId: clip.projectId,
+        sceneId: clip.sceneId,
+        blob: clip.blob,
+        createdAt: clip.createdAt,
+        starred: false,
+      };
+      takes.put(take);
+    });
+    db.deleteObjectStore(LEGACY_CLIPS_STORE);
+  };
+};
+
+/**
+ * Moves each project's reference video out of its row and into the videos
+ * store. Runs inside the upgrade transaction, so it is all or nothing.
+ */
+const migrateProjectVideos = (tx: IDBTransaction) => {
+  const videos = tx.objectStore(VIDEOS_STORE);
+  const request = tx.objectStore(PROJECTS_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const { videoBlob, ...project } = cursor.value as ProjectRecord;
+    if (videoBlob) {
+      const video: VideoRecord = { projectId: project.id, blob: videoBlob };
+      videos.put(video);
+    }
+    cursor.update(project);
+    cursor.continue();
+  };
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const projects = db.objectStoreNames.contains(PROJECTS_STORE)
+        ? request.transaction!.objectStore(PROJECTS_STORE)
+        : db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      // Projects saved before version 6 have no analysis key and are left out of the index
+      if (!projects.indexNames.contains('byAnalysis')) {
+        projects.createIndex('byAnalysis', ['videoHash', 'promptVersion']);
+      }
+      if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+        db.createObjectStore(VIDEOS_STORE, { keyPath: 'projectId' });
+        if (event.oldVersion > 0) {
+          migrateProjectVideos(request.transaction!);
+        }
+      }
+      if (!db.objectStoreNames.contains(TAKES_STORE)) {
+        const takes = db.createObjectStore(TAKES_STORE, { keyPath: ['projectId', 'id'] });
+        takes.createIndex('byProject', 'projectId');
+      }
+      if (db.objectStoreNames.contains(LEGACY_CLIPS_STORE)) {
+        migrateClipsToTakes(db, request.transaction!);
+      }
+      if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+        db.createObjectStore(UPLOADS_STORE, { keyPath: 'hash' });
+      }
+      if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+        db.createObjectStore(ANALYSES_STORE, { keyPath: ['hash', 'promptVersion'] });
+      }
+      if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+        db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * Wraps a single IDBRequest in a promise.
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves once the transaction commits, so callers know the write is durable.
+ */
+const done = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const generateId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const toSummary = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  sceneCount: project.result.scenes.length,
+  videoName: project.videoName,
+});
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const projects = await promisify(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<StoredProject[]>);
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<ProjectRecord | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE], 'readonly');
+  const [project, video] = await Promise.all([
+    promisify(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<StoredProject | undefined>),
+    promisify(tx.objectStore(VIDEOS_STORE).get(id) as IDBRequest<VideoRecord | undefined>),
+  ]);
+  return project && { ...project, videoBlob: video?.blob ?? null };
+};
+
+/**
+ * Saves a new project. `analysis` identifies the video and prompt the result came
+ * from, so a later cache hit for the same pair reopens this project.
+ */
+export const createProject = async (
+  videoFile: File | null,
+  result: AnalysisResult,
+  analysis?: { videoHash: string; promptVersion: string },
+): Promise<ProjectRecord> => {
+  const now = Date.now();
+  const project: ProjectRecord = {
+    id: generateId(),
+    name: result.title,
+    createdAt: now,
+    updatedAt: now,
+    videoBlob: videoFile,
+    videoName: videoFile?.name ?? null,
+    videoMimeType: videoFile?.type ?? null,
+    result,
+    originalResult: result,
+    ...analysis,
+  };
+  const { videoBlob, ...row } = project;
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(row);
+  if (videoBlob) {
+    const video: VideoRecord = { projectId: project.id, blob: videoBlob };
+    tx.objectStore(VIDEOS_STORE).put(video);
+  }
+  await done(tx);
+  return project;
+};
+
+/**
+ * The most recently edited project analysed from this video with this prompt version.
+ */
+export const findProjectByAnalysis = async (videoHash: string, promptVersion: string): Promise<ProjectRecord | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const matches = await promisify(
+    tx.objectStore(PROJECTS_STORE).index('byAnalysis').getAll([videoHash, promptVersion]) as IDBRequest<StoredProject[]>
+  );
+  const latest = matches.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  return latest && getProject(latest.id);
+};
+
+/**
+ * Applies a partial update inside a single transaction and bumps `updatedAt`.
+ */
+const updateProject = async (
+  id: string,
+  changes: Partial<Omit<StoredProject, 'id'>>,
+  videoBlob?: Blob,
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE], 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const existing = await promisify(store.get(id) as IDBRequest<StoredProject | undefined>);
+  if (!existing) {
+    throw new Error(`Project ${id} not found.`);
+  }
+  store.put({ ...existing, ...changes, updatedAt: Date.now() });
+  if (videoBlob) {
+    const video: VideoRecord = { projectId: id, blob: videoBlob };
+    tx.objectStore(VIDEOS_STORE).put(video);
+  }
+  await done(tx);
+};
+
+export const saveProjectResult = (id: string, result: AnalysisResult) => updateProject(id, { result });
+
+export const saveSelectedTakes = (id: string, selectedTakes: Record<number, string>) => updateProject(id, { selectedTakes });
+
+export const renameProject = (id: string, name: string) => updateProject(id, { name });
+
+export const attachProjectVideo = (id: string, videoFile: File) =>
+  updateProject(id, { videoName: videoFile.name, videoMimeType: videoFile.type }, videoFile);
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE, TAKES_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const videos = tx.objectStore(VIDEOS_STORE);
+  const takes = tx.objectStore(TAKES_STORE);
+
+  const source = await promisify(projects.get(id) as IDBRequest<StoredProject | undefined>);
+  if (!source) {
+    throw new Error(`Project ${id} not found.`);
+  }
+  const video = await promisify(videos.get(id) as IDBRequest<VideoRecord | undefined>);
+  const sourceTakes = await promisify(takes.index('byProject').getAll(id) as IDBRequest<TakeRecord[]>);
+
+  const now = Date.now();
+  const copy: StoredProject = {
+    ...source,
+    id: generateId(),
+    name: `${source.name} (Copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  projects.put(copy);
+  if (video) {
+    videos.put({ ...video, projectId: copy.id });
+  }
+  // Take ids only need to be unique within a project, so selections carry over as they are
+  sourceTakes.forEach(take => takes.put({ ...take, projectId: copy.id }));
+  await done(tx);
+  return { ...copy, videoBlob: video?.blob ?? null };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE, TAKES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(VIDEOS_STORE).delete(id);
+  const takes = tx.objectStore(TAKES_STORE);
+  const keys = await promisify(takes.index('byProject').getAllKeys(id));
+  keys.forEach(key => takes.delete(key));
+  await done(tx);
+};
+
+// --- Generated Takes ---
+
+export const saveTake = async (projectId: string, take: SceneTake, blob: Blob): Promise<void> => {
+  const { url, ...fields } = take; // object URLs die with the page
+  const db = await openDb();
+  const tx = db.transaction(TAKES_STORE, 'readwrite');
+  const record: TakeRecord = { ...fields, projectId, blob };
+  tx.objectStore(TAKES_STORE).put(record);
+  await done(tx);
+};
+
+export const setTakeStarred = async (projectId: string, takeId: string, starred: boolean): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TAKES_STORE, 'readwrite');
+  const store = tx.objectStore(TAKES_STORE);
+  const existing = await promisify(store.get([projectId, takeId]) as IDBRequest<TakeRecord | undefined>);
+  if (!existing) {
+    throw new Error(`Take ${takeId} not found.`);
+  }
+  store.put({ ...existing, starred });
+  await done(tx);
+};
+
+export const deleteTake = async (projectId: string, takeId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TAKES_STORE, 'readwrite');
+  tx.objectStore(TAKES_STORE).delete([projectId, takeId]);
+  await done(tx);
+};
+
+/**
+ * Returns every stored take for a project, oldest first.
+ */
+export const getTakes = async (projectId: string): Promise<TakeRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(TAKES_STORE, 'readonly');
+  const records = await promisify(tx.objectStore(TAKES_STORE).index('byProject').getAll(projectId) as IDBRequest<TakeRecord[]>);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// --- Upload & Analysis Cache ---
+
+export const getCachedUpload = async (hash: string): Promise<CachedUpload | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(UPLOADS_STORE, 'readonly');
+  return promisify(tx.objectStore(UPLOADS_STORE).get(hash) as IDBRequest<CachedUpload | undefined>);
+};
+
+export const saveCachedUpload = async (upload: CachedUpload): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(UPLOADS_STORE, 'readwrite');
+  tx.objectStore(UPLOADS_STORE).put(upload);
+  await done(tx);
+};
+
+export const deleteCachedUpload = async (hash: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(UPLOADS_STORE, 'readwrite');
+  tx.objectStore(UPLOADS_STORE).delete(hash);
+  await done(tx);
+};
+
+export const getCachedAnalysis = async (hash: string, promptVersion: string): Promise<CachedAnalysis | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSES_STORE, 'readonly');
+  return promisify(tx.objectStore(ANALYSES_STORE).get([hash, promptVersion]) as IDBRequest<CachedAnalysis | undefined>);
+};
+
+export const saveCachedAnalysis = async (hash: string, promptVersion: string, result: AnalysisResult): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSES_STORE, 'readwrite');
+  const record: CachedAnalysis = { hash, promptVersion, result, createdAt: Date.now() };
+  tx.objectStore(ANALYSES_STORE).put(record);
+  await done(tx);
+};
+
+// --- Custom Analysis Presets ---
+
+export const listCustomPresets = async (): Promise<AnalysisPreset[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readonly');
+  const presets = await promisify(tx.objectStore(PRESETS_STORE).getAll() as IDBRequest<AnalysisPreset[]>);
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getCustomPreset = async (id: string): Promise<AnalysisPreset | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readonly');
+  return promisify(tx.objectStore(PRESETS_STORE).get(id) as IDBRequest<AnalysisPreset | undefined>);
+};
+
+export const saveCustomPreset = async (preset: AnalysisPreset): Promise<AnalysisPreset> => {
+  const record: AnalysisPreset = { ...preset, builtIn: false, updatedAt: Date.now() };
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).put(record);
+  await done(tx);
+  return record;
+};
+
+export const deleteCustomPreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).delete(id);
+  await done(tx);
+};
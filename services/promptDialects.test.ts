@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { StoryboardScene } from '../types';
+import { readPromptVariants, renderPromptDialect, formatDialectForCopy } from './promptDialects';
+
+const scene = (changes: Partial<StoryboardScene> = {}): StoryboardScene => ({
+  id: 1,
+  timeRange: '00:00 - 00:03',
+  visualDescription: '',
+  cameraMovement: 'Slow dolly in.',
+  aiImagePrompt: 'A red fox in snow, golden hour, shallow depth of field.',
+  aiVideoPrompt: 'A red fox trots through fresh snow.',
+  ...changes,
+});
+
+describe('readPromptVariants', () => {
+  it('keeps non-empty string variants and records the prompts they came from', () => {
+    expect(readPromptVariants({ midjourney: ' fox --v 6 ', runway: '', luma: 42 }, 'image', 'video')).toEqual({
+      midjourney: 'fox --v 6',
+      basedOn: { aiImagePrompt: 'image', aiVideoPrompt: 'video' },
+    });
+  });
+
+  it('returns undefined when nothing usable is left', () => {
+    expect(readPromptVariants(null, 'image', 'video')).toBeUndefined();
+    expect(readPromptVariants({ runway: ' ' }, 'image', 'video')).toBeUndefined();
+  });
+});
+
+describe('renderPromptDialect', () => {
+  it('returns the generic prompt unchanged', () => {
+    expect(renderPromptDialect(scene(), 'image', 'generic', '16:9')).toEqual({
+      prompt: 'A red fox in snow, golden hour, shallow depth of field.',
+      isDerived: false,
+    });
+  });
+
+  it('formats Midjourney prompts with the project aspect ratio, replacing any the model wrote', () => {
+    expect(renderPromptDialect(scene(), 'image', 'midjourney', '9:16')).toEqual({
+      prompt: 'A red fox in snow, golden hour, shallow depth of field --ar 9:16 --style raw',
+      isDerived: true,
+    });
+    const withVariant = scene({
+      promptVariants: { midjourney: 'fox in snow --ar 1:1 --v 6', basedOn: { aiImagePrompt: scene().aiImagePrompt, aiVideoPrompt: scene().aiVideoPrompt } },
+    });
+    expect(renderPromptDialect(withVariant, 'image', 'midjourney', '9:16')).toEqual({
+      prompt: 'fox in snow --v 6 --ar 9:16',
+      isDerived: false,
+    });
+  });
+
+  it('weights the subject for Stable Diffusion and adds a negative prompt', () => {
+    const dialect = renderPromptDialect(scene(), 'image', 'stable-diffusion', '16:9');
+    expect(dialect.prompt).toBe('(A red fox in snow:1.2), golden hour, shallow depth of field, highly detailed, sharp focus');
+    expect(dialect.negativePrompt).toMatch(/blurry/);
+    expect(dialect.isDerived).toBe(true);
+  });
+
+  it('leads with the camera move for Runway and ends with it for Luma', () => {
+    expect(renderPromptDialect(scene(), 'video', 'runway', '16:9').prompt).toBe('Slow dolly in: A red fox trots through fresh snow.');
+    expect(renderPromptDialect(scene(), 'video', 'luma', '16:9').prompt).toBe('A red fox trots through fresh snow. Camera: Slow dolly in.');
+    expect(renderPromptDialect(scene({ cameraMovement: '' }), 'video', 'runway', '16:9').prompt).toBe('A red fox trots through fresh snow.');
+  });
+
+  it('adds audio cues for Veo, or a generic ambience line when the scene has none', () => {
+    expect(renderPromptDialect(scene({ audio: { sfx: ['crunching snow'] } }), 'video', 'veo', '16:9').prompt)
+      .toBe('A red fox trots through fresh snow. Audio: sound effects: crunching snow.');
+    expect(renderPromptDialect(scene(), 'video', 'veo', '16:9').prompt)
+      .toBe('A red fox trots through fresh snow. Audio: ambient sound matching the scene.');
+  });
+
+  it('ignores a variant once the generic prompt it was written from has been edited', () => {
+    const edited = scene({
+      aiVideoPrompt: 'A grey wolf runs through fresh snow.',
+      promptVariants: { runway: 'Dolly in on the fox', basedOn: { aiImagePrompt: scene().aiImagePrompt, aiVideoPrompt: scene().aiVideoPrompt } },
+    });
+    expect(renderPromptDialect(edited, 'video', 'runway', '16:9')).toEqual({
+      prompt: 'Slow dolly in: A grey wolf runs through fresh snow.',
+      isDerived: true,
+    });
+  });
+});
+
+describe('formatDialectForCopy', () => {
+  it('appends the negative prompt when there is one', () => {
+    expect(formatDialectForCopy({ prompt: 'fox', isDerived: true })).toBe('fox');
+    expect(formatDialectForCopy({ prompt: 'fox', negativePrompt: 'blurry', isDerived: true })).toBe('fox\n\nNegative prompt: blurry');
+  });
+});
@@ -0,0 +1,129 @@
+import { StoryboardScene, ScenePromptVariants } from "../types";
+import { buildVeoPrompt } from "./sceneAudio";
+
+export type PromptTarget = 'generic' | 'midjourney' | 'stable-diffusion' | 'runway' | 'luma' | 'veo';
+
+export type PromptKind = 'image' | 'video';
+
+export const PROMPT_TARGETS: Record<PromptKind, { id: PromptTarget; label: string }[]> = {
+  image: [
+    { id: 'generic', label: 'Generic' },
+    { id: 'midjourney', label: 'Midjourney' },
+    { id: 'stable-diffusion', label: 'Stable Diffusion' },
+  ],
+  video: [
+    { id: 'generic', label: 'Generic' },
+    { id: 'runway', label: 'Runway' },
+    { id: 'luma', label: 'Luma' },
+    { id: 'veo', label: 'Veo' },
+  ],
+};
+
+export interface DialectPrompt {
+  prompt: string;
+  negativePrompt?: string;
+  // True when the text was formatted locally because the model wrote no (current) variant
+  isDerived: boolean;
+}
+
+const DEFAULT_NEGATIVE_PROMPT = 'blurry, low quality, deformed, extra limbs, bad anatomy, watermark, text, jpeg artifacts';
+const VARIANT_KEYS = ['midjourney', 'stableDiffusion', 'stableDiffusionNegative', 'runway', 'luma', 'veo'] as const;
+
+/**
+ * Keeps the string variants of a raw model value and records which generic
+ * prompts they were written from. Returns undefined when there is nothing usable.
+ */
+export const readPromptVariants = (
+  value: unknown,
+  aiImagePrompt: string,
+  aiVideoPrompt: string
+): ScenePromptVariants | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const record = value as Record<string, unknown>;
+  const variants: ScenePromptVariants = {};
+  VARIANT_KEYS.forEach(key => {
+    const text = record[key];
+    if (typeof text === 'string' && text.trim()) variants[key] = text.trim();
+  });
+  if (Object.keys(variants).length === 0) return undefined;
+  return { ...variants, basedOn: { aiImagePrompt, aiVideoPrompt } };
+};
+
+const stripEndPunctuation = (text: string) => text.trim().replace(/[.,;\s]+$/, '');
+
+/**
+ * The model's variant for a target, unless the generic prompt it was written from has since been edited.
+ */
+const currentVariant = (scene: StoryboardScene, kind: PromptKind, key: keyof Omit<ScenePromptVariants, 'basedOn'>) => {
+  const variants = scene.promptVariants;
+  if (!variants?.[key]) return undefined;
+  const source = kind === 'image' ? scene.aiImagePrompt : scene.aiVideoPrompt;
+  const basedOn = kind === 'image' ? variants.basedOn?.aiImagePrompt : variants.basedOn?.aiVideoPrompt;
+  return basedOn === undefined || basedOn === source ? variants[key] : undefined;
+};
+
+/**
+ * A scene's image or video prompt in the syntax of one target tool. Uses the
+ * model's variant when there is a current one, otherwise formats the generic
+ * prompt following that tool's conventions.
+ */
+export const renderPromptDialect = (
+  scene: StoryboardScene,
+  kind: PromptKind,
+  target: PromptTarget,
+  aspectRatio: string
+): DialectPrompt => {
+  const generic = kind === 'image' ? scene.aiImagePrompt : scene.aiVideoPrompt;
+
+  switch (target) {
+    case 'midjourney': {
+      const variant = currentVariant(scene, kind, 'midjourney');
+      // Aspect ratio is a project setting, so any --ar the model wrote is replaced
+      const body = stripEndPunctuation((variant ?? generic).replace(/\s--ar\s+\S+/g, ''));
+      const params = variant ? '' : ' --style raw';
+      return { prompt: `${body} --ar ${aspectRatio}${params}`, isDerived: !variant };
+    }
+    case 'stable-diffusion': {
+      const variant = currentVariant(scene, kind, 'stableDiffusion');
+      const negative = currentVariant(scene, kind, 'stableDiffusionNegative');
+      if (variant) return { prompt: variant, negativePrompt: negative ?? DEFAULT_NEGATIVE_PROMPT, isDerived: false };
+      // Emphasise the subject (the first phrase) and add the usual quality tokens
+      const [subject, ...rest] = generic.split(',').map(part => stripEndPunctuation(part)).filter(Boolean);
+      const tokens = subject ? [`(${subject}:1.2)`, ...rest] : rest;
+      return {
+        prompt: [...tokens, 'highly detailed', 'sharp focus'].join(', '),
+        negativePrompt: negative ?? DEFAULT_NEGATIVE_PROMPT,
+        isDerived: true,
+      };
+    }
+    case 'runway': {
+      const variant = currentVariant(scene, kind, 'runway');
+      if (variant) return { prompt: variant, isDerived: false };
+      const camera = stripEndPunctuation(scene.cameraMovement);
+      return { prompt: camera ? `${camera}: ${generic.trim()}` : generic.trim(), isDerived: true };
+    }
+    case 'luma': {
+      const variant = currentVariant(scene, kind, 'luma');
+      if (variant) return { prompt: variant, isDerived: false };
+      const camera = stripEndPunctuation(scene.cameraMovement);
+      return { prompt: camera ? `${stripEndPunctuation(generic)}. Camera: ${camera}.` : generic.trim(), isDerived: true };
+    }
+    case 'veo': {
+      const variant = currentVariant(scene, kind, 'veo');
+      if (variant) return { prompt: variant, isDerived: false };
+      const prompt = buildVeoPrompt(scene);
+      return {
+        prompt: prompt === generic.trim() ? `${stripEndPunctuation(generic)}. Audio: ambient sound matching the scene.` : prompt,
+        isDerived: true,
+      };
+    }
+    default:
+      return { prompt: generic, isDerived: false };
+  }
+};
+
+/**
+ * The text that goes on the clipboard for a dialect.
+ */
+export const formatDialectForCopy = (dialect: DialectPrompt): string =>
+  dialect.negativePrompt ? `${dialect.prompt}\n\nNegative prompt: ${dialect.negativePrompt}` : dialect.prompt;
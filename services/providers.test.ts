@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getProviderId, getAnalysisProvider, getVideoProvider } from './providers';
+import { mockAnalysisProvider } from './mockService';
+import { MOCK_ANALYSIS_RESULT } from './mockFixtures';
+import { DEFAULT_PRESET } from './analysisPresets';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('getProviderId', () => {
+  it('uses the real backend unless the mock is asked for', () => {
+    vi.stubEnv('PROVIDER', '');
+    expect(getProviderId()).toBe('gemini');
+    vi.stubEnv('PROVIDER', 'something-else');
+    expect(getProviderId()).toBe('gemini');
+  });
+
+  it('switches both providers to the mock', () => {
+    vi.stubEnv('PROVIDER', 'mock');
+    expect(getProviderId()).toBe('mock');
+    expect(getAnalysisProvider().id).toBe('mock');
+    expect(getVideoProvider().id).toBe('mock');
+  });
+});
+
+describe('mockAnalysisProvider', () => {
+  it('reports progress and returns a copy of the fixture tagged with the preset', async () => {
+    vi.useFakeTimers();
+    const onProgress = vi.fn();
+    const pending = mockAnalysisProvider.analyzeVideo(new File(['1234'], 'clip.mp4'), { onProgress });
+    await vi.runAllTimersAsync();
+    const result = await pending;
+
+    expect(result).toEqual({ ...MOCK_ANALYSIS_RESULT, presetId: DEFAULT_PRESET.id });
+    expect(result.scenes).not.toBe(MOCK_ANALYSIS_RESULT.scenes);
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'uploading', loadedBytes: 4, totalBytes: 4 });
+    expect(onProgress).toHaveBeenLastCalledWith({ stage: 'analyzing' });
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(mockAnalysisProvider.analyzeVideo(new File([''], 'clip.mp4'), { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('folds the hint into regenerated prompts', async () => {
+    vi.useFakeTimers();
+    const scene = MOCK_ANALYSIS_RESULT.scenes[0];
+    const pending = mockAnalysisProvider.regenerateScene(null, {
+      scene, start: 0, end: 2, storyboard: MOCK_ANALYSIS_RESULT, hint: 'at night',
+    });
+    await vi.runAllTimersAsync();
+    const fields = await pending;
+    expect(fields.aiVideoPrompt).toBe(`${scene.aiVideoPrompt}, at night`);
+    expect(fields.visualDescription).toBe(`${scene.visualDescription} (regenerated)`);
+  });
+});
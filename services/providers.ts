@@ -0,0 +1,130 @@
+import { AnalysisResult, AnalysisPreset, StoryboardScene, ScenePromptFields, VideoGenerationSettings } from "../types";
+import { geminiAnalysisProvider, geminiVideoProvider } from "./geminiService";
+import { mockAnalysisProvider, mockVideoProvider } from "./mockService";
+
+export type VeoAspectRatio = '16:9' | '9:16';
+
+// A start image as the video model takes it; see `toStartImage`
+export interface StartImage {
+  imageBytes: string; // base64, no data URL header
+  mimeType: string;
+}
+
+export interface SceneRegenerationRequest {
+  scene: StoryboardScene;
+  start: number; // seconds
+  end: number; // seconds
+  storyboard: AnalysisResult;
+  hint?: string;
+}
+
+/**
+ * Structured progress reported by long-running calls, so the UI can show what
+ * is actually happening instead of canned messages.
+ */
+export type OperationProgress =
+  | { stage: 'hashing' }
+  | { stage: 'uploading'; loadedBytes: number; totalBytes: number }
+  | { stage: 'processing'; state: string } // File API state, e.g. PROCESSING
+  | { stage: 'analyzing' }
+  | { stage: 'generating'; state?: string; elapsedMs: number } // Veo operation metadata state
+  | { stage: 'downloading' };
+
+export interface OperationOptions {
+  signal?: AbortSignal;
+  deadlineMs?: number; // overall budget for the call; each implementation has its own default
+  onProgress?: (progress: OperationProgress) => void;
+}
+
+export interface AnalysisOptions extends OperationOptions {
+  forceUpload?: boolean; // send the video via the File API even when it is small enough to inline
+  preset?: AnalysisPreset; // prompt, model and settings for analyzeVideo (model, temperature and language for regenerateScene); defaults to the built-in director preset
+}
+
+/**
+ * Turns a reference video into a structured storyboard.
+ */
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  // Bump whenever the model or prompt changes, so cached analyses from the old one are ignored
+  promptVersion: string;
+  analyzeVideo: (file: File, options?: AnalysisOptions) => Promise<AnalysisResult>;
+  // `file` is null for imported storyboards without a reference video
+  regenerateScene: (
+    file: File | null,
+    request: SceneRegenerationRequest,
+    options?: AnalysisOptions
+  ) => Promise<ScenePromptFields>;
+}
+
+/**
+ * Renders a single scene prompt (optionally seeded by a start image) into playable clips,
+ * one per `settings.numberOfVideos`. Implementations return object URLs the caller owns.
+ */
+export interface VideoGenerationProvider {
+  id: string;
+  label: string;
+  generateVideo: (
+    prompt: string,
+    startImage: StartImage | undefined,
+    aspectRatio: VeoAspectRatio,
+    settings: VideoGenerationSettings,
+    options?: OperationOptions
+  ) => Promise<string[]>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+const analysisProviders: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiAnalysisProvider,
+  mock: mockAnalysisProvider,
+};
+
+const videoProviders: Record<ProviderId, VideoGenerationProvider> = {
+  gemini: geminiVideoProvider,
+  mock: mockVideoProvider,
+};
+
+/**
+ * Resolves the active backend. `?provider=mock` in the URL wins over the
+ * `PROVIDER` value baked in at build time, so a demo can be switched without a rebuild.
+ */
+export const getProviderId = (): ProviderId => {
+  let requested: string | null | undefined;
+  if (typeof window !== 'undefined') {
+    requested = new URLSearchParams(window.location.search).get('provider');
+  }
+  requested = requested || process.env.PROVIDER;
+  return requested === 'mock' ? 'mock' : 'gemini';
+};
+
+export const getAnalysisProvider = (): AnalysisProvider => analysisProviders[getProviderId()];
+
+export const getVideoProvider = (): VideoGenerationProvider => videoProviders[getProviderId()];
+
+/**
+ * The real Veo backend needs a paid key picked through AI Studio before the first
+ * generation. Other providers need nothing. Throws if the user backs out.
+ */
+export const ensureVideoApiKey = async (provider: VideoGenerationProvider): Promise<void> => {
+  if (provider.id !== 'gemini' || !window.aistudio) return;
+  const hasKey = await window.aistudio.hasSelectedApiKey();
+  if (hasKey) return;
+  try {
+    await window.aistudio.openSelectKey();
+  } catch (err) {
+    throw new Error("API Key selection failed or was cancelled.");
+  }
+};
+
+/**
+ * The AI Studio key picker only exists when the app runs inside AI Studio;
+ * locally the key comes from .env.local.
+ */
+export const canSelectApiKey = (): boolean => typeof window !== 'undefined' && !!window.aistudio;
+
+export const selectApiKey = async (): Promise<void> => {
+  if (!window.aistudio) return;
+  await window.aistudio.openSelectKey();
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { uploadChunks } from './resumableUpload';
+
+const KIB = 1024;
+const SESSION_URL = 'https://upload.example/session';
+
+interface Call {
+  command: string;
+  offset?: number;
+  size?: number;
+}
+
+const ok = (headers: Record<string, string> = {}, body: unknown = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers });
+
+describe('uploadChunks', () => {
+  let calls: Call[];
+
+  beforeEach(() => {
+    calls = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (respond: (call: Call) => Response | Promise<Response>) => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      const call: Call = {
+        command: headers['X-Goog-Upload-Command'],
+        offset: headers['X-Goog-Upload-Offset'] !== undefined ? Number(headers['X-Goog-Upload-Offset']) : undefined,
+        size: init.body instanceof Blob ? init.body.size : undefined,
+      };
+      calls.push(call);
+      return respond(call);
+    }));
+  };
+
+  it('sends 256 KiB-aligned chunks and finalizes with the last one', async () => {
+    const file = { file: { name: 'files/abc', uri: 'https://files/abc' } };
+    stubFetch(call => ok({}, call.command === 'upload, finalize' ? file : {}));
+    const progress = vi.fn();
+
+    const result = await uploadChunks(SESSION_URL, new Blob([new Uint8Array(600 * KIB)]), { chunkSize: 300 * KIB, onProgress: progress });
+
+    expect(calls).toEqual([
+      { command: 'upload', offset: 0, size: 256 * KIB },
+      { command: 'upload', offset: 256 * KIB, size: 256 * KIB },
+      { command: 'upload, finalize', offset: 512 * KIB, size: 88 * KIB },
+    ]);
+    expect(progress).toHaveBeenLastCalledWith(600 * KIB, 600 * KIB);
+    expect(result).toEqual(file);
+  });
+
+  it('resumes from the offset the server reports after a dropped chunk', async () => {
+    let failed = false;
+    stubFetch(call => {
+      if (call.command === 'query') return ok({ 'x-goog-upload-size-received': String(128 * KIB) });
+      if (call.offset === 256 * KIB && !failed) {
+        failed = true;
+        throw new TypeError('Failed to fetch');
+      }
+      return ok();
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const upload = uploadChunks(SESSION_URL, new Blob([new Uint8Array(512 * KIB)]), { chunkSize: 256 * KIB });
+    await vi.runAllTimersAsync();
+    await upload;
+
+    expect(calls.map(c => [c.command, c.offset])).toEqual([
+      ['upload', 0],
+      ['upload, finalize', 256 * KIB],
+      ['query', undefined],
+      ['upload', 128 * KIB],
+      ['upload, finalize', 384 * KIB],
+    ]);
+  });
+
+  it('does not retry permanent failures', async () => {
+    stubFetch(() => new Response('bad request', { status: 400, statusText: 'Bad Request' }));
+    await expect(uploadChunks(SESSION_URL, new Blob([new Uint8Array(10)]))).rejects.toMatchObject({ status: 400 });
+    expect(calls).toHaveLength(1);
+  });
+});
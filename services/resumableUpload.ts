@@ -0,0 +1,178 @@
+import { abortableDelay, isAbortError, throwIfAborted } from "./polling";
+import { ProcessingFailedError, ServiceError } from "./errors";
+
+// The protocol requires every chunk except the last to be a multiple of 256 KiB
+const CHUNK_GRANULARITY = 256 * 1024;
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8 MiB
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+export interface ResumableUploadOptions {
+  signal?: AbortSignal;
+  chunkSize?: number;
+  maxRetries?: number; // consecutive failures tolerated before giving up
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * A file resource as the Gemini File API describes it.
+ */
+export interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  sizeBytes?: string; // int64, serialized as a string
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+  createTime?: string;
+  expirationTime?: string;
+  sha256Hash?: string;
+  displayName?: string;
+}
+
+/**
+ * The JSON body of the finalize response.
+ */
+export interface UploadFileResponse {
+  file: UploadedFile;
+}
+
+/**
+ * A non-2xx answer from the upload endpoint. The status lets `toServiceError`
+ * classify it once it leaves this module.
+ */
+class UploadHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Errors that retrying cannot fix (bad request, auth, expired session)
+const isPermanent = (err: unknown) =>
+  err instanceof ServiceError || (err instanceof UploadHttpError && !isRetryableStatus(err.status));
+
+const describeResponse = async (response: Response) =>
+  `${response.status} ${response.statusText} - ${await response.text().catch(() => '')}`;
+
+/**
+ * Opens a resumable upload session and returns the session URL that the
+ * chunks are sent to.
+ */
+export const startResumableUpload = async (
+  startUrl: string,
+  blob: Blob,
+  displayName: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const mimeType = blob.type || 'application/octet-stream';
+  const response = await fetch(startUrl, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': blob.size.toString(),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: displayName } }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new UploadHttpError(`Failed to initiate upload: ${await describeResponse(response)}`, response.status);
+  }
+
+  const sessionUrl = response.headers.get('x-goog-upload-url');
+  if (!sessionUrl) {
+    throw new Error("No upload URL returned from Gemini API");
+  }
+  return sessionUrl;
+};
+
+/**
+ * Asks the server how many bytes of the session it has persisted. Returns
+ * null once the upload is already finalized.
+ */
+const queryUploadOffset = async (sessionUrl: string, signal?: AbortSignal): Promise<number | null> => {
+  const response = await fetch(sessionUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+    signal,
+  });
+  if (!response.ok) {
+    throw new UploadHttpError(`Failed to query upload status: ${await describeResponse(response)}`, response.status);
+  }
+  if (response.headers.get('x-goog-upload-status') === 'final') return null;
+  return Number(response.headers.get('x-goog-upload-size-received') ?? 0);
+};
+
+/**
+ * Sends `blob` to an open session in chunks, honouring `X-Goog-Upload-Offset`.
+ * After a dropped connection or a 5xx it backs off, asks the server how much it
+ * actually received, and carries on from there instead of starting over.
+ * Resolves with the file resource from the finalize response.
+ */
+export const uploadChunks = async (
+  sessionUrl: string,
+  blob: Blob,
+  options: ResumableUploadOptions = {}
+): Promise<UploadFileResponse> => {
+  const { signal, onProgress, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const requestedChunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const chunkSize = Math.max(CHUNK_GRANULARITY, Math.floor(requestedChunkSize / CHUNK_GRANULARITY) * CHUNK_GRANULARITY);
+  const total = blob.size;
+
+  let offset = 0;
+  let failures = 0;
+  onProgress?.(0, total);
+
+  while (true) {
+    throwIfAborted(signal);
+    const end = Math.min(total, offset + chunkSize);
+    const isLast = end === total;
+
+    try {
+      const response = await fetch(sessionUrl, {
+        method: 'PUT',
+        headers: {
+          'X-Goog-Upload-Offset': offset.toString(),
+          'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+        },
+        body: blob.slice(offset, end),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new UploadHttpError(`Failed to upload file bytes: ${await describeResponse(response)}`, response.status);
+      }
+
+      failures = 0;
+      offset = end;
+      onProgress?.(offset, total);
+      if (isLast) return await response.json() as UploadFileResponse;
+    } catch (err) {
+      if (isAbortError(err) || isPermanent(err)) throw err;
+      if (++failures > maxRetries) throw err;
+
+      const delayMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (failures - 1));
+      console.warn(`Upload chunk at offset ${offset} failed (attempt ${failures}/${maxRetries}), retrying in ${delayMs} ms`, err);
+      await abortableDelay(delayMs, signal);
+
+      // The server may have kept part (or all) of the failed chunk
+      try {
+        const received = await queryUploadOffset(sessionUrl, signal);
+        if (received === null) {
+          throw new ProcessingFailedError("Upload was finalized but the response was lost. Please retry the analysis.");
+        }
+        offset = Math.min(total, received);
+        onProgress?.(offset, total);
+      } catch (queryErr) {
+        if (isAbortError(queryErr) || isPermanent(queryErr)) throw queryErr;
+        // Couldn't reach the server either; keep the old offset and let the next attempt find out
+        console.warn("Upload status query failed", queryErr);
+      }
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { readSceneAudio, summarizeSceneAudio, describeAudioCues, buildVeoPrompt } from './sceneAudio';
+
+describe('readSceneAudio', () => {
+  it('keeps well-typed fields and drops the rest', () => {
+    expect(readSceneAudio({
+      musicMood: ' Upbeat synth ', bpm: 119.6, sfx: ['whoosh', '', 3], cutsOnBeat: true, speaker: 'narrator', isSilent: 'no',
+    })).toEqual({ musicMood: 'Upbeat synth', bpm: 120, sfx: ['whoosh'], cutsOnBeat: true, speaker: 'narrator' });
+  });
+
+  it('ignores implausible tempos and returns undefined when nothing is left', () => {
+    expect(readSceneAudio({ bpm: 900 })).toBeUndefined();
+    expect(readSceneAudio([])).toBeUndefined();
+    expect(readSceneAudio(null)).toBeUndefined();
+  });
+});
+
+describe('summarizeSceneAudio', () => {
+  it('joins the parts that are present', () => {
+    expect(summarizeSceneAudio({ musicMood: 'Upbeat synth', bpm: 120, cutsOnBeat: true, sfx: ['whoosh'], speaker: 'narrator' }))
+      .toBe('Upbeat synth · 120 BPM · cuts on beat · SFX: whoosh · Speaker: narrator');
+    expect(summarizeSceneAudio({ isSilent: true, musicMood: 'ignored', sfx: ['click'] })).toBe('Silence · SFX: click');
+    expect(summarizeSceneAudio(undefined)).toBe('');
+  });
+});
+
+describe('describeAudioCues', () => {
+  it('writes music, effects and dialogue as one sentence', () => {
+    expect(describeAudioCues({
+      audio: { musicMood: 'tense', bpm: 90, cutsOnBeat: true, sfx: ['heartbeat'], speaker: 'a woman' },
+      voiceoverScript: 'Not again',
+    })).toBe('Audio: tense music around 90 BPM, with the action hitting the beat; sound effects: heartbeat; a woman says "Not again".');
+  });
+
+  it('lets a quoted line close the sentence and falls back to an anonymous voice', () => {
+    expect(describeAudioCues({ voiceoverScript: 'Watch this!' })).toBe('Audio: a voice says "Watch this!"');
+  });
+
+  it('returns null when there is nothing to say', () => {
+    expect(describeAudioCues({ audio: {}, voiceoverScript: '  ' })).toBeNull();
+  });
+});
+
+describe('buildVeoPrompt', () => {
+  it('appends the audio cues to the video prompt', () => {
+    expect(buildVeoPrompt({ aiVideoPrompt: 'A skater drops in. ', audio: { isSilent: true } }))
+      .toBe('A skater drops in. Audio: near silence.');
+  });
+
+  it('leaves prompts alone when there are no cues or the prompt already covers audio', () => {
+    expect(buildVeoPrompt({ aiVideoPrompt: ' A skater drops in. ' })).toBe('A skater drops in.');
+    expect(buildVeoPrompt({ aiVideoPrompt: 'A skater drops in. Audio: wheels on concrete.', audio: { sfx: ['thud'] } }))
+      .toBe('A skater drops in. Audio: wheels on concrete.');
+  });
+});
@@ -0,0 +1,74 @@
+import { SceneAudio, StoryboardScene } from "../types";
+
+/**
+ * Keeps the well-typed parts of a raw `audio` value from the model.
+ * Returns undefined when nothing usable is left.
+ */
+export const readSceneAudio = (value: unknown): SceneAudio | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  const audio: SceneAudio = {};
+
+  if (typeof record.musicMood === 'string' && record.musicMood.trim()) audio.musicMood = record.musicMood.trim();
+  if (typeof record.bpm === 'number' && record.bpm >= 30 && record.bpm <= 300) audio.bpm = Math.round(record.bpm);
+  if (Array.isArray(record.sfx)) {
+    const sfx = record.sfx.filter((cue): cue is string => typeof cue === 'string' && !!cue.trim()).map(cue => cue.trim());
+    if (sfx.length > 0) audio.sfx = sfx;
+  }
+  if (typeof record.cutsOnBeat === 'boolean') audio.cutsOnBeat = record.cutsOnBeat;
+  if (typeof record.speaker === 'string' && record.speaker.trim()) audio.speaker = record.speaker.trim();
+  if (record.isSilent === true) audio.isSilent = true;
+
+  return Object.keys(audio).length > 0 ? audio : undefined;
+};
+
+/**
+ * Short human-readable summary of a scene's audio for tooltips and exports,
+ * e.g. "Upbeat synth · 120 BPM · cuts on beat · SFX: whoosh · Speaker: narrator".
+ */
+export const summarizeSceneAudio = (audio?: SceneAudio): string => {
+  if (!audio) return '';
+  if (audio.isSilent) return ['Silence', audio.sfx?.length ? `SFX: ${audio.sfx.join(', ')}` : undefined].filter(Boolean).join(' · ');
+  return [
+    audio.musicMood,
+    audio.bpm ? `${audio.bpm} BPM` : undefined,
+    audio.cutsOnBeat ? 'cuts on beat' : undefined,
+    audio.sfx?.length ? `SFX: ${audio.sfx.join(', ')}` : undefined,
+    audio.speaker ? `Speaker: ${audio.speaker}` : undefined,
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * The scene's sound as a single sentence of cues, in the style Veo expects
+ * for generated audio. Returns null when there is nothing to say.
+ */
+export const describeAudioCues = (scene: Pick<StoryboardScene, 'audio' | 'voiceoverScript'>): string | null => {
+  const { audio, voiceoverScript } = scene;
+  const cues: string[] = [];
+
+  if (audio?.isSilent) {
+    cues.push('near silence');
+  } else if (audio?.musicMood) {
+    cues.push(`${audio.musicMood} music${audio.bpm ? ` around ${audio.bpm} BPM` : ''}${audio.cutsOnBeat ? ', with the action hitting the beat' : ''}`);
+  }
+  if (audio?.sfx?.length) cues.push(`sound effects: ${audio.sfx.join(', ')}`);
+  if (voiceoverScript?.trim()) {
+    cues.push(`${audio?.speaker || 'a voice'} says "${voiceoverScript.trim()}"`);
+  }
+
+  if (cues.length === 0) return null;
+  const sentence = `Audio: ${cues.join('; ')}`;
+  // A quoted line that already ends in punctuation closes the sentence itself
+  return /[.!?]"$/.test(sentence) ? sentence : `${sentence}.`;
+};
+
+/**
+ * The prompt sent to Veo: the scene's video prompt with its audio cues
+ * appended, unless the prompt already describes its own audio.
+ */
+export const buildVeoPrompt = (scene: Pick<StoryboardScene, 'aiVideoPrompt' | 'audio' | 'voiceoverScript'>): string => {
+  const prompt = scene.aiVideoPrompt.trim();
+  const cues = describeAudioCues(scene);
+  if (!cues || /\baudio:/i.test(prompt)) return prompt;
+  return `${prompt.replace(/[.\s]+$/, '')}. ${cues}`;
+};
@@ -0,0 +1,44 @@
+import { SceneTake } from "../types";
+import { TakeRecord, generateId } from "./projectStore";
+
+// What a take was generated from, recorded so it can be compared and reproduced
+export type TakeInputs = Pick<SceneTake, 'prompt' | 'startImage' | 'aspectRatio' | 'settings'>;
+
+export const createTake = (sceneId: number, url: string, inputs: TakeInputs): SceneTake => ({
+  id: generateId(),
+  sceneId,
+  url,
+  ...inputs,
+  createdAt: Date.now(),
+  starred: false,
+});
+
+/**
+ * Groups stored takes by scene, oldest first, with object URLs the caller owns.
+ */
+export const takesFromRecords = (records: TakeRecord[]): Record<number, SceneTake[]> =>
+  records.reduce<Record<number, SceneTake[]>>((acc, { projectId, blob, ...take }) => {
+    (acc[take.sceneId] ??= []).push({ ...take, url: URL.createObjectURL(blob) });
+    return acc;
+  }, {});
+
+/**
+ * The take that goes into the final cut: the selected one, else the latest.
+ */
+export const getSelectedTake = (takes: SceneTake[] | undefined, selectedId?: string): SceneTake | undefined =>
+  takes?.find(take => take.id === selectedId) ?? takes?.[takes.length - 1];
+
+/**
+ * Clip URL per scene id, taken from each scene's selected take.
+ */
+export const getSelectedClipUrls = (
+  takes: Record<number, SceneTake[]>,
+  selectedTakes: Record<number, string>
+): Record<number, string> => {
+  const urls: Record<number, string> = {};
+  Object.keys(takes).map(Number).forEach(sceneId => {
+    const take = getSelectedTake(takes[sceneId], selectedTakes[sceneId]);
+    if (take) urls[sceneId] = take.url;
+  });
+  return urls;
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { detectImageMimeType, toStartImage } from './startImage';
+
+const base64 = (bytes: number[] | string) =>
+  (typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes)).toString('base64');
+
+describe('detectImageMimeType', () => {
+  it.each([
+    ['image/png', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]],
+    ['image/jpeg', [0xff, 0xd8, 0xff, 0xe0, 0, 0x10]],
+    ['image/webp', 'RIFF\0\0\0\0WEBPVP8 '],
+    ['image/gif', 'GIF89a\x01\0\x01\0'],
+    ['image/bmp', 'BM\0\0\0\0\0\0'],
+    ['image/avif', '\0\0\0\x1cftypavif'],
+    ['image/heic', '\0\0\0\x18ftypheic'],
+  ])('recognises %s from its signature', (mimeType, bytes) => {
+    expect(detectImageMimeType(base64(bytes))).toBe(mimeType);
+  });
+
+  it('returns undefined for unknown or invalid data', () => {
+    expect(detectImageMimeType(base64('hello world!'))).toBeUndefined();
+    expect(detectImageMimeType('***')).toBeUndefined();
+    expect(detectImageMimeType('')).toBeUndefined();
+  });
+});
+
+describe('toStartImage', () => {
+  it('trusts the bytes over the data URL header', async () => {
+    const jpeg = base64([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+    expect(await toStartImage(`data:image/png;base64,${jpeg}`)).toEqual({ imageBytes: jpeg, mimeType: 'image/jpeg' });
+  });
+
+  it('falls back to the declared type when the bytes are not recognised', async () => {
+    const unknown = base64('not an image');
+    expect(await toStartImage(`data:image/png;base64,${unknown}`)).toEqual({ imageBytes: unknown, mimeType: 'image/png' });
+  });
+});
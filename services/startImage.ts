@@ -0,0 +1,61 @@
+import type { StartImage } from "./providers";
+
+// Formats Veo takes as a start image; anything else is re-encoded as PNG
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+const matches = (bytes: Uint8Array, offset: number, signature: number[]) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * Identifies an image from its first bytes rather than trusting the file name or
+ * data URL header, which can be missing or wrong.
+ */
+export const detectImageMimeType = (base64: string): string | undefined => {
+  let header: string;
+  try {
+    header = atob(base64.slice(0, 24)); // 18 bytes
+  } catch {
+    return undefined;
+  }
+  const bytes = Uint8Array.from(header, c => c.charCodeAt(0));
+  if (matches(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (matches(bytes, 0, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (matches(bytes, 0, ascii('RIFF')) && matches(bytes, 8, ascii('WEBP'))) return 'image/webp';
+  if (matches(bytes, 0, ascii('GIF8'))) return 'image/gif';
+  if (matches(bytes, 0, ascii('BM'))) return 'image/bmp';
+  if (matches(bytes, 4, ascii('ftypavif'))) return 'image/avif';
+  if (matches(bytes, 4, ascii('ftyphei')) || matches(bytes, 4, ascii('ftypmif1'))) return 'image/heic';
+  return undefined;
+};
+
+const reencodeAsPng = async (dataUrl: string): Promise<string> => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode().catch(() => {
+    throw new Error("This browser cannot read the start image. Use a PNG or JPEG instead.");
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Turns an uploaded or captured data URL into the bytes and MIME type sent to
+ * Veo. Formats it does not accept are converted to PNG first, when the browser can decode them.
+ */
+export const toStartImage = async (dataUrl: string): Promise<StartImage> => {
+  const [header = '', base64 = ''] = dataUrl.split(',', 2);
+  const declared = /^data:([^;,]+)/.exec(header)?.[1]?.toLowerCase();
+  const mimeType = detectImageMimeType(base64) ?? declared;
+  if (mimeType && SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    return { imageBytes: base64, mimeType };
+  }
+  const png = await reencodeAsPng(dataUrl);
+  return { imageBytes: png.split(',')[1], mimeType: 'image/png' };
+};
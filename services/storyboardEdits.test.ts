@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { SceneTextOverlay, StoryboardScene } from '../types';
+import { splitScene, mergeWithNext, deleteScene, insertSceneAfter, moveBoundary, getNextSceneId } from './storyboardEdits';
+
+const scene = (id: number, timeRange: string, text = `Scene ${id}`): StoryboardScene => ({
+  id, timeRange, visualDescription: text, cameraMovement: '', aiImagePrompt: text, aiVideoPrompt: text,
+});
+
+const storyboard = () => [
+  scene(1, '00:00 - 00:04'),
+  scene(2, '00:04 - 00:06'),
+  scene(3, '00:06 - 00:10'),
+];
+
+const ranges = (scenes: StoryboardScene[]) => scenes.map(s => `${s.id}: ${s.timeRange}`);
+
+const overlay = (text: string, start: number, end?: number): SceneTextOverlay => ({
+  text, start, ...(end !== undefined ? { end } : {}),
+  position: 'bottom', font: 'sans', fontWeight: 'bold', color: '#FFFFFF', animation: 'none',
+});
+
+const withOverlays = (scenes: StoryboardScene[], id: number, textOverlays: SceneTextOverlay[]) =>
+  scenes.map(s => (s.id === id ? { ...s, textOverlays } : s));
+
+// Each overlay as "text start-end", with "end" for open-ended ones
+const timings = (s: StoryboardScene) => (s.textOverlays ?? []).map(o => `${o.text} ${o.start}-${o.end ?? 'end'}`);
+
+describe('getNextSceneId', () => {
+  it('stays above every id seen, not just the current ones', () => {
+    const afterDelete = deleteScene(storyboard(), 3);
+    expect(getNextSceneId(afterDelete.map(s => s.id))).toBe(3);
+    expect(getNextSceneId(afterDelete.map(s => s.id), storyboard().map(s => s.id), [7])).toBe(8);
+    expect(getNextSceneId([])).toBe(1);
+  });
+});
+
+describe('splitScene', () => {
+  it('cuts at the playhead and gives the second half the new id', () => {
+    expect(ranges(splitScene(storyboard(), 1, 1.5, 4))).toEqual([
+      '1: 00:00 - 00:01.5',
+      '4: 00:01.5 - 00:04',
+      '2: 00:04 - 00:06',
+      '3: 00:06 - 00:10',
+    ]);
+  });
+
+  it('refuses cuts too close to an edge', () => {
+    expect(() => splitScene(storyboard(), 2, 4.2, 4)).toThrow(/at least/);
+  });
+
+  it('refuses an id that is already taken', () => {
+    expect(() => splitScene(storyboard(), 1, 2, 3)).toThrow(/already in use/);
+  });
+
+  it('re-bases the second half\'s overlays and clips the first half\'s', () => {
+    const scenes = withOverlays(storyboard(), 1, [overlay('A', 0, 1), overlay('B', 1, 3), overlay('C', 2.5)]);
+    const [first, second] = splitScene(scenes, 1, 2, 4);
+    expect(timings(first)).toEqual(['A 0-1', 'B 1-2']);
+    expect(timings(second)).toEqual(['B 0-1', 'C 0.5-end']);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('keeps the first id and joins descriptions', () => {
+    const merged = mergeWithNext(storyboard(), 1);
+    expect(ranges(merged)).toEqual(['1: 00:00 - 00:06', '3: 00:06 - 00:10']);
+    expect(merged[0].visualDescription).toBe('Scene 1 Scene 2');
+  });
+
+  it('has nothing to merge the last scene with', () => {
+    expect(() => mergeWithNext(storyboard(), 3)).toThrow();
+  });
+
+  it('shifts the second scene\'s overlays by the first scene\'s length', () => {
+    let scenes = withOverlays(storyboard(), 1, [overlay('A', 1)]);
+    scenes = withOverlays(scenes, 2, [overlay('B', 0.5, 1.5), overlay('C', 1)]);
+    expect(timings(mergeWithNext(scenes, 1)[0])).toEqual(['A 1-4', 'B 4.5-5.5', 'C 5-end']);
+  });
+});
+
+describe('deleteScene', () => {
+  it('leaves the span uncovered', () => {
+    expect(ranges(deleteScene(storyboard(), 2))).toEqual(['1: 00:00 - 00:04', '3: 00:06 - 00:10']);
+  });
+
+  it('keeps at least one scene', () => {
+    expect(() => deleteScene([scene(1, '00:00 - 00:02')], 1)).toThrow();
+  });
+});
+
+describe('insertSceneAfter', () => {
+  it('fills a gap before the next scene', () => {
+    const scenes = deleteScene(storyboard(), 2);
+    expect(ranges(insertSceneAfter(scenes, 1, 4))).toEqual(['1: 00:00 - 00:04', '4: 00:04 - 00:06', '3: 00:06 - 00:10']);
+  });
+
+  it('halves the scene when there is no gap', () => {
+    expect(ranges(insertSceneAfter(storyboard(), 2, 4)).slice(1, 3)).toEqual(['2: 00:04 - 00:05', '4: 00:05 - 00:06']);
+  });
+
+  it('runs up to the video length after the last scene', () => {
+    expect(ranges(insertSceneAfter(storyboard(), 3, 4, 12)).at(-1)).toBe('4: 00:10 - 00:12');
+  });
+});
+
+describe('moveBoundary', () => {
+  it('moves the cut shared by two scenes', () => {
+    expect(ranges(moveBoundary(storyboard(), 1, 3))).toEqual(['1: 00:00 - 00:03', '2: 00:03 - 00:06', '3: 00:06 - 00:10']);
+  });
+
+  it('clamps so neither scene gets too short', () => {
+    expect(ranges(moveBoundary(storyboard(), 2, 9.9))[1]).toBe('2: 00:04 - 00:09.5');
+  });
+
+  it('keeps overlays on the same moment and trims them to the new end', () => {
+    let scenes = withOverlays(storyboard(), 1, [overlay('A', 1, 3.5), overlay('B', 3.2)]);
+    scenes = withOverlays(scenes, 2, [overlay('C', 0, 1), overlay('D', 1.5)]);
+    const [first, second] = moveBoundary(scenes, 1, 3);
+    expect(timings(first)).toEqual(['A 1-3']);
+    expect(timings(second)).toEqual(['C 1-2', 'D 2.5-end']);
+  });
+
+  it('rejects boundaries that do not exist', () => {
+    expect(() => moveBoundary(storyboard(), 5, 1)).toThrow();
+  });
+});
@@ -0,0 +1,177 @@
+import { SceneTextOverlay, StoryboardScene } from "../types";
+import { resolveSceneTimings, formatTimeRange } from "./timeRange";
+
+// Shortest scene the editor will produce; anything tighter is unusable as a Veo clip
+export const MIN_SCENE_SECONDS = 0.5;
+
+// Length given to a scene appended after the last one when the video length is unknown
+const DEFAULT_INSERT_SECONDS = 2;
+
+/*
+ * Structural storyboard edits. Every operation is pure: it takes the scene list
+ * in time order and returns a new one, still in time order, with timeRange
+ * rewritten for the scenes it touched. Text overlays are timed from their scene's
+ * start, so they are re-based and clipped whenever that scene's span changes. Scene ids are stable identities: an
+ * existing scene keeps its id through every edit (so generated clips stay
+ * attached), and new scenes get the id the caller passes in, which should come
+ * from `getNextSceneId` so a deleted scene's id is never handed out again.
+ * Invalid edits throw with a message suitable for the UI.
+ */
+
+/**
+ * Moves overlays by `shift` seconds and clips them to a scene `length` seconds
+ * long, dropping any that no longer show at all.
+ */
+const retimeOverlays = (overlays: SceneTextOverlay[], shift: number, length: number): SceneTextOverlay[] =>
+  overlays.flatMap(overlay => {
+    const start = Math.max(0, overlay.start + shift);
+    const end = overlay.end === undefined ? undefined : Math.min(length, overlay.end + shift);
+    if (start >= length || (end !== undefined && end <= start)) return [];
+    return [{ ...overlay, start, ...(end !== undefined ? { end } : {}) }];
+  });
+
+/**
+ * Gives a scene a new span. `from` is the time its overlays are currently
+ * measured from, i.e. the scene's old start.
+ */
+const withTimes = (scene: StoryboardScene, start: number, end: number, from = start): StoryboardScene => ({
+  ...scene,
+  timeRange: formatTimeRange(start, end),
+  ...(scene.textOverlays ? { textOverlays: retimeOverlays(scene.textOverlays, from - start, end - start) } : {}),
+});
+
+/**
+ * One past the highest id in any of the given lists. Pass every place an id
+ * may still live (undo history, the AI original, stored takes) so a new scene
+ * never inherits a deleted one's clips or baseline.
+ */
+export const getNextSceneId = (...sceneIdLists: number[][]) => Math.max(0, ...sceneIdLists.flat()) + 1;
+
+const assertNewId = (scenes: StoryboardScene[], newId: number) => {
+  if (scenes.some(s => s.id === newId)) throw new Error(`Scene id ${newId} is already in use.`);
+};
+
+const findIndexOrThrow = (scenes: StoryboardScene[], sceneId: number) => {
+  const index = scenes.findIndex(s => s.id === sceneId);
+  if (index === -1) throw new Error(`Scene ${sceneId} not found.`);
+  return index;
+};
+
+const blankScene = (id: number, start: number, end: number): StoryboardScene => ({
+  id,
+  timeRange: formatTimeRange(start, end),
+  visualDescription: "",
+  cameraMovement: "",
+  aiImagePrompt: "",
+  aiVideoPrompt: "",
+});
+
+/**
+ * Cuts a scene in two at `at` seconds. Both halves start with the original text;
+ * the second half gets a new id. Each half keeps the overlays that fall inside it.
+ */
+export const splitScene = (scenes: StoryboardScene[], sceneId: number, at: number, newId: number): StoryboardScene[] => {
+  const index = findIndexOrThrow(scenes, sceneId);
+  assertNewId(scenes, newId);
+  const { start, end } = resolveSceneTimings(scenes)[index];
+  if (at < start + MIN_SCENE_SECONDS || at > end - MIN_SCENE_SECONDS) {
+    throw new Error(`Move the playhead inside scene ${sceneId}, at least ${MIN_SCENE_SECONDS}s from its edges, to split it.`);
+  }
+
+  const first = withTimes(scenes[index], start, at);
+  const second = { ...withTimes(scenes[index], at, end, start), id: newId };
+  return [...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)];
+};
+
+/**
+ * Joins a scene with the one after it. The merged scene keeps the first scene's
+ * id and prompts; descriptions and voiceover lines are concatenated, and the
+ * second scene's overlays follow the first's at their original times.
+ */
+export const mergeWithNext = (scenes: StoryboardScene[], sceneId: number): StoryboardScene[] => {
+  const index = findIndexOrThrow(scenes, sceneId);
+  if (index === scenes.length - 1) throw new Error("The last scene has no following scene to merge with.");
+
+  const timings = resolveSceneTimings(scenes);
+  const left = scenes[index];
+  const right = scenes[index + 1];
+  const { start, end: leftEnd } = timings[index];
+  const { start: rightStart, end } = timings[index + 1];
+  // Open-ended overlays on the first scene stop where it used to end
+  const textOverlays = left.textOverlays || right.textOverlays
+    ? [
+        ...(left.textOverlays ?? []).map(overlay => ({ ...overlay, end: overlay.end ?? leftEnd - start })),
+        ...retimeOverlays(right.textOverlays ?? [], rightStart - start, end - start),
+      ]
+    : undefined;
+  const merged: StoryboardScene = {
+    ...withTimes(left, start, end),
+    visualDescription: [left.visualDescription, right.visualDescription].filter(Boolean).join(' '),
+    voiceoverScript: [left.voiceoverScript, right.voiceoverScript].filter(Boolean).join(' ') || undefined,
+    ...(textOverlays ? { textOverlays } : {}),
+  };
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+};
+
+/**
+ * Removes a scene. Its span is left uncovered rather than handed to a neighbour,
+ * since deleting usually means "don't replicate this part".
+ */
+export const deleteScene = (scenes: StoryboardScene[], sceneId: number): StoryboardScene[] => {
+  findIndexOrThrow(scenes, sceneId);
+  if (scenes.length === 1) throw new Error("A storyboard needs at least one scene.");
+  return scenes.filter(s => s.id !== sceneId);
+};
+
+/**
+ * Adds a blank scene after `sceneId`. It fills the gap before the next scene when
+ * there is one; otherwise it takes the second half of `sceneId` (or, for the last
+ * scene, the time up to `duration`).
+ */
+export const insertSceneAfter = (scenes: StoryboardScene[], sceneId: number, newId: number, duration?: number): StoryboardScene[] => {
+  const index = findIndexOrThrow(scenes, sceneId);
+  assertNewId(scenes, newId);
+  const timings = resolveSceneTimings(scenes);
+  const current = timings[index];
+  const next = timings[index + 1];
+
+  const gapEnd = next ? next.start : (duration ?? current.end + DEFAULT_INSERT_SECONDS);
+  if (gapEnd - current.end >= MIN_SCENE_SECONDS) {
+    return [...scenes.slice(0, index + 1), blankScene(newId, current.end, gapEnd), ...scenes.slice(index + 1)];
+  }
+
+  const mid = (current.start + current.end) / 2;
+  if (mid - current.start < MIN_SCENE_SECONDS) {
+    throw new Error(`Scene ${sceneId} is too short to make room for a new scene.`);
+  }
+  return [
+    ...scenes.slice(0, index),
+    withTimes(scenes[index], current.start, mid),
+    blankScene(newId, mid, current.end),
+    ...scenes.slice(index + 1),
+  ];
+};
+
+/**
+ * Moves boundary `boundaryIndex` to `at` seconds. Boundary 0 is the start of the
+ * first scene, boundary N the end of the last, and boundary i in between is the
+ * cut shared by scenes i-1 and i (any gap between them is closed). The new time
+ * is clamped so no scene drops below MIN_SCENE_SECONDS. Overlays stay on the
+ * same moment of the video.
+ */
+export const moveBoundary = (scenes: StoryboardScene[], boundaryIndex: number, at: number, duration?: number): StoryboardScene[] => {
+  if (boundaryIndex < 0 || boundaryIndex > scenes.length) throw new Error(`Boundary ${boundaryIndex} does not exist.`);
+  const timings = resolveSceneTimings(scenes);
+  const before = timings[boundaryIndex - 1];
+  const after = timings[boundaryIndex];
+
+  const min = before ? before.start + MIN_SCENE_SECONDS : 0;
+  const max = after ? after.end - MIN_SCENE_SECONDS : (duration ?? Infinity);
+  const clamped = Math.min(Math.max(at, min), max);
+
+  return scenes.map((scene, i) => {
+    if (before && i === boundaryIndex - 1) return withTimes(scene, before.start, clamped);
+    if (after && i === boundaryIndex) return withTimes(scene, clamped, after.end, after.start);
+    return scene;
+  });
+};
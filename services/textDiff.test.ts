@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, DiffSegment } from './textDiff';
+
+const reassemble = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter(s => s.type !== skip).map(s => s.text).join('');
+
+describe('diffWords', () => {
+  it('reports identical text as a single unchanged segment', () => {
+    expect(diffWords('a slow pan left', 'a slow pan left')).toEqual([
+      { type: 'same', text: 'a slow pan left' },
+    ]);
+  });
+
+  it('marks replaced words as removed then added', () => {
+    expect(diffWords('a slow pan left', 'a fast pan left')).toEqual([
+      { type: 'same', text: 'a ' },
+      { type: 'removed', text: 'slow' },
+      { type: 'added', text: 'fast' },
+      { type: 'same', text: ' pan left' },
+    ]);
+  });
+
+  it('handles pure insertions and deletions at either end', () => {
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+    expect(diffWords('close up', 'close up, golden hour')).toEqual([
+      { type: 'same', text: 'close ' },
+      { type: 'removed', text: 'up' },
+      { type: 'added', text: 'up, golden hour' },
+    ]);
+  });
+
+  it('reassembles both sides exactly, whitespace included', () => {
+    const before = 'Wide shot,\n  city at night';
+    const after = 'Wide  shot,\n neon city at dawn';
+    const segments = diffWords(before, after);
+    expect(reassemble(segments, 'added')).toBe(before);
+    expect(reassemble(segments, 'removed')).toBe(after);
+  });
+});
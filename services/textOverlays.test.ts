@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { readTextOverlays, formatOverlayTiming, describeTextOverlay } from './textOverlays';
+
+describe('readTextOverlays', () => {
+  it('fills in default styling and sorts by start', () => {
+    expect(readTextOverlays([
+      { text: ' Second ', start: 1.5 },
+      { text: 'First', start: 0.2, end: 1, position: 'TOP', font: 'display', color: '#ff0' },
+    ])).toEqual([
+      { text: 'First', start: 0.2, end: 1, position: 'top', font: 'display', fontWeight: 'bold', color: '#ff0', animation: 'none' },
+      { text: 'Second', start: 1.5, position: 'bottom', font: 'sans', fontWeight: 'bold', color: '#FFFFFF', animation: 'none' },
+    ]);
+  });
+
+  it('drops unknown values, bad colours, empty text and inverted ends', () => {
+    const [overlay] = readTextOverlays([
+      { text: '' },
+      { text: 'Hi', start: -2, end: -1, font: 'comic', color: 'red; font: 99px', backgroundColor: 'rgba(0,0,0,1)', animation: 'spin' },
+    ])!;
+    expect(overlay).toEqual({ text: 'Hi', start: 0, position: 'bottom', font: 'sans', fontWeight: 'bold', color: '#FFFFFF', animation: 'none' });
+  });
+
+  it('returns undefined when nothing is usable', () => {
+    expect(readTextOverlays(undefined)).toBeUndefined();
+    expect(readTextOverlays([{ text: '  ' }, 'text'])).toBeUndefined();
+  });
+});
+
+describe('describeTextOverlay', () => {
+  it('summarises style and timing on one line', () => {
+    const [overlay] = readTextOverlays([{ text: 'Save\nthis', start: 0.5, end: 2, animation: 'pop-in' }])!;
+    expect(formatOverlayTiming(overlay)).toBe('0.5s – 2.0s');
+    expect(describeTextOverlay(overlay)).toBe('"Save / this" (bottom, bold sans, #FFFFFF, pop-in, 0.5s – 2.0s)');
+    expect(formatOverlayTiming({ ...overlay, end: undefined })).toBe('from 0.5s');
+  });
+});
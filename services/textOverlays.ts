@@ -0,0 +1,188 @@
+import { SceneTextOverlay, TextOverlayPosition, TextOverlayFont, TextOverlayAnimation } from "../types";
+
+const POSITIONS: TextOverlayPosition[] = ['top', 'center', 'bottom'];
+const FONTS: TextOverlayFont[] = ['sans', 'serif', 'display', 'handwritten', 'mono'];
+const ANIMATIONS: TextOverlayAnimation[] = ['none', 'pop-in', 'fade', 'typewriter', 'slide-up'];
+
+// Hex codes or plain colour names; anything else could break the canvas font/fill state
+const COLOR_PATTERN = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|[a-z]+)$/i;
+
+export const FONT_FAMILIES: Record<TextOverlayFont, string> = {
+  sans: 'Inter, "Helvetica Neue", Arial, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  display: 'Impact, "Arial Black", sans-serif',
+  handwritten: '"Comic Sans MS", "Bradley Hand", cursive',
+  mono: '"Courier New", monospace',
+};
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  typeof value === 'string' && (allowed as string[]).includes(value.trim().toLowerCase())
+    ? (value.trim().toLowerCase() as T)
+    : fallback;
+
+const readColor = (value: unknown): string | undefined =>
+  typeof value === 'string' && COLOR_PATTERN.test(value.trim()) ? value.trim() : undefined;
+
+/**
+ * Keeps the usable overlays of a raw `textOverlays` value from the model, with
+ * defaults for missing styling. Returns undefined when there are none.
+ */
+export const readTextOverlays = (value: unknown): SceneTextOverlay[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const overlays = value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map(item => {
+      const start = typeof item.start === 'number' && item.start > 0 ? item.start : 0;
+      const end = typeof item.end === 'number' && item.end > start ? item.end : undefined;
+      const backgroundColor = readColor(item.backgroundColor);
+      const overlay: SceneTextOverlay = {
+        text: typeof item.text === 'string' ? item.text.trim() : '',
+        start,
+        ...(end !== undefined ? { end } : {}),
+        position: pick(item.position, POSITIONS, 'bottom'),
+        font: pick(item.font, FONTS, 'sans'),
+        fontWeight: pick(item.fontWeight, ['normal', 'bold'], 'bold'),
+        color: readColor(item.color) ?? '#FFFFFF',
+        ...(backgroundColor ? { backgroundColor } : {}),
+        animation: pick(item.animation, ANIMATIONS, 'none'),
+      };
+      return overlay;
+    })
+    .filter(overlay => overlay.text)
+    .sort((a, b) => a.start - b.start);
+  return overlays.length > 0 ? overlays : undefined;
+};
+
+/**
+ * "0.5s – 2.0s", or "from 0.5s" for text that stays until the cut.
+ */
+export const formatOverlayTiming = (overlay: SceneTextOverlay): string =>
+  overlay.end !== undefined
+    ? `${overlay.start.toFixed(1)}s – ${overlay.end.toFixed(1)}s`
+    : `from ${overlay.start.toFixed(1)}s`;
+
+/**
+ * One-line description for exports, e.g. `"Save this" (bottom, bold display, pop-in, 0.5s – 2.0s)`.
+ */
+export const describeTextOverlay = (overlay: SceneTextOverlay): string => {
+  const style = [overlay.position, `${overlay.fontWeight === 'bold' ? 'bold ' : ''}${overlay.font}`, overlay.color];
+  if (overlay.animation !== 'none') style.push(overlay.animation);
+  style.push(formatOverlayTiming(overlay));
+  return `"${overlay.text.replace(/\s*\n\s*/g, ' / ')}" (${style.join(', ')})`;
+};
+
+const ENTRY_SECONDS = 0.3;
+const EXIT_SECONDS = 0.25;
+const TYPEWRITER_CHARS_PER_SECOND = 18;
+
+// Overshoots slightly before settling at 1
+const easeOutBack = (x: number) => 1 + 2.70158 * Math.pow(x - 1, 3) + 1.70158 * Math.pow(x - 1, 2);
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return line ? [...lines, line] : lines;
+  });
+
+/**
+ * Draws the overlays visible at `time` (seconds into the scene) onto a canvas
+ * that already holds the scene's frame. Sizes scale with the canvas so the same
+ * overlays look alike at any resolution.
+ */
+export const drawTextOverlays = (
+  ctx: CanvasRenderingContext2D,
+  overlays: SceneTextOverlay[],
+  time: number,
+  sceneDuration: number
+) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) * 0.06);
+  const lineHeight = fontSize * 1.25;
+  const padding = fontSize * 0.35;
+
+  overlays.forEach(overlay => {
+    const end = overlay.end ?? sceneDuration;
+    if (time < overlay.start || time >= end) return;
+    const elapsed = time - overlay.start;
+    const remaining = end - time;
+
+    let alpha = 1;
+    let scale = 1;
+    let offsetY = 0;
+    let visibleChars = Infinity;
+    const entry = Math.min(1, elapsed / ENTRY_SECONDS);
+    switch (overlay.animation) {
+      case 'pop-in':
+        scale = 0.6 + 0.4 * easeOutBack(entry);
+        alpha = Math.min(1, entry * 2);
+        break;
+      case 'fade':
+        alpha = Math.min(entry, remaining / EXIT_SECONDS, 1);
+        break;
+      case 'slide-up':
+        offsetY = (1 - entry) * fontSize * 1.5;
+        alpha = entry;
+        break;
+      case 'typewriter':
+        visibleChars = Math.floor(elapsed * TYPEWRITER_CHARS_PER_SECOND) + 1;
+        break;
+    }
+
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, alpha);
+    ctx.font = `${overlay.fontWeight === 'bold' ? 'bold ' : ''}${fontSize}px ${FONT_FAMILIES[overlay.font]}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    // Wrap the full text so a typewriter reveal does not reflow as it types
+    const fullLines = wrapLines(ctx, overlay.text, width * 0.85);
+    let remainingChars = visibleChars;
+    const lines = fullLines
+      .map(line => {
+        const shown = line.slice(0, Math.max(0, remainingChars));
+        remainingChars -= line.length + 1;
+        return shown;
+      })
+      .filter(Boolean);
+
+    const blockHeight = fullLines.length * lineHeight;
+    const centerY = overlay.position === 'top'
+      ? height * 0.12 + blockHeight / 2
+      : overlay.position === 'center'
+        ? height / 2
+        : height * 0.85 - blockHeight / 2;
+
+    ctx.translate(width / 2, centerY + offsetY);
+    ctx.scale(scale, scale);
+
+    const firstLineY = -blockHeight / 2 + lineHeight / 2;
+    if (overlay.backgroundColor) {
+      const boxWidth = Math.max(...fullLines.map(line => ctx.measureText(line).width)) + padding * 2;
+      ctx.fillStyle = overlay.backgroundColor;
+      ctx.fillRect(-boxWidth / 2, -blockHeight / 2 - padding, boxWidth, blockHeight + padding * 2);
+    }
+    lines.forEach((line, i) => {
+      const y = firstLineY + i * lineHeight;
+      if (!overlay.backgroundColor) {
+        // Outline keeps captions legible on busy footage
+        ctx.lineWidth = Math.max(2, fontSize * 0.12);
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+        ctx.strokeText(line, 0, y);
+      }
+      ctx.fillStyle = overlay.color;
+      ctx.fillText(line, 0, y);
+    });
+    ctx.restore();
+  });
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { StoryboardScene } from '../types';
+import { parseTimestamp, parseTimeRange, formatTimestamp, resolveSceneTimings, findSceneAtTime } from './timeRange';
+
+const scene = (id: number, timeRange: string): StoryboardScene => ({
+  id, timeRange, visualDescription: '', cameraMovement: '', aiImagePrompt: '', aiVideoPrompt: '',
+});
+
+describe('parseTimestamp', () => {
+  it('reads clock times, bare seconds and fractions', () => {
+    expect(parseTimestamp('01:02:03')).toBe(3723);
+    expect(parseTimestamp('00:05')).toBe(5);
+    expect(parseTimestamp('4.5s')).toBe(4.5);
+    expect(parseTimestamp(' 00:03.5 ')).toBe(3.5);
+  });
+
+  it('rejects fields above 59 and anything that is not a time', () => {
+    expect(parseTimestamp('00:75')).toBeNull();
+    expect(parseTimestamp('abc')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('accepts the separators models use', () => {
+    expect(parseTimeRange('00:00 - 00:05')).toEqual({ start: 0, end: 5 });
+    expect(parseTimeRange('00:05–00:08')).toEqual({ start: 5, end: 8 });
+    expect(parseTimeRange('1s to 2.5s')).toEqual({ start: 1, end: 2.5 });
+  });
+
+  it('rejects empty, inverted and one-sided ranges', () => {
+    expect(parseTimeRange('00:05 - 00:05')).toBeNull();
+    expect(parseTimeRange('00:08 - 00:05')).toBeNull();
+    expect(parseTimeRange('00:05')).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('only shows tenths when the value is not a whole second', () => {
+    expect(formatTimestamp(65)).toBe('01:05');
+    expect(formatTimestamp(3.25)).toBe('00:03.3');
+    expect(formatTimestamp(-1)).toBe('00:00');
+  });
+});
+
+describe('resolveSceneTimings', () => {
+  it('estimates malformed ranges from their neighbours, sharing the gap', () => {
+    const timings = resolveSceneTimings([
+      scene(1, '00:00 - 00:02'),
+      scene(2, 'garbage'),
+      scene(3, 'also garbage'),
+      scene(4, '00:06 - 00:08'),
+    ]);
+    expect(timings.map(t => [t.start, t.end, t.isEstimated])).toEqual([
+      [0, 2, false],
+      [2, 4, true],
+      [4, 6, true],
+      [6, 8, false],
+    ]);
+  });
+
+  it('falls back to a fixed length when there is no next scene', () => {
+    const [, last] = resolveSceneTimings([scene(1, '00:00 - 00:02'), scene(2, '?')]);
+    expect(last).toMatchObject({ start: 2, end: 5, isEstimated: true });
+  });
+
+  it('clamps to the video length', () => {
+    const [timing] = resolveSceneTimings([scene(1, '00:04 - 00:12')], 10);
+    expect(timing).toMatchObject({ start: 4, end: 10 });
+  });
+});
+
+describe('findSceneAtTime', () => {
+  it('gives a shared boundary to the later scene', () => {
+    const timings = resolveSceneTimings([scene(1, '00:00 - 00:02'), scene(2, '00:02 - 00:04')]);
+    expect(findSceneAtTime(timings, 1.99)?.sceneId).toBe(1);
+    expect(findSceneAtTime(timings, 2)?.sceneId).toBe(2);
+    expect(findSceneAtTime(timings, 4)).toBeUndefined();
+  });
+});
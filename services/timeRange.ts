@@ -0,0 +1,96 @@
+import { StoryboardScene, SceneTiming } from "../types";
+
+// Used when a scene's range can't be parsed and there is no neighbour to borrow from
+const FALLBACK_SCENE_SECONDS = 3;
+
+/**
+ * Parses a single timestamp. Accepts "HH:MM:SS", "MM:SS", "SS", optional
+ * fractional seconds ("00:03.5") and a trailing "s" ("4.5s").
+ * Returns null for anything else.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const text = value.trim().replace(/s$/i, '');
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(text)) return null;
+
+  const parts = text.split(':');
+  let seconds = 0;
+  for (const part of parts) {
+    seconds = seconds * 60 + parseFloat(part);
+  }
+  // Minutes/seconds fields above 59 mean the model wrote something other than a clock time
+  if (parts.length > 1 && parts.slice(1).some(p => parseFloat(p) >= 60)) return null;
+  return Number.isFinite(seconds) ? seconds : null;
+};
+
+/**
+ * Splits "00:00 - 00:05" (also en/em dashes, "to", "~") into start and end seconds.
+ * Returns null when either side is unreadable or the range is empty or inverted.
+ */
+export const parseTimeRange = (timeRange: string): { start: number; end: number } | null => {
+  const sides = timeRange.split(/\s*(?:-|–|—|~|\bto\b)\s*/i).filter(Boolean);
+  if (sides.length !== 2) return null;
+
+  const start = parseTimestamp(sides[0]);
+  const end = parseTimestamp(sides[1]);
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+};
+
+/**
+ * "MM:SS", or "MM:SS.s" when the value isn't a whole second (edited boundaries often aren't).
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  const mins = Math.floor(tenths / 600);
+  const secs = Math.floor((tenths % 600) / 10);
+  const fraction = tenths % 10;
+  const base = `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return fraction ? `${base}.${fraction}` : base;
+};
+
+export const formatTimeRange = (start: number, end: number): string =>
+  `${formatTimestamp(start)} - ${formatTimestamp(end)}`;
+
+/**
+ * Resolves every scene to concrete start/end seconds, in list order.
+ * Malformed ranges are estimated from their neighbours (previous end to next
+ * start) and flagged with `isEstimated` so the UI can warn about them.
+ * When `duration` is known, times are clamped to the video length.
+ */
+export const resolveSceneTimings = (scenes: StoryboardScene[], duration?: number): SceneTiming[] => {
+  const parsed = scenes.map(scene => parseTimeRange(scene.timeRange));
+
+  const timings: SceneTiming[] = [];
+  scenes.forEach((scene, i) => {
+    const range = parsed[i];
+    if (range) {
+      timings.push({ sceneId: scene.id, start: range.start, end: range.end, isEstimated: false });
+      return;
+    }
+
+    const start = i > 0 ? timings[i - 1].end : 0;
+    const nextParsed = parsed.slice(i + 1).find(Boolean);
+    let end = start + FALLBACK_SCENE_SECONDS;
+    if (nextParsed && nextParsed.start > start) {
+      // Share the gap evenly when several consecutive scenes are malformed
+      const malformedRun = parsed.slice(i).findIndex(Boolean);
+      end = start + (nextParsed.start - start) / malformedRun;
+    }
+    timings.push({ sceneId: scene.id, start, end, isEstimated: true });
+  });
+
+  if (duration && Number.isFinite(duration)) {
+    return timings.map(t => ({
+      ...t,
+      start: Math.min(t.start, duration),
+      end: Math.min(t.end, duration),
+    }));
+  }
+  return timings;
+};
+
+/**
+ * Scene whose range contains `time`. Ranges are half-open, so a boundary belongs to the later scene.
+ */
+export const findSceneAtTime = (timings: SceneTiming[], time: number): SceneTiming | undefined =>
+  timings.find(t => time >= t.start && time < t.end);
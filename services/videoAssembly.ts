@@ -0,0 +1,403 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from "mp4-muxer";
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer";
+import { ClipAssemblyConfig, SceneTextOverlay } from "../types";
+import { drawTextOverlays } from "./textOverlays";
+import { throwIfAborted } from "./polling";
+import { loadVideo, releaseVideo, seekTo } from "./frameCapture";
+import { AssemblyPlan, PlannedSegment, planAssembly, getFrameLayers } from "./assemblyTimeline";
+
+export type AssemblyFormat = 'mp4' | 'webm';
+
+// How a clip whose aspect ratio differs from the output is fitted into the frame
+export type FitMode = 'letterbox' | 'crop';
+
+export interface OutputResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const OUTPUT_RESOLUTIONS: OutputResolution[] = [
+  { id: '1080x1920', label: '1080×1920 (9:16 vertical)', width: 1080, height: 1920 },
+  { id: '1920x1080', label: '1920×1080 (16:9 landscape)', width: 1920, height: 1080 },
+  { id: '1080x1350', label: '1080×1350 (4:5 feed)', width: 1080, height: 1350 },
+  { id: '1080x1080', label: '1080×1080 (1:1 square)', width: 1080, height: 1080 },
+  { id: '720x1280', label: '720×1280 (9:16, smaller file)', width: 720, height: 1280 },
+  { id: '1280x720', label: '1280×720 (16:9, smaller file)', width: 1280, height: 720 },
+];
+
+// Best first; `muxer` is the codec name the container library expects
+const VIDEO_CODECS: Record<AssemblyFormat, { encoder: string; muxer: string }[]> = {
+  mp4: [
+    { encoder: 'avc1.640028', muxer: 'avc' },
+    { encoder: 'avc1.4d0028', muxer: 'avc' },
+  ],
+  webm: [
+    { encoder: 'vp09.00.40.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ],
+};
+
+// Not every platform can encode AAC, so MP4 falls back to Opus, which MP4 also carries
+const AUDIO_CODECS: Record<AssemblyFormat, { encoder: string; muxer: string }[]> = {
+  mp4: [
+    { encoder: 'mp4a.40.2', muxer: 'aac' },
+    { encoder: 'opus', muxer: 'opus' },
+  ],
+  webm: [{ encoder: 'opus', muxer: 'A_OPUS' }],
+};
+
+const OUTPUT_FPS = 30;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_CHUNK_FRAMES = 4800;
+const MAX_ENCODE_QUEUE = 8;
+
+// What the user picks in Final Assembly; 'auto' resolution follows the generation aspect ratio
+export interface AssemblySettings {
+  format: AssemblyFormat;
+  resolutionId: string;
+  fit: FitMode;
+  burnInOverlays: boolean;
+  matchReferenceTiming: boolean;
+}
+
+export interface AssemblyClip {
+  url: string;
+  sceneDuration: number; // length of the reference scene, which overlay times refer to
+  config: ClipAssemblyConfig;
+  overlays?: SceneTextOverlay[];
+}
+
+export interface AssemblyOptions {
+  width: number;
+  height: number;
+  fit: FitMode;
+  format: AssemblyFormat;
+  matchReferenceTiming: boolean;
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
+export interface AssembledVideo {
+  blob: Blob;
+  mimeType: string;
+  extension: AssemblyFormat;
+  warnings: string[];
+  plan: AssemblyPlan; // where each clip ended up, for comparing against the reference
+  clipIndices: number[]; // input clip behind each of the plan's clips; clips that failed to load are left out
+}
+
+const getVideoBitrate = (width: number, height: number) => Math.round(width * height * OUTPUT_FPS * 0.12);
+
+const pickVideoCodec = async (format: AssemblyFormat, width: number, height: number) => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  for (const codec of VIDEO_CODECS[format]) {
+    const config: VideoEncoderConfig = { codec: codec.encoder, width, height, bitrate: getVideoBitrate(width, height), framerate: OUTPUT_FPS };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return { ...codec, config };
+  }
+  return null;
+};
+
+const pickAudioCodec = async (format: AssemblyFormat) => {
+  if (typeof AudioEncoder === 'undefined') return null;
+  for (const codec of AUDIO_CODECS[format]) {
+    const config: AudioEncoderConfig = { codec: codec.encoder, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: 128_000 };
+    const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return { ...codec, config };
+  }
+  return null;
+};
+
+/**
+ * Which formats this browser can encode with WebCodecs, checked at 1080p.
+ */
+export const getSupportedFormats = async (): Promise<Record<AssemblyFormat, boolean>> => {
+  const [mp4, webm] = await Promise.all([pickVideoCodec('mp4', 1920, 1080), pickVideoCodec('webm', 1920, 1080)]);
+  return { mp4: !!mp4, webm: !!webm };
+};
+
+export const getDefaultAssemblySettings = (): AssemblySettings => ({
+  format: 'mp4',
+  resolutionId: 'auto',
+  fit: 'letterbox',
+  burnInOverlays: true,
+  matchReferenceTiming: false,
+});
+
+export const resolveOutputResolution = (resolutionId: string, aspectRatio: string): OutputResolution =>
+  OUTPUT_RESOLUTIONS.find(r => r.id === resolutionId)
+  ?? OUTPUT_RESOLUTIONS.find(r => (aspectRatio === '9:16' ? r.height > r.width : r.width > r.height))
+  ?? OUTPUT_RESOLUTIONS[0];
+
+/**
+ * Where to draw a source frame so it fits the output: whole frame with black
+ * bars for letterbox, or filling the frame and cutting off the overflow for crop.
+ */
+export const fitRect = (sourceWidth: number, sourceHeight: number, width: number, height: number, fit: FitMode) => {
+  const scale = fit === 'crop'
+    ? Math.max(width / sourceWidth, height / sourceHeight)
+    : Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  return { x: (width - drawWidth) / 2, y: (height - drawHeight) / 2, width: drawWidth, height: drawHeight };
+};
+
+/**
+ * Length of a clip in seconds, for showing trim ranges before assembly.
+ */
+export const loadVideoDuration = async (url: string): Promise<number> => {
+  const video = await loadVideo(url);
+  const duration = video.duration;
+  releaseVideo(video);
+  return Number.isFinite(duration) ? duration : 0;
+};
+
+const decodeClipAudio = async (url: string, context: BaseAudioContext): Promise<AudioBuffer | null> => {
+  try {
+    const data = await (await fetch(url)).arrayBuffer();
+    return await context.decodeAudioData(data);
+  } catch {
+    // Clips without a sound track fail to decode; they just stay silent
+    return null;
+  }
+};
+
+/**
+ * Renders the clips' sound onto one stereo track with the plan's trims, speeds
+ * and transition fades. Returns null when no clip has audio.
+ */
+const mixAudio = async (clips: AssemblyClip[], plan: AssemblyPlan): Promise<AudioBuffer | null> => {
+  const context = new OfflineAudioContext(AUDIO_CHANNELS, Math.max(1, Math.ceil(plan.duration * AUDIO_SAMPLE_RATE)), AUDIO_SAMPLE_RATE);
+  const buffers = await Promise.all(clips.map(clip => decodeClipAudio(clip.url, context)));
+  if (buffers.every(buffer => !buffer)) return null;
+
+  plan.segments.forEach((segment: PlannedSegment) => {
+    const buffer = buffers[segment.index];
+    if (!buffer) return;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = segment.speed;
+    const gain = context.createGain();
+    const end = segment.start + segment.duration;
+    const fadeIn = segment.transitionIn;
+    gain.gain.setValueAtTime(fadeIn ? 0 : 1, segment.start);
+
+    if (fadeIn) {
+      // Dip-to-black is silent at its midpoint, crossfades overlap the two clips' sound
+      if (fadeIn.type === 'dip-to-black') gain.gain.setValueAtTime(0, segment.start + fadeIn.duration / 2);
+      gain.gain.linearRampToValueAtTime(1, segment.start + fadeIn.duration);
+    }
+    const fadeOut = segment.transitionOut;
+    if (fadeOut) {
+      const silentFrom = fadeOut.type === 'dip-to-black' ? end - fadeOut.duration / 2 : end;
+      gain.gain.setValueAtTime(1, end - fadeOut.duration);
+      gain.gain.linearRampToValueAtTime(0, silentFrom);
+    }
+
+    // playbackRate shifts pitch along with speed, like a tape machine; fine for short speed ramps
+    source.connect(gain).connect(context.destination);
+    source.start(segment.start, segment.trimStart, segment.duration * segment.speed);
+  });
+
+  return context.startRendering();
+};
+
+type EncodedChunk =
+  | { kind: 'video'; chunk: EncodedVideoChunk; meta?: EncodedVideoChunkMetadata }
+  | { kind: 'audio'; chunk: EncodedAudioChunk; meta?: EncodedAudioChunkMetadata };
+
+const waitForQueue = (encoder: VideoEncoder | AudioEncoder) => new Promise<void>(resolve => {
+  if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) {
+    resolve();
+    return;
+  }
+  encoder.ondequeue = () => {
+    if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) {
+      encoder.ondequeue = null;
+      resolve();
+    }
+  };
+});
+
+/**
+ * Renders the final cut frame by frame: every output frame seeks the clips it
+ * needs, composites them on a canvas and hands the frame to a WebCodecs
+ * encoder, so the result does not depend on playback speed or dropped frames.
+ * Audio is mixed offline and the two tracks are muxed into MP4 or WebM. Clips
+ * that fail to load are left out with a warning rather than failing the render.
+ */
+export const assembleVideo = async (inputClips: AssemblyClip[], options: AssemblyOptions): Promise<AssembledVideo> => {
+  const { width, height, fit, format, matchReferenceTiming, signal, onProgress } = options;
+  const warnings: string[] = [];
+
+  const videoCodec = await pickVideoCodec(format, width, height);
+  if (!videoCodec) {
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} video at ${width}×${height}. Try ${format === 'mp4' ? 'WebM' : 'MP4'} or a smaller resolution.`);
+  }
+  throwIfAborted(signal);
+
+  onProgress?.("Loading clips...");
+  const loads = await Promise.allSettled(inputClips.map(clip => loadVideo(clip.url, signal)));
+  const clipIndices: number[] = [];
+  const videos: HTMLVideoElement[] = [];
+  loads.forEach((load, i) => {
+    if (load.status === 'fulfilled') {
+      clipIndices.push(i);
+      videos.push(load.value);
+    } else {
+      warnings.push(`Clip ${i + 1} could not be loaded and was left out of the final cut.`);
+    }
+  });
+  const clips = clipIndices.map(i => inputClips[i]);
+  if (signal?.aborted || clips.length === 0) {
+    videos.forEach(releaseVideo);
+    throwIfAborted(signal);
+    throw new Error("None of the generated clips could be loaded for assembly.");
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  const encoded: EncodedChunk[] = [];
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => encoded.push({ kind: 'video', chunk, meta }),
+    error: (err) => { encoderError = err; },
+  });
+  let audioEncoder: AudioEncoder | null = null;
+
+  try {
+    if (!ctx) throw new Error("Could not create canvas context");
+    const plan = planAssembly(
+      clips.map((clip, i) => ({
+        clipDuration: Number.isFinite(videos[i].duration) ? videos[i].duration : clip.sceneDuration,
+        sceneDuration: clip.sceneDuration,
+        config: clip.config,
+      })),
+      matchReferenceTiming
+    );
+
+    onProgress?.("Mixing audio...");
+    const audioCodec = await pickAudioCodec(format);
+    const mixed = audioCodec ? await mixAudio(clips, plan) : null;
+    if (!audioCodec) warnings.push("This browser cannot encode audio, so the final cut is silent.");
+    throwIfAborted(signal);
+
+    if (mixed && audioCodec) {
+      audioEncoder = new AudioEncoder({
+        output: (chunk, meta) => encoded.push({ kind: 'audio', chunk, meta }),
+        error: (err) => { encoderError = err; },
+      });
+      audioEncoder.configure(audioCodec.config);
+      for (let offset = 0; offset < mixed.length; offset += AUDIO_CHUNK_FRAMES) {
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, mixed.length - offset);
+        const data = new Float32Array(frames * AUDIO_CHANNELS);
+        for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+          data.set(mixed.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+        }
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate: AUDIO_SAMPLE_RATE,
+          numberOfFrames: frames,
+          numberOfChannels: AUDIO_CHANNELS,
+          timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+          data,
+        });
+        audioEncoder.encode(audioData);
+        audioData.close();
+        await waitForQueue(audioEncoder);
+      }
+      await audioEncoder.flush();
+    }
+
+    videoEncoder.configure(videoCodec.config);
+    const frameCount = Math.max(1, Math.round(plan.duration * OUTPUT_FPS));
+    const frameDuration = 1e6 / OUTPUT_FPS;
+    let lastReported = -1;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+      const percent = Math.floor((frame / frameCount) * 100);
+      if (percent !== lastReported && percent % 5 === 0) {
+        lastReported = percent;
+        onProgress?.(`Rendering frames... ${percent}%`);
+      }
+
+      const layers = getFrameLayers(plan, frame / OUTPUT_FPS);
+      await Promise.all(layers.map(layer => seekTo(videos[layer.index], layer.sourceTime, signal)));
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, width, height);
+      layers.forEach(layer => {
+        const video = videos[layer.index];
+        const clip = clips[layer.index];
+        ctx.save();
+        ctx.globalAlpha = layer.alpha;
+        ctx.translate(layer.offsetX * width, 0);
+        if (layer.blur > 0) ctx.filter = `blur(${(layer.blur * width * 0.015).toFixed(1)}px)`;
+        const rect = fitRect(video.videoWidth || width, video.videoHeight || height, width, height, fit);
+        ctx.drawImage(video, rect.x, rect.y, rect.width, rect.height);
+        ctx.filter = 'none';
+        if (clip.overlays?.length) drawTextOverlays(ctx, clip.overlays, layer.sceneTime, clip.sceneDuration);
+        if (layer.dim > 0) {
+          ctx.fillStyle = `rgba(0, 0, 0, ${layer.dim})`;
+          ctx.fillRect(0, 0, width, height);
+        }
+        ctx.restore();
+      });
+
+      const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(frame * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % (OUTPUT_FPS * KEYFRAME_INTERVAL_SECONDS) === 0 });
+      videoFrame.close();
+      await waitForQueue(videoEncoder);
+    }
+
+    onProgress?.("Finishing file...");
+    await videoEncoder.flush();
+    if (encoderError) throw encoderError;
+
+    const audioTrack = mixed && audioCodec
+      ? { codec: audioCodec.muxer, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS }
+      : undefined;
+    // Both muxers expect chunks in timestamp order across tracks
+    const ordered = [...encoded].sort((a, b) => a.chunk.timestamp - b.chunk.timestamp);
+    let buffer: ArrayBuffer;
+    if (format === 'mp4') {
+      const target = new Mp4Target();
+      const muxer = new Mp4Muxer({
+        target,
+        video: { codec: 'avc', width, height, frameRate: OUTPUT_FPS },
+        audio: audioTrack && { ...audioTrack, codec: audioTrack.codec as 'aac' | 'opus' },
+        fastStart: 'in-memory',
+        firstTimestampBehavior: 'offset',
+      });
+      ordered.forEach(item => item.kind === 'video' ? muxer.addVideoChunk(item.chunk, item.meta) : muxer.addAudioChunk(item.chunk, item.meta));
+      muxer.finalize();
+      buffer = target.buffer;
+    } else {
+      const target = new WebMTarget();
+      const muxer = new WebMMuxer({
+        target,
+        video: { codec: videoCodec.muxer, width, height, frameRate: OUTPUT_FPS },
+        audio: audioTrack,
+        firstTimestampBehavior: 'offset',
+      });
+      ordered.forEach(item => item.kind === 'video' ? muxer.addVideoChunk(item.chunk, item.meta) : muxer.addAudioChunk(item.chunk, item.meta));
+      muxer.finalize();
+      buffer = target.buffer;
+    }
+
+    const mimeType = format === 'mp4' ? 'video/mp4' : 'video/webm';
+    return { blob: new Blob([buffer], { type: mimeType }), mimeType, extension: format, warnings, plan, clipIndices };
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+    videos.forEach(releaseVideo);
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_VIDEO_SETTINGS, normalizeVideoSettings, describeVideoSettings, withResolvedSeed } from './videoSettings';
+
+describe('normalizeVideoSettings', () => {
+  it('snaps durations to the nearest supported length', () => {
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, durationSeconds: 5.2 }).durationSeconds).toBe(6);
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, durationSeconds: 1 }).durationSeconds).toBe(4);
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, durationSeconds: 30 }).durationSeconds).toBe(8);
+  });
+
+  it('forces 8-second clips at 1080p', () => {
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, resolution: '1080p', durationSeconds: 4 }).durationSeconds).toBe(8);
+  });
+
+  it('keeps seeds, counts and variants within range', () => {
+    const settings = normalizeVideoSettings({
+      ...DEFAULT_VIDEO_SETTINGS,
+      model: 'turbo' as never,
+      resolution: '4k' as never,
+      seed: 2 ** 40,
+      numberOfVideos: 9,
+      negativePrompt: '  text  ',
+    });
+    expect(settings).toEqual({
+      model: 'fast', resolution: '720p', durationSeconds: 8, negativePrompt: 'text', seed: 2 ** 32 - 1, numberOfVideos: 4,
+    });
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, seed: -3.6, numberOfVideos: 0 })).toMatchObject({ seed: 0, numberOfVideos: 1 });
+  });
+});
+
+describe('withResolvedSeed', () => {
+  it('picks an unsigned 32-bit seed only when none is set', () => {
+    const { seed } = withResolvedSeed(DEFAULT_VIDEO_SETTINGS);
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(2 ** 32 - 1);
+    expect(withResolvedSeed({ ...DEFAULT_VIDEO_SETTINGS, seed: 42 }).seed).toBe(42);
+  });
+});
+
+describe('describeVideoSettings', () => {
+  it('lists the settings that shape the clip', () => {
+    expect(describeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, model: 'quality', seed: 42, negativePrompt: 'text, logos' }))
+      .toBe('Quality · 720p · 8s · seed 42 · avoid: text, logos');
+  });
+});
@@ -0,0 +1,60 @@
+import { VideoGenerationSettings, VideoModelVariant, VideoResolution } from "../types";
+
+export const VIDEO_MODELS: Record<VideoModelVariant, { id: string; label: string; description: string }> = {
+  fast: { id: 'veo-3.1-fast-generate-preview', label: 'Fast', description: 'Quicker and cheaper; good for drafts' },
+  quality: { id: 'veo-3.1-generate-preview', label: 'Quality', description: 'Slower, with more detail and better motion' },
+};
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+export const VIDEO_DURATIONS = [4, 6, 8];
+export const MAX_VIDEOS_PER_REQUEST = 4;
+const MAX_SEED = 2 ** 32 - 1;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoGenerationSettings = {
+  model: 'fast',
+  resolution: '720p',
+  durationSeconds: 8,
+  negativePrompt: '',
+  seed: null,
+  numberOfVideos: 1,
+};
+
+/**
+ * Pulls settings back into what Veo accepts: 1080p only renders 8-second clips,
+ * durations snap to the nearest supported length and seeds are unsigned 32-bit.
+ */
+export const normalizeVideoSettings = (settings: VideoGenerationSettings): VideoGenerationSettings => {
+  const duration = VIDEO_DURATIONS.reduce((best, d) =>
+    Math.abs(d - settings.durationSeconds) < Math.abs(best - settings.durationSeconds) ? d : best
+  );
+  const seed = settings.seed === null || !Number.isFinite(settings.seed)
+    ? null
+    : Math.min(MAX_SEED, Math.max(0, Math.round(settings.seed)));
+  return {
+    model: settings.model in VIDEO_MODELS ? settings.model : DEFAULT_VIDEO_SETTINGS.model,
+    resolution: VIDEO_RESOLUTIONS.includes(settings.resolution) ? settings.resolution : DEFAULT_VIDEO_SETTINGS.resolution,
+    durationSeconds: settings.resolution === '1080p' ? 8 : duration,
+    negativePrompt: settings.negativePrompt.trim(),
+    seed,
+    numberOfVideos: Math.min(MAX_VIDEOS_PER_REQUEST, Math.max(1, Math.round(settings.numberOfVideos) || 1)),
+  };
+};
+
+/**
+ * Picks a seed when none is set, so the take records the one it was made with
+ * and can be reproduced.
+ */
+export const withResolvedSeed = (settings: VideoGenerationSettings): VideoGenerationSettings =>
+  settings.seed !== null ? settings : { ...settings, seed: Math.floor(Math.random() * (MAX_SEED + 1)) };
+
+/**
+ * One-line summary for a take, e.g. "Quality · 1080p · 8s · seed 42 · avoid: text, logos".
+ */
+export const describeVideoSettings = (settings: VideoGenerationSettings): string =>
+  [
+    VIDEO_MODELS[settings.model]?.label ?? settings.model,
+    settings.resolution,
+    `${settings.durationSeconds}s`,
+    settings.seed !== null ? `seed ${settings.seed}` : 'random seed',
+    settings.negativePrompt ? `avoid: ${settings.negativePrompt}` : '',
+  ].filter(Boolean).join(' · ');
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { SceneTiming } from '../types';
+import { computePacing, describePacing, readViralAnalysis } from './viralAnalysis';
+
+const timings = (...spans: [number, number][]): SceneTiming[] =>
+  spans.map(([start, end], i) => ({ sceneId: i + 1, start, end, isEstimated: false }));
+
+describe('computePacing', () => {
+  it('measures shot lengths and counts every scene boundary as a cut', () => {
+    expect(computePacing(timings([0, 2], [2, 3], [3, 8]))).toEqual({
+      sceneCount: 3,
+      totalSeconds: 8,
+      averageShotSeconds: 8 / 3,
+      cutsPerSecond: 2 / 8,
+      shortestShotSeconds: 1,
+      longestShotSeconds: 5,
+    });
+  });
+
+  it('measures the total from the first start, not from zero', () => {
+    expect(computePacing(timings([10, 14], [14, 20]))).toMatchObject({ totalSeconds: 10, cutsPerSecond: 0.1 });
+  });
+
+  it('leaves zero-length scenes out of the shot lengths', () => {
+    expect(computePacing(timings([0, 4], [4, 4]))).toMatchObject({
+      sceneCount: 2, averageShotSeconds: 4, shortestShotSeconds: 4,
+    });
+  });
+
+  it('returns null when no scene has a length', () => {
+    expect(computePacing([])).toBeNull();
+    expect(computePacing(timings([3, 3]))).toBeNull();
+  });
+});
+
+describe('describePacing', () => {
+  it('labels the pacing by average shot length', () => {
+    const label = (averageShotSeconds: number) => describePacing({
+      sceneCount: 1, totalSeconds: 1, averageShotSeconds, cutsPerSecond: 0, shortestShotSeconds: 1, longestShotSeconds: 1,
+    });
+    expect(label(1)).toBe('Rapid-fire');
+    expect(label(2)).toBe('Fast');
+    expect(label(4)).toBe('Moderate');
+    expect(label(8)).toBe('Slow');
+  });
+});
+
+describe('readViralAnalysis', () => {
+  it('keeps trimmed text and only the pattern interrupts with a description', () => {
+    expect(readViralAnalysis({
+      hookType: ' Question ',
+      patternInterrupts: [{ time: '00:03', description: 'Zoom cut' }, { time: '00:05' }, 'noise'],
+      audioNotes: 42,
+    })).toEqual({
+      hookType: 'Question',
+      hookBreakdown: '',
+      patternInterrupts: [{ time: '00:03', description: 'Zoom cut' }],
+      emotionalArc: '',
+      ctaPlacement: '',
+      audioNotes: '',
+      formatNotes: '',
+    });
+  });
+
+  it('returns undefined when there is nothing to show', () => {
+    expect(readViralAnalysis(undefined)).toBeUndefined();
+    expect(readViralAnalysis({ hookType: '  ', patternInterrupts: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { ViralAnalysis, PacingStats, SceneTiming } from "../types";
+
+const TEXT_FIELDS = ['hookType', 'hookBreakdown', 'emotionalArc', 'ctaPlacement', 'audioNotes', 'formatNotes'] as const;
+
+/**
+ * Keeps the usable parts of a raw `viralAnalysis` value from the model.
+ * Returns undefined when it is missing or has no content at all.
+ */
+export const readViralAnalysis = (value: unknown): ViralAnalysis | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  const text = (key: string) => (typeof record[key] === 'string' ? (record[key] as string).trim() : '');
+
+  const patternInterrupts = Array.isArray(record.patternInterrupts)
+    ? record.patternInterrupts
+        .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+        .map(item => ({
+          time: typeof item.time === 'string' ? item.time.trim() : '',
+          description: typeof item.description === 'string' ? item.description.trim() : '',
+        }))
+        .filter(item => item.description)
+    : [];
+
+  const analysis: ViralAnalysis = {
+    hookType: text('hookType'),
+    hookBreakdown: text('hookBreakdown'),
+    patternInterrupts,
+    emotionalArc: text('emotionalArc'),
+    ctaPlacement: text('ctaPlacement'),
+    audioNotes: text('audioNotes'),
+    formatNotes: text('formatNotes'),
+  };
+  const hasContent = patternInterrupts.length > 0 || TEXT_FIELDS.some(key => analysis[key]);
+  return hasContent ? analysis : undefined;
+};
+
+/**
+ * Shot-length statistics from the resolved scene timings. Every scene boundary
+ * counts as a cut, so a video with N scenes has N - 1 cuts.
+ */
+export const computePacing = (timings: SceneTiming[]): PacingStats | null => {
+  const lengths = timings.map(t => t.end - t.start).filter(length => length > 0);
+  if (lengths.length === 0) return null;
+
+  const totalSeconds = Math.max(...timings.map(t => t.end)) - Math.min(...timings.map(t => t.start));
+  return {
+    sceneCount: timings.length,
+    totalSeconds,
+    averageShotSeconds: lengths.reduce((sum, length) => sum + length, 0) / lengths.length,
+    cutsPerSecond: totalSeconds > 0 ? (timings.length - 1) / totalSeconds : 0,
+    shortestShotSeconds: Math.min(...lengths),
+    longestShotSeconds: Math.max(...lengths),
+  };
+};
+
+/**
+ * One-word read of the pacing for the panel and exports.
+ */
+export const describePacing = (pacing: PacingStats): string => {
+  if (pacing.averageShotSeconds < 1.5) return 'Rapid-fire';
+  if (pacing.averageShotSeconds < 3) return 'Fast';
+  if (pacing.averageShotSeconds < 6) return 'Moderate';
+  return 'Slow';
+};
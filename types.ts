@@ -5,13 +5,187 @@ export interface StoryboardScene {
   cameraMovement: string;
   aiImagePrompt: string; // For Midjourney/Stable Diffusion
   aiVideoPrompt: string; // For Runway/Luma/Sora
-  voiceoverScript?: string;
+  voiceoverScript?: string; // spoken words only; on-screen text lives in textOverlays
+  textOverlays?: SceneTextOverlay[];
+  audio?: SceneAudio;
+  promptVariants?: ScenePromptVariants;
+}
+
+export type TextOverlayPosition = 'top' | 'center' | 'bottom';
+export type TextOverlayFont = 'sans' | 'serif' | 'display' | 'handwritten' | 'mono';
+export type TextOverlayAnimation = 'none' | 'pop-in' | 'fade' | 'typewriter' | 'slide-up';
+
+/**
+ * A caption or title shown on screen, as opposed to spoken words.
+ * Times are seconds from the start of the scene.
+ */
+export interface SceneTextOverlay {
+  text: string;
+  start: number;
+  end?: number; // until the end of the scene when missing
+  position: TextOverlayPosition;
+  font: TextOverlayFont;
+  fontWeight: 'normal' | 'bold';
+  color: string; // CSS colour, e.g. "#FFFFFF"
+  backgroundColor?: string; // caption box behind the text, if any
+  animation: TextOverlayAnimation;
+}
+
+/**
+ * What the scene sounds like. Every field is optional because the model only
+ * fills in what it can actually hear.
+ */
+export interface SceneAudio {
+  musicMood?: string; // e.g. "upbeat lo-fi", "tense strings"
+  bpm?: number; // rough tempo estimate
+  sfx?: string[]; // sound effect cues, e.g. "whoosh on the cut"
+  cutsOnBeat?: boolean; // whether the scene's cuts land on the music's beats
+  speaker?: string; // who delivers the voiceover, e.g. "female narrator, off-screen"
+  isSilent?: boolean; // deliberate silence or near-silence
+}
+
+/**
+ * The scene's image and video prompts rewritten in each target tool's syntax.
+ * Any variant may be missing; the UI derives one from the generic prompt instead.
+ */
+export interface ScenePromptVariants {
+  midjourney?: string; // without --ar, which follows the chosen aspect ratio
+  stableDiffusion?: string;
+  stableDiffusionNegative?: string;
+  runway?: string;
+  luma?: string;
+  veo?: string;
+  // The generic prompts these were written from; once either is edited the variants are stale
+  basedOn?: { aiImagePrompt: string; aiVideoPrompt: string };
+}
+
+// The model-written text of a scene, without its identity or timing
+export type ScenePromptFields = Pick<
+  StoryboardScene,
+  'visualDescription' | 'cameraMovement' | 'aiImagePrompt' | 'aiVideoPrompt' | 'voiceoverScript' | 'textOverlays' | 'audio' | 'promptVariants'
+>;
+
+// The plain-text fields of a scene that can be edited, diffed and reverted one by one
+export type SceneTextField = Exclude<keyof ScenePromptFields, 'textOverlays' | 'audio' | 'promptVariants'>;
+
+export type ClipTransition = 'cut' | 'crossfade' | 'dip-to-black' | 'whip';
+
+/**
+ * How one generated clip is cut into the final video. Trim points are seconds
+ * into the generated clip; the transition leads into the next clip.
+ */
+export interface ClipAssemblyConfig {
+  trimStart: number;
+  trimEnd: number | null; // null plays to the end of the clip
+  speed: number; // playback rate, 1 = as generated
+  transition: ClipTransition;
+  transitionDuration: number; // seconds; ignored for cuts
+}
+
+export type VideoModelVariant = 'fast' | 'quality';
+export type VideoResolution = '720p' | '1080p';
+
+/**
+ * Advanced video generation parameters, stored with every take so it can be reproduced.
+ */
+export interface VideoGenerationSettings {
+  model: VideoModelVariant;
+  resolution: VideoResolution;
+  durationSeconds: number; // 4, 6 or 8
+  negativePrompt: string; // what to keep out of the clip; empty for none
+  seed: number | null; // null lets the model pick a random one
+  numberOfVideos: number; // each comes back as its own take
+}
+
+/**
+ * One Veo generation for a scene. Every generation is kept, with the inputs
+ * that produced it, so takes can be compared and the best one used in the final cut.
+ */
+export interface SceneTake {
+  id: string;
+  sceneId: number;
+  url: string; // object URL of the clip
+  // The inputs are missing on clips saved before takes existed
+  prompt?: string;
+  startImage?: string; // data URL of the start frame sent with the prompt
+  aspectRatio?: string; // e.g. '16:9'
+  settings?: VideoGenerationSettings;
+  createdAt: number;
+  starred: boolean;
+}
+
+export interface SceneTiming {
+  sceneId: number;
+  start: number; // seconds
+  end: number; // seconds
+  isEstimated: boolean; // true when timeRange was malformed and the span was inferred
+}
+
+export interface SceneKeyframe {
+  time: number; // seconds into the reference video
+  dataUrl: string; // downscaled JPEG thumbnail
 }
 
 export interface AnalysisResult {
   title: string;
   summary: string;
   scenes: StoryboardScene[];
+  // What was repaired in the model's output before it reached the UI, if anything
+  warnings?: string[];
+  // The analysis preset that produced this storyboard; missing on older and imported results
+  presetId?: string;
+  viralAnalysis?: ViralAnalysis;
+}
+
+/**
+ * Why the video works, as structured notes from the model. Pacing numbers are
+ * not part of this; they are measured from the scene list (see `computePacing`).
+ */
+export interface ViralAnalysis {
+  hookType: string; // e.g. "Bold claim", "Visual shock", "Question"
+  hookBreakdown: string; // what happens in the first 3 seconds and why it stops the scroll
+  patternInterrupts: { time: string; description: string }[];
+  emotionalArc: string;
+  ctaPlacement: string; // where and how the call to action lands, or that there is none
+  audioNotes: string; // trending sound, music choice, voice style
+  formatNotes: string; // format, length and platform conventions it follows
+}
+
+export interface PacingStats {
+  sceneCount: number;
+  totalSeconds: number;
+  averageShotSeconds: number;
+  cutsPerSecond: number;
+  shortestShotSeconds: number;
+  longestShotSeconds: number;
+}
+
+export type SceneGranularity = 'coarse' | 'balanced' | 'fine';
+
+/**
+ * A named analysis configuration: the prompt template and model settings used
+ * to turn a video into a storyboard. Built-in presets ship with the app; custom
+ * ones are stored in IndexedDB.
+ */
+export interface AnalysisPreset {
+  id: string;
+  name: string;
+  description: string;
+  // Supports {{sceneGuidance}}, {{sceneCount}}, {{granularity}} and {{language}}
+  promptTemplate: string;
+  model: string;
+  temperature: number;
+  granularity: SceneGranularity;
+  targetSceneCount: number | null; // overrides granularity when set
+  outputLanguage: string;
+  builtIn?: boolean;
+  updatedAt?: number;
+}
+
+export interface StoryboardExport {
+  schemaVersion: number;
+  exportedAt: string;
+  result: AnalysisResult;
 }
 
 export enum AppState {
@@ -28,9 +202,41 @@ export interface VideoFile {
   mimeType: string;
 }
 
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Null for storyboards imported without a reference video
+  videoBlob: Blob | null;
+  videoName: string | null;
+  videoMimeType: string | null;
+  result: AnalysisResult;
+  // The model's untouched output; missing on projects saved before edit history existed
+  originalResult?: AnalysisResult;
+  // Take id per scene for the final cut; scenes without an entry use their latest take
+  selectedTakes?: Record<number, string>;
+  // SHA-256 of the reference video and the prompt version it was analysed with; missing on imports
+  videoHash?: string;
+  promptVersion?: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sceneCount: number;
+  videoName: string | null;
+}
+
 declare global {
   interface AIStudio {
     hasSelectedApiKey: () => Promise<boolean>;
     openSelectKey: () => Promise<void>;
   }
+
+  interface Window {
+    aistudio?: AIStudio; // only present when the app runs inside AI Studio
+  }
 }
\ No newline at end of file